@@ -0,0 +1,213 @@
+// Module for reading batch manifests: the list of mods `--cli batch` publishes
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ModUploadData, ModVisibility, UploadJobInput } from '../../src/types';
+import { composeChangeNotes } from './change-notes';
+import { loadWorkshopProject, projectToUploadData } from './project-manifest';
+
+const VISIBILITIES: readonly ModVisibility[] = [
+  'public',
+  'friends',
+  'private',
+  'unlisted',
+];
+
+const ENTRY_KEYS = [
+  'project',
+  'label',
+  'workshopId',
+  'title',
+  'description',
+  'tags',
+  'visibility',
+  'preview',
+  'zip',
+  'dir',
+  'changeNotes',
+];
+
+function expectString(
+  entry: Record<string, unknown>,
+  key: string,
+): string | undefined {
+  const value = entry[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`"${key}" must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Turn one manifest entry into an upload job. A string is a project path;
+ * an object may name a project and override any of its fields.
+ */
+async function parseEntry(
+  entry: unknown,
+  manifestDir: string,
+  defaultChangeNotes: string | undefined,
+): Promise<UploadJobInput> {
+  if (typeof entry === 'string') {
+    entry = { project: entry };
+  }
+  if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+    throw new Error('Entry must be a project path or an object');
+  }
+  const raw = entry as Record<string, unknown>;
+  for (const key of Object.keys(raw)) {
+    if (!ENTRY_KEYS.includes(key)) {
+      throw new Error(`Unknown field "${key}"`);
+    }
+  }
+
+  const resolve = (key: string) => {
+    const value = expectString(raw, key);
+    return value ? path.resolve(manifestDir, value) : undefined;
+  };
+
+  const projectPath = resolve('project');
+  const project = projectPath ? await loadWorkshopProject(projectPath) : null;
+  const projectData = project ? projectToUploadData(project) : {};
+
+  const workshopId =
+    typeof raw.workshopId === 'number'
+      ? String(raw.workshopId)
+      : expectString(raw, 'workshopId');
+  if (workshopId !== undefined && !/^\d+$/.test(workshopId.trim())) {
+    throw new Error('"workshopId" must contain digits only');
+  }
+
+  if (
+    raw.tags !== undefined &&
+    (!Array.isArray(raw.tags) ||
+      raw.tags.some((tag) => typeof tag !== 'string'))
+  ) {
+    throw new Error('"tags" must be an array of strings');
+  }
+
+  const visibility = expectString(raw, 'visibility');
+  if (
+    visibility !== undefined &&
+    !VISIBILITIES.includes(visibility as ModVisibility)
+  ) {
+    throw new Error(`"visibility" must be one of: ${VISIBILITIES.join(', ')}`);
+  }
+
+  const zipPath = resolve('zip');
+  const modDirectory = resolve('dir');
+  if (zipPath && modDirectory) {
+    throw new Error('Use either "zip" or "dir", not both');
+  }
+
+  const modData: ModUploadData = {
+    ...projectData,
+    workshopId: workshopId?.trim() ?? projectData.workshopId,
+    title: expectString(raw, 'title') ?? projectData.title ?? '',
+    description:
+      expectString(raw, 'description') ?? projectData.description ?? '',
+    tags: raw.tags ? (raw.tags as string[]).join(', ') : projectData.tags,
+    visibility: (visibility as ModVisibility) ?? projectData.visibility,
+    previewImagePath: resolve('preview') ?? projectData.previewImagePath,
+    changeNotes: expectString(raw, 'changeNotes') ?? defaultChangeNotes,
+  };
+  if (zipPath || modDirectory) {
+    modData.zipPath = zipPath;
+    modData.modDirectory = modDirectory;
+  }
+
+  const contentPath = modData.zipPath ?? modData.modDirectory;
+  if (!contentPath) {
+    throw new Error(
+      'No content: set "zip" or "dir", or a project with "content"',
+    );
+  }
+  if (!fs.existsSync(contentPath)) {
+    throw new Error(`Content not found: ${contentPath}`);
+  }
+  if (modData.previewImagePath && !fs.existsSync(modData.previewImagePath)) {
+    throw new Error(`Preview image not found: ${modData.previewImagePath}`);
+  }
+
+  const changeNoteFrom = project?.manifest.changeNoteFrom;
+  if (modData.changeNotes === undefined && changeNoteFrom) {
+    const draft = await composeChangeNotes({
+      source: changeNoteFrom,
+      zipPath: modData.zipPath,
+      modDirectory: modData.modDirectory,
+      projectPath: project?.projectPath,
+      workshopId: modData.workshopId,
+    });
+    modData.changeNotes = draft.changeNotes;
+  }
+
+  return {
+    modData,
+    label: expectString(raw, 'label'),
+    projectPath: project?.projectPath,
+  };
+}
+
+/**
+ * Load a batch manifest: either an array of entries or an object with
+ * "jobs" and an optional default "changeNotes". Paths are relative to it.
+ * Jobs still without notes use fallbackChangeNotes, then their project's
+ * "changeNoteFrom".
+ */
+export async function loadBatchManifest(
+  manifestPath: string,
+  fallbackChangeNotes?: string,
+): Promise<UploadJobInput[]> {
+  const filePath = path.resolve(manifestPath);
+  let data: unknown;
+  try {
+    data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid batch manifest ${filePath}: ${errorMessage}`);
+  }
+
+  const manifest = (Array.isArray(data) ? { jobs: data } : data) as Record<
+    string,
+    unknown
+  >;
+  if (
+    !manifest ||
+    typeof manifest !== 'object' ||
+    !Array.isArray(manifest.jobs)
+  ) {
+    throw new Error(
+      `Invalid batch manifest ${filePath}: expected an array of jobs or an object with "jobs"`,
+    );
+  }
+  if (manifest.jobs.length === 0) {
+    throw new Error(`Batch manifest ${filePath} has no jobs`);
+  }
+
+  if (
+    manifest.changeNotes !== undefined &&
+    typeof manifest.changeNotes !== 'string'
+  ) {
+    throw new Error(
+      `Invalid batch manifest ${filePath}: "changeNotes" must be a string`,
+    );
+  }
+  const defaultChangeNotes =
+    (manifest.changeNotes as string | undefined) ?? fallbackChangeNotes;
+
+  const jobs: UploadJobInput[] = [];
+  for (const [index, entry] of manifest.jobs.entries()) {
+    try {
+      jobs.push(
+        await parseEntry(entry, path.dirname(filePath), defaultChangeNotes),
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      throw new Error(`Batch manifest job ${index + 1}: ${errorMessage}`);
+    }
+  }
+  return jobs;
+}
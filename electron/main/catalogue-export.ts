@@ -0,0 +1,183 @@
+// Export of the workshop catalogue and its stats history as CSV or JSON,
+// shared by the item list's Export action and `--cli export`
+
+import * as fs from 'fs';
+import {
+  CatalogueExportOptions,
+  ItemStatsSnapshot,
+  WorkshopItem,
+} from '../../src/types';
+import { getWorkshopUrl } from './steam';
+import { readItemStatsHistory } from './stats-history';
+
+interface ExportedSnapshot {
+  timestamp: string; // ISO 8601
+  subscriptions: number;
+  favorited: number;
+  views: number;
+}
+
+interface ExportedItem {
+  publishedFileId: string;
+  title: string;
+  description: string;
+  tags: string[];
+  visibility: string;
+  createdDate: string; // ISO 8601
+  updatedDate: string; // ISO 8601
+  subscriptions: number;
+  favorited: number;
+  views: number;
+  url: string;
+  history?: ExportedSnapshot[];
+}
+
+const CSV_COLUMNS = [
+  'publishedFileId',
+  'title',
+  'description',
+  'tags',
+  'visibility',
+  'createdDate',
+  'updatedDate',
+  'subscriptions',
+  'favorited',
+  'views',
+  'url',
+] as const;
+
+const CSV_HISTORY_COLUMNS = [
+  'snapshotDate',
+  'snapshotSubscriptions',
+  'snapshotFavorited',
+  'snapshotViews',
+];
+
+// Workshop dates are Unix seconds; 0 means Steam didn't report one
+function toIsoDate(seconds: number): string {
+  return seconds ? new Date(seconds * 1000).toISOString() : '';
+}
+
+function toExportedItem(
+  item: WorkshopItem,
+  history?: ItemStatsSnapshot[],
+): ExportedItem {
+  const exported: ExportedItem = {
+    publishedFileId: item.publishedFileId,
+    title: item.title,
+    description: item.description,
+    tags: item.tags,
+    visibility: item.visibility,
+    createdDate: toIsoDate(item.createdDate),
+    updatedDate: toIsoDate(item.updatedDate),
+    subscriptions: item.subscriptions || 0,
+    favorited: item.favorited || 0,
+    views: item.views || 0,
+    url: getWorkshopUrl(item.publishedFileId),
+  };
+  if (history) {
+    exported.history = history.map((snapshot) => ({
+      timestamp: new Date(snapshot.timestamp).toISOString(),
+      subscriptions: snapshot.subscriptions,
+      favorited: snapshot.favorited,
+      views: snapshot.views,
+    }));
+  }
+  return exported;
+}
+
+function escapeCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per item; with history, one row per snapshot with the item's
+ * columns repeated (items without snapshots keep a single row)
+ */
+function formatCsv(items: ExportedItem[], includeHistory: boolean): string {
+  const header = includeHistory
+    ? [...CSV_COLUMNS, ...CSV_HISTORY_COLUMNS]
+    : [...CSV_COLUMNS];
+  const rows: (string | number)[][] = [];
+
+  for (const item of items) {
+    const itemFields = CSV_COLUMNS.map((column) =>
+      column === 'tags' ? item.tags.join(', ') : item[column],
+    );
+    if (!includeHistory) {
+      rows.push(itemFields);
+    } else if (!item.history?.length) {
+      rows.push([...itemFields, '', '', '', '']);
+    } else {
+      for (const snapshot of item.history) {
+        rows.push([
+          ...itemFields,
+          snapshot.timestamp,
+          snapshot.subscriptions,
+          snapshot.favorited,
+          snapshot.views,
+        ]);
+      }
+    }
+  }
+
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvField).join(','))
+    .join('\n')
+    .concat('\n');
+}
+
+/**
+ * Render the items in the requested format, reading the stats history when
+ * it is included
+ */
+export async function formatCatalogueExport(
+  items: WorkshopItem[],
+  options: CatalogueExportOptions,
+): Promise<string> {
+  const includeHistory = options.includeHistory ?? false;
+  const snapshotsById = new Map<string, ItemStatsSnapshot[]>();
+  if (includeHistory) {
+    for (const snapshot of await readItemStatsHistory()) {
+      const snapshots = snapshotsById.get(snapshot.workshopId) ?? [];
+      snapshots.push(snapshot);
+      snapshotsById.set(snapshot.workshopId, snapshots);
+    }
+  }
+
+  const exported = items.map((item) =>
+    toExportedItem(
+      item,
+      includeHistory
+        ? (snapshotsById.get(item.publishedFileId) ?? [])
+        : undefined,
+    ),
+  );
+
+  if (options.format === 'csv') {
+    return formatCsv(exported, includeHistory);
+  }
+  return `${JSON.stringify(
+    { exportedAt: new Date().toISOString(), items: exported },
+    null,
+    2,
+  )}\n`;
+}
+
+/**
+ * Write an export to a file. CSV files start with a byte order mark so
+ * spreadsheet apps read non-ASCII titles as UTF-8.
+ */
+export async function writeCatalogueExport(
+  filePath: string,
+  items: WorkshopItem[],
+  options: CatalogueExportOptions,
+): Promise<void> {
+  const content = await formatCatalogueExport(items, options);
+  await fs.promises.writeFile(
+    filePath,
+    options.format === 'csv' ? `\uFEFF${content}` : content,
+    'utf8',
+  );
+}
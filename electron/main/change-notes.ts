@@ -0,0 +1,239 @@
+// Module for composing change notes from a CHANGELOG or git history
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ChangeNoteDraft,
+  ChangeNoteRequest,
+  WorkshopProject,
+} from '../../src/types';
+import { escapeBBCode } from '../../src/utils/bbcode';
+import { markdownToBBCode } from '../../src/utils/markdown-to-bbcode';
+import { config } from './config';
+import { getGitHead, isAncestorOfHead, runGit } from './git';
+import { extractModMetadata, isChangelogFileName } from './mod-parser';
+import { packageModDirectory } from './mod-packager';
+import { projectToUploadData, resolveProjectPath } from './project-manifest';
+import { readUploadHistory } from './upload-history';
+
+// "## [1.2.0] - 2026-01-31", "## 1.2.0" or "## v1.2.0"; not "## [Unreleased]"
+const VERSION_HEADING = /^##\s+\[?v?(\d[^\]\s]*)/;
+// "[1.2.0]: https://..." link definitions at the end of a Keep a Changelog file
+const LINK_DEFINITION = /^\[[^\]]+\]:\s/;
+
+/**
+ * The notes under a Keep a Changelog version heading; without a version, the
+ * newest released section. Null when there is no such section.
+ */
+export function extractChangelogSection(
+  markdown: string,
+  version?: string,
+): { version: string; notes: string } | null {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const wanted = version?.replace(/^v/, '');
+
+  const start = lines.findIndex((line) => {
+    const heading = VERSION_HEADING.exec(line)?.[1];
+    return heading !== undefined && (!wanted || heading === wanted);
+  });
+  if (start === -1) {
+    return null;
+  }
+
+  let end = lines.findIndex(
+    (line, index) => index > start && /^#{1,2}\s/.test(line),
+  );
+  if (end === -1) {
+    end = lines.length;
+  }
+
+  return {
+    version: VERSION_HEADING.exec(lines[start])?.[1] as string,
+    notes: lines
+      .slice(start + 1, end)
+      .filter((line) => !LINK_DEFINITION.test(line))
+      .join('\n')
+      .trim(),
+  };
+}
+
+async function readChangelog(
+  directory: string,
+): Promise<{ file: string; markdown: string } | null> {
+  const entries = await fs.promises
+    .readdir(directory)
+    .catch(() => [] as string[]);
+  const fileName = entries.filter(isChangelogFileName).sort()[0];
+  if (!fileName) {
+    return null;
+  }
+  const file = path.join(directory, fileName);
+  return { file, markdown: await fs.promises.readFile(file, 'utf8') };
+}
+
+/**
+ * The CHANGELOG section for the package's version. The package's own
+ * CHANGELOG.md wins over one in the project or mod folder.
+ */
+async function composeFromChangelog(
+  request: ChangeNoteRequest,
+  projectDir: string | undefined,
+): Promise<ChangeNoteDraft> {
+  let zipPath = request.zipPath;
+  if (!zipPath && request.modDirectory) {
+    zipPath = (
+      await packageModDirectory(request.modDirectory, request.packageOptions)
+    ).zipPath;
+  }
+  const metadata = zipPath ? await extractModMetadata(zipPath) : null;
+
+  let changelog = metadata?.changelog
+    ? { file: 'CHANGELOG.md', markdown: metadata.changelog }
+    : null;
+  for (const directory of [projectDir, request.modDirectory]) {
+    if (!changelog && directory) {
+      changelog = await readChangelog(directory);
+    }
+  }
+  if (!changelog) {
+    throw new Error('No CHANGELOG.md found in the package or project folder');
+  }
+
+  const fileName = path.basename(changelog.file);
+  const section = extractChangelogSection(
+    changelog.markdown,
+    metadata?.version,
+  );
+  if (!section) {
+    throw new Error(
+      metadata?.version
+        ? `${fileName} has no section for version ${metadata.version}`
+        : `${fileName} has no released version section`,
+    );
+  }
+  if (!section.notes) {
+    throw new Error(`${fileName} section ${section.version} is empty`);
+  }
+
+  return {
+    source: 'changelog',
+    changeNotes: markdownToBBCode(section.notes),
+    summary: `${fileName}, version ${section.version}`,
+  };
+}
+
+/**
+ * Commit subjects since the commit of the item's last successful upload
+ * (when HEAD still contains it), else since the latest tag, else the most
+ * recent commits
+ */
+async function composeFromGit(
+  directory: string,
+  workshopId: string | undefined,
+): Promise<ChangeNoteDraft> {
+  if (!(await getGitHead(directory))) {
+    throw new Error(
+      `Not a git repository (or git is not installed): ${directory}`,
+    );
+  }
+
+  let since: string | undefined;
+  let sinceLabel = '';
+  if (workshopId) {
+    const lastUpload = (await readUploadHistory(workshopId)).find(
+      (entry) => entry.outcome === 'success' && entry.gitCommit,
+    );
+    if (
+      lastUpload?.gitCommit &&
+      (await isAncestorOfHead(directory, lastUpload.gitCommit))
+    ) {
+      since = lastUpload.gitCommit;
+      sinceLabel = `the last upload (${since.slice(0, 7)})`;
+    } else if (lastUpload?.gitCommit) {
+      console.warn(
+        `Commit ${lastUpload.gitCommit.slice(0, 7)} of the last upload is not in the history of ${directory}; listing commits since the latest tag instead`,
+      );
+    }
+  }
+  if (!since) {
+    const tag = await runGit(directory, [
+      'describe',
+      '--tags',
+      '--abbrev=0',
+    ]).catch(() => '');
+    if (tag) {
+      since = tag;
+      sinceLabel = `tag ${tag}`;
+    }
+  }
+
+  const output = await runGit(directory, [
+    'log',
+    '--no-merges',
+    '--format=%s',
+    `--max-count=${config.changeNotes.maxCommits}`,
+    ...(since ? [`${since}..HEAD`] : []),
+  ]).catch((error: Error) => {
+    throw new Error(`Could not read git history: ${error.message}`);
+  });
+  const subjects = output.split('\n').filter((line) => line.trim());
+  if (subjects.length === 0) {
+    throw new Error(`No commits since ${sinceLabel}`);
+  }
+
+  const count = `${subjects.length} commit${subjects.length === 1 ? '' : 's'}`;
+  return {
+    source: 'git',
+    changeNotes: [
+      '[list]',
+      ...subjects.map((subject) => `[*]${escapeBBCode(subject)}`),
+      '[/list]',
+    ].join('\n'),
+    summary: since ? `${count} since ${sinceLabel}` : `the last ${count}`,
+  };
+}
+
+/**
+ * Compose change notes as BBCode for the user to review before publishing
+ */
+export async function composeChangeNotes(
+  request: ChangeNoteRequest,
+): Promise<ChangeNoteDraft> {
+  const projectDir = request.projectPath
+    ? path.dirname(resolveProjectPath(request.projectPath))
+    : undefined;
+
+  if (request.source === 'changelog') {
+    return composeFromChangelog(request, projectDir);
+  }
+
+  const directory =
+    projectDir ??
+    request.modDirectory ??
+    (request.zipPath ? path.dirname(request.zipPath) : undefined);
+  if (!directory) {
+    throw new Error('No project or mod folder to read git history from');
+  }
+  return composeFromGit(directory, request.workshopId);
+}
+
+/**
+ * Change notes for a project whose workshop.json sets "changeNoteFrom"
+ */
+export async function composeProjectChangeNotes(
+  project: WorkshopProject,
+): Promise<string | undefined> {
+  const source = project.manifest.changeNoteFrom;
+  if (!source) {
+    return undefined;
+  }
+  const projectData = projectToUploadData(project);
+  const draft = await composeChangeNotes({
+    source,
+    zipPath: projectData.zipPath,
+    modDirectory: projectData.modDirectory,
+    projectPath: project.projectPath,
+    workshopId: projectData.workshopId,
+  });
+  return draft.changeNotes;
+}
@@ -1,28 +1,103 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import type { ModUploadData, ModVisibility } from '../../src/types';
+import type {
+  AdditionalPreview,
+  CatalogueExportFormat,
+  ChangeNoteSource,
+  ModUploadData,
+  ModValidationReport,
+  ModVisibility,
+  UploadHistoryEntry,
+  UploadJob,
+  UploadPlan,
+  UploadProgressEvent,
+  VersionBumpCheck,
+  WorkshopErrorInfo,
+  WorkshopItem,
+  WorkshopItemDiff,
+  WorkshopLocalizations,
+  WorkshopProject,
+} from '../../src/types';
+import { parseYouTubeVideoId } from '../../src/utils/preview-media';
+import { diffWorkshopItem, parseTagList } from '../../src/utils/workshop-diff';
+import { resolveTags } from '../../src/utils/workshop-tags';
+import { loadBatchManifest } from './batch-manifest';
+import { composeChangeNotes } from './change-notes';
+import {
+  formatCatalogueExport,
+  writeCatalogueExport,
+} from './catalogue-export';
+import { config } from './config';
 import { getWorkshopUrl } from './steam';
+import { packageModDirectory } from './mod-packager';
+import { formatValidationIssues, validateModPackage } from './mod-validator';
+import {
+  loadWorkshopProject,
+  projectToUploadData,
+  saveProjectWorkshopId,
+} from './project-manifest';
+import { loadDescriptionFile } from './readme-description';
+import { loadLocalizationDir } from './localization';
+import { readUploadHistory } from './upload-history';
+import { createUploadQueue } from './upload-queue';
+import { normalizeWorkshopError, toWorkshopErrorInfo } from './workshop-errors';
 import {
-  normalizeWorkshopError,
+  parseWorkshopBackendName,
+  setWorkshopBackendName,
+} from './workshop-backend';
+import {
+  deleteWorkshopItem,
+  ensureWorkshopBackendReady,
+  getWorkshopItem,
   parseWorkshopId,
+  queryPublishedWorkshopItems,
   uploadWorkshopItem,
 } from './workshop-service';
 
 interface UploadCliArgs {
+  projectPath?: string;
   zipPath?: string;
+  modDirectory?: string;
+  include: string[];
+  exclude: string[];
   workshopId?: string;
   title?: string;
   description?: string;
+  descriptionFile?: string;
+  localizationDir?: string;
+  localizations?: WorkshopLocalizations;
   tags?: string;
   visibility?: ModVisibility;
   previewImagePath?: string;
+  additionalPreviews: AdditionalPreview[]; // --screenshot / --video in order
+  clearPreviews: boolean;
   changeNotes?: string;
+  changeNoteFrom?: ChangeNoteSource;
   allowCreate: boolean;
+  allowSameVersion: boolean;
+  allowUnknownTags: boolean;
+  validateOnly: boolean;
+  dryRun: boolean;
+  diff: boolean;
   json: boolean;
   openWorkshopPage: boolean;
   help: boolean;
 }
 
+interface CliCommand {
+  summary: string;
+  usage: string;
+  run: (args: string[]) => Promise<number>;
+}
+
+// Published, but hidden until the Workshop legal agreement is accepted
+const EXIT_NEEDS_AGREEMENT = 2;
+
+const VALID_CHANGE_NOTE_SOURCES = new Set<ChangeNoteSource>([
+  'changelog',
+  'git',
+]);
+
 const VALID_VISIBILITY = new Set<ModVisibility>([
   'public',
   'friends',
@@ -30,8 +105,8 @@ const VALID_VISIBILITY = new Set<ModVisibility>([
   'unlisted',
 ]);
 
-export function isCliUploadMode(argv: string[] = process.argv): boolean {
-  return argv.includes('--cli-upload');
+export function isCliMode(argv: string[] = process.argv): boolean {
+  return argv.includes('--cli') || argv.includes('--cli-upload');
 }
 
 function redirectLogsToStderr(): () => void {
@@ -51,28 +126,348 @@ function redirectLogsToStderr(): () => void {
   };
 }
 
+/**
+ * Error fields of JSON results; errorCode and retryable are stable for scripts
+ */
+function toJsonError(error: WorkshopErrorInfo) {
+  return {
+    error: error.message,
+    errorCode: error.code,
+    errorCategory: error.category,
+    retryable: error.retryable,
+    remedy: error.remedy,
+  };
+}
+
+/**
+ * Write one JSON document to stdout, bypassing the stderr log redirect
+ */
+function printJson(value: unknown): void {
+  process.stdout.write(`${JSON.stringify(value)}\n`);
+}
+
 function printUsage(): void {
-  console.log(`Steam Workshop CLI Upload
+  const commandList = Object.entries(COMMANDS)
+    .map(([name, command]) => `  ${name.padEnd(10)} ${command.summary}`)
+    .join('\n');
+
+  console.log(`Steam Workshop CLI
 
 Usage:
-  electron . --cli-upload --workshop-id <id> --zip <path> --change-note "..."
+  electron . --cli <command> [options]
 
-Options:
-  --workshop-id <id>     Existing workshop item ID to update
-  --zip <path>           Mod zip file to upload
-  --change-note <text>   Change notes for the workshop update
-  --title <text>         Optional title override
-  --description <text>   Optional description override
-  --tags <csv>           Optional comma-separated tag override
-  --visibility <value>   public | friends | private | unlisted (new items default to public)
-  --preview <path>       Optional preview image override
-  --allow-create         Create a new workshop item if no workshop ID is provided
-  --open-workshop-page   Open the updated workshop page in Steam overlay
-  --json                 Print machine-readable JSON result
-  --help                 Show this help
+Commands:
+${commandList}
+
+Global options:
+  --backend <name>       steam | fake (default: $WORKSHOP_BACKEND or steam)
+  --json                 Print machine-readable JSON on stdout; logs go to stderr
+  --help                 Show help for a command
+
+--cli-upload [options] is kept as a shorthand for --cli upload [options].
 `);
 }
 
+function printCommandUsage(name: string): void {
+  const command = COMMANDS[name];
+  console.log(`${command.summary}
+
+Usage:
+${command.usage}`);
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+  return `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * Print upload progress as human-readable lines, or as JSON lines on stdout
+ * (which stays reserved for machine output while logs go to stderr).
+ */
+function createProgressPrinter(
+  json: boolean,
+): (progress: UploadProgressEvent) => void {
+  let lastStage: string | null = null;
+  let lastPercent = -1;
+
+  return (progress) => {
+    if (json) {
+      process.stdout.write(
+        `${JSON.stringify({ event: 'progress', ...progress })}\n`,
+      );
+      return;
+    }
+
+    // Print each stage once, then every 5% of byte progress within it
+    const percent = progress.percent ?? -1;
+    if (
+      progress.stage === lastStage &&
+      percent < 100 &&
+      percent - lastPercent < 5
+    ) {
+      return;
+    }
+    lastStage = progress.stage;
+    lastPercent = percent;
+
+    const bytes =
+      progress.bytesTotal !== undefined
+        ? ` ${progress.percent}% (${formatBytes(progress.bytesProcessed ?? 0)} / ${formatBytes(progress.bytesTotal)})`
+        : '';
+    console.log(`${progress.message}${bytes}`);
+  };
+}
+
+function formatAdditionalPreviews(previews: AdditionalPreview[]): string {
+  return previews
+    .map((preview) =>
+      preview.type === 'video'
+        ? `video ${preview.videoId}`
+        : (preview.path ?? preview.url),
+    )
+    .join(', ');
+}
+
+function formatLocalizations(localizations: WorkshopLocalizations): string {
+  return Object.entries(localizations)
+    .map(([language, text]) => {
+      const fields = [];
+      if (text.title) fields.push('title');
+      if (text.description) {
+        fields.push(`${text.description.length} characters`);
+      }
+      return `${language} (${fields.join(', ')})`;
+    })
+    .join(', ');
+}
+
+function formatVersionCheck(check: VersionBumpCheck): string {
+  const version = check.version ?? '(none)';
+  return check.status === 'first'
+    ? `${version} (no earlier upload recorded)`
+    : `${version} (last published ${check.publishedVersion})`;
+}
+
+function printUploadPlan(plan: UploadPlan): void {
+  const { updateDetails } = plan;
+  const lines = [
+    'Upload plan (dry run - nothing was published):',
+    `  Action:        ${plan.action}`,
+    `  Workshop ID:   ${plan.workshopId ?? '(new item)'}`,
+    `  Title:         ${updateDetails.title ?? '(unchanged)'}`,
+    `  Description:   ${
+      updateDetails.description === undefined
+        ? '(unchanged)'
+        : `${updateDetails.description.length} characters`
+    }`,
+    `  Tags:          ${plan.tags ? plan.tags.join(', ') || '(none)' : '(unchanged)'}`,
+    `  Visibility:    ${
+      plan.visibility
+        ? `${plan.visibility.value} (UGC ${plan.visibility.ugcVisibility}, ${plan.visibility.source})`
+        : '(unchanged)'
+    }`,
+    `  Content:       ${
+      plan.contentPath
+        ? `${plan.contentPath}${plan.contentSize !== undefined ? ` (${formatBytes(plan.contentSize)})` : ''}`
+        : '(unchanged)'
+    }`,
+    ...(plan.contentPackage
+      ? [
+          `  Packaged from: ${plan.contentPackage.directory} (${plan.contentPackage.files.length} files)`,
+          `  Content hash:  sha256 ${plan.contentPackage.sha256}`,
+        ]
+      : []),
+    `  Preview:       ${
+      plan.previewPath
+        ? `${plan.previewPath}${plan.previewSize !== undefined ? ` (${formatBytes(plan.previewSize)})` : ''}`
+        : '(unchanged)'
+    }`,
+    `  Extra previews: ${
+      updateDetails.additionalPreviews
+        ? formatAdditionalPreviews(updateDetails.additionalPreviews) ||
+          '(remove all)'
+        : '(unchanged)'
+    }`,
+    `  Dependencies:  ${
+      plan.dependencies
+        ? plan.dependencies.join(', ') || '(none - existing ones are removed)'
+        : '(unchanged)'
+    }`,
+    ...(updateDetails.localizations
+      ? [`  Languages:     ${formatLocalizations(updateDetails.localizations)}`]
+      : []),
+    ...(plan.versionCheck
+      ? [`  Mod version:   ${formatVersionCheck(plan.versionCheck)}`]
+      : []),
+    `  Change note:   ${updateDetails.changeNote ?? '(none)'}`,
+    `  updateDetails: ${JSON.stringify(updateDetails)}`,
+  ];
+  for (const warning of plan.warnings) {
+    lines.push(`  Warning:       ${warning}`);
+  }
+  console.log(lines.join('\n'));
+}
+
+function printWorkshopDiff(item: WorkshopItem, diff: WorkshopItemDiff): void {
+  const lines = [
+    `Changes for workshop item ${item.publishedFileId} ("${item.title}"):`,
+  ];
+
+  if (diff.title) {
+    lines.push(`  Title:       "${diff.title.from}" -> "${diff.title.to}"`);
+  }
+  if (diff.description) {
+    lines.push('  Description:');
+    for (const line of diff.description) {
+      if (line.type !== 'unchanged') {
+        lines.push(`    ${line.type === 'added' ? '+' : '-'} ${line.text}`);
+      }
+    }
+  }
+  if (diff.tagsAdded.length > 0 || diff.tagsRemoved.length > 0) {
+    const tagChanges = [
+      ...diff.tagsAdded.map((tag) => `+${tag}`),
+      ...diff.tagsRemoved.map((tag) => `-${tag}`),
+    ];
+    lines.push(`  Tags:        ${tagChanges.join(' ')}`);
+  }
+  if (diff.visibility) {
+    lines.push(
+      `  Visibility:  ${diff.visibility.from} -> ${diff.visibility.to}`,
+    );
+  }
+  if (diff.replacesContent) {
+    lines.push('  Content:     will be replaced');
+  }
+  if (diff.replacesPreview) {
+    lines.push('  Preview:     will be replaced');
+  }
+  if (diff.replacesAdditionalPreviews) {
+    lines.push('  Gallery:     extra screenshots and videos will be replaced');
+  }
+  if (!diff.hasChanges) {
+    lines.push('  No changes.');
+  }
+
+  console.log(lines.join('\n'));
+}
+
+function printValidationReport(report: ModValidationReport): void {
+  const lines = [
+    `Validated ${report.zipPath} (${report.fileCount} files, ${formatBytes(report.uncompressedSize)} uncompressed):`,
+    ...formatValidationIssues(report.issues).map((line) => `  ${line}`),
+  ];
+  lines.push(
+    report.valid
+      ? `  Package is valid (${report.warningCount} warning${report.warningCount === 1 ? '' : 's'}).`
+      : `  Package has ${report.errorCount} error${report.errorCount === 1 ? '' : 's'}.`,
+  );
+  console.log(lines.join('\n'));
+}
+
+function printUploadHistory(entries: UploadHistoryEntry[]): void {
+  if (entries.length === 0) {
+    console.log('No uploads recorded.');
+    return;
+  }
+
+  for (const entry of entries) {
+    const details = [
+      new Date(entry.timestamp).toLocaleString(),
+      entry.workshopId ?? '(not created)',
+      entry.modVersion ? `v${entry.modVersion}` : '-',
+      entry.outcome === 'success' ? entry.action : 'FAILED',
+      entry.changedFields.join(',') || '-',
+    ];
+    if (entry.contentSha256) {
+      details.push(`sha256 ${entry.contentSha256.slice(0, 12)}`);
+    }
+    if (entry.contentSize !== undefined) {
+      details.push(formatBytes(entry.contentSize));
+    }
+    if (entry.backend !== 'steam') {
+      details.push(`[${entry.backend}]`);
+    }
+    console.log(details.join('  '));
+    if (entry.changeNotes) {
+      console.log(`    ${entry.changeNotes.replace(/\n/g, '\n    ')}`);
+    }
+    if (entry.error) {
+      console.log(`    Error: ${entry.error.replace(/\n/g, '\n    ')}`);
+    }
+  }
+}
+
+function formatItemDate(seconds: number): string {
+  return seconds ? new Date(seconds * 1000).toLocaleString() : '-';
+}
+
+/**
+ * Print aligned columns; the last column is left unpadded
+ */
+function printTable(header: string[], body: string[][]): void {
+  const rows = [header, ...body];
+  const widths = header.map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+  for (const row of rows) {
+    console.log(
+      row
+        .map((cell, column) =>
+          column === row.length - 1 ? cell : cell.padEnd(widths[column]),
+        )
+        .join('  '),
+    );
+  }
+}
+
+function printWorkshopItems(items: WorkshopItem[]): void {
+  if (items.length === 0) {
+    console.log('No published workshop items.');
+    return;
+  }
+
+  printTable(
+    ['ID', 'Visibility', 'Subs', 'Favs', 'Views', 'Updated', 'Title'],
+    items.map((item) => [
+      item.publishedFileId,
+      item.visibility,
+      String(item.subscriptions),
+      String(item.favorited),
+      String(item.views),
+      item.updatedDate
+        ? new Date(item.updatedDate * 1000).toLocaleDateString()
+        : '-',
+      item.title,
+    ]),
+  );
+}
+
+function printWorkshopItem(item: WorkshopItem): void {
+  const lines = [
+    `Workshop item ${item.publishedFileId} ("${item.title}"):`,
+    `  URL:           ${getWorkshopUrl(item.publishedFileId)}`,
+    `  Visibility:    ${item.visibility}`,
+    `  Tags:          ${item.tags.join(', ') || '(none)'}`,
+    `  Created:       ${formatItemDate(item.createdDate)}`,
+    `  Updated:       ${formatItemDate(item.updatedDate)}`,
+    `  Subscriptions: ${item.subscriptions}`,
+    `  Favorites:     ${item.favorited}`,
+    `  Views:         ${item.views}`,
+    ...(item.additionalPreviews
+      ? [
+          `  Extra previews: ${formatAdditionalPreviews(item.additionalPreviews) || '(none)'}`,
+        ]
+      : []),
+    '  Description:',
+    ...(item.description || '(none)').split('\n').map((line) => `    ${line}`),
+  ];
+  console.log(lines.join('\n'));
+}
+
 function consumeValue(args: string[], index: number, flag: string): string {
   const value = args[index + 1];
   if (!value || value.startsWith('--')) {
@@ -81,16 +476,88 @@ function consumeValue(args: string[], index: number, flag: string): string {
   return value;
 }
 
-function parseUploadArgs(argv: string[]): UploadCliArgs {
-  const cliIndex = argv.indexOf('--cli-upload');
-  const args = cliIndex >= 0 ? argv.slice(cliIndex + 1) : argv.slice(2);
+/**
+ * Options shared by every command; they may appear before or after the
+ * command name
+ */
+function applyGlobalOptions(args: string[]): string[] {
+  const remaining: string[] = [];
+  for (let index = 0; index < args.length; index += 1) {
+    if (args[index] === '--backend') {
+      setWorkshopBackendName(
+        parseWorkshopBackendName(consumeValue(args, index, '--backend')),
+      );
+      index += 1;
+    } else {
+      remaining.push(args[index]);
+    }
+  }
+  return remaining;
+}
+
+/**
+ * Parse the arguments of a command taking one positional value plus --json
+ * and --help
+ */
+function parseSingleValueArgs(
+  args: string[],
+  valueName: string,
+): { value?: string; json: boolean; help: boolean; flags: Set<string> } {
+  const parsed = {
+    value: undefined as string | undefined,
+    json: false,
+    help: false,
+    flags: new Set<string>(),
+  };
+
+  for (const arg of args) {
+    if (arg === '--json') {
+      parsed.json = true;
+    } else if (arg === '--help') {
+      parsed.help = true;
+    } else if (arg.startsWith('--')) {
+      parsed.flags.add(arg);
+    } else if (parsed.value === undefined) {
+      parsed.value = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  if (!parsed.help && !parsed.value) {
+    throw new Error(`Missing ${valueName}`);
+  }
+  return parsed;
+}
+
+function rejectUnknownFlags(flags: Set<string>, allowed: string[] = []): void {
+  for (const flag of flags) {
+    if (!allowed.includes(flag)) {
+      throw new Error(`Unknown argument: ${flag}`);
+    }
+  }
+}
 
-  const parsed: UploadCliArgs = {
+function createUploadArgs(): UploadCliArgs {
+  return {
+    include: [],
+    exclude: [],
+    additionalPreviews: [],
+    clearPreviews: false,
     allowCreate: false,
+    allowSameVersion: false,
+    allowUnknownTags: false,
+    validateOnly: false,
+    dryRun: false,
+    diff: false,
     json: false,
     openWorkshopPage: false,
     help: false,
   };
+}
+
+function parseUploadArgs(args: string[]): UploadCliArgs {
+  const parsed = createUploadArgs();
 
   for (let index = 0; index < args.length; index += 1) {
     const arg = args[index];
@@ -102,6 +569,21 @@ function parseUploadArgs(argv: string[]): UploadCliArgs {
       case '--allow-create':
         parsed.allowCreate = true;
         break;
+      case '--allow-same-version':
+        parsed.allowSameVersion = true;
+        break;
+      case '--allow-unknown-tags':
+        parsed.allowUnknownTags = true;
+        break;
+      case '--validate-only':
+        parsed.validateOnly = true;
+        break;
+      case '--dry-run':
+        parsed.dryRun = true;
+        break;
+      case '--diff':
+        parsed.diff = true;
+        break;
       case '--json':
         parsed.json = true;
         break;
@@ -112,6 +594,22 @@ function parseUploadArgs(argv: string[]): UploadCliArgs {
         parsed.zipPath = consumeValue(args, index, arg);
         index += 1;
         break;
+      case '--project':
+        parsed.projectPath = consumeValue(args, index, arg);
+        index += 1;
+        break;
+      case '--dir':
+        parsed.modDirectory = consumeValue(args, index, arg);
+        index += 1;
+        break;
+      case '--include':
+        parsed.include.push(consumeValue(args, index, arg));
+        index += 1;
+        break;
+      case '--exclude':
+        parsed.exclude.push(consumeValue(args, index, arg));
+        index += 1;
+        break;
       case '--workshop-id':
         parsed.workshopId = consumeValue(args, index, arg);
         index += 1;
@@ -120,6 +618,17 @@ function parseUploadArgs(argv: string[]): UploadCliArgs {
         parsed.changeNotes = consumeValue(args, index, arg);
         index += 1;
         break;
+      case '--change-note-from': {
+        const source = consumeValue(args, index, arg) as ChangeNoteSource;
+        if (!VALID_CHANGE_NOTE_SOURCES.has(source)) {
+          throw new Error(
+            `Invalid change note source "${source}". Expected one of: changelog, git.`,
+          );
+        }
+        parsed.changeNoteFrom = source;
+        index += 1;
+        break;
+      }
       case '--title':
         parsed.title = consumeValue(args, index, arg);
         index += 1;
@@ -128,6 +637,14 @@ function parseUploadArgs(argv: string[]): UploadCliArgs {
         parsed.description = consumeValue(args, index, arg);
         index += 1;
         break;
+      case '--description-file':
+        parsed.descriptionFile = consumeValue(args, index, arg);
+        index += 1;
+        break;
+      case '--localization-dir':
+        parsed.localizationDir = consumeValue(args, index, arg);
+        index += 1;
+        break;
       case '--tags':
         parsed.tags = consumeValue(args, index, arg);
         index += 1;
@@ -147,6 +664,26 @@ function parseUploadArgs(argv: string[]): UploadCliArgs {
         parsed.previewImagePath = consumeValue(args, index, arg);
         index += 1;
         break;
+      case '--screenshot':
+        parsed.additionalPreviews.push({
+          type: 'image',
+          path: consumeValue(args, index, arg),
+        });
+        index += 1;
+        break;
+      case '--video': {
+        const value = consumeValue(args, index, arg);
+        const videoId = parseYouTubeVideoId(value);
+        if (!videoId) {
+          throw new Error(`Invalid YouTube video ID or link: ${value}`);
+        }
+        parsed.additionalPreviews.push({ type: 'video', videoId });
+        index += 1;
+        break;
+      }
+      case '--clear-previews':
+        parsed.clearPreviews = true;
+        break;
       default:
         throw new Error(`Unknown argument: ${arg}`);
     }
@@ -161,32 +698,116 @@ function toAbsolutePath(filePath: string): string {
     : path.resolve(process.cwd(), filePath);
 }
 
+/**
+ * Read --description-file into the description, converting Markdown such as
+ * a README to BBCode
+ */
+async function applyDescriptionFile(args: UploadCliArgs): Promise<void> {
+  if (!args.descriptionFile) {
+    return;
+  }
+  if (args.description !== undefined) {
+    throw new Error('Use either --description or --description-file, not both');
+  }
+
+  const filePath = toAbsolutePath(args.descriptionFile);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Description file not found: ${filePath}`);
+  }
+  const { description, relativeImages } = await loadDescriptionFile(filePath);
+  args.description = description;
+  if (relativeImages.length > 0) {
+    console.warn(
+      `Warning: ${path.basename(filePath)} uses images Steam can't show (${relativeImages.join(', ')}). Upload them elsewhere and link them with https:// addresses.`,
+    );
+  }
+}
+
+/**
+ * Read --localization-dir into per-language titles and descriptions
+ */
+async function applyLocalizationDir(args: UploadCliArgs): Promise<void> {
+  if (args.localizationDir) {
+    args.localizations = await loadLocalizationDir(
+      toAbsolutePath(args.localizationDir),
+    );
+  }
+}
+
+/**
+ * Fill options not given on the command line from the project manifest
+ */
+function applyProject(args: UploadCliArgs, project: WorkshopProject): void {
+  const projectData = projectToUploadData(project);
+  args.workshopId ??= projectData.workshopId;
+  args.title ??= projectData.title;
+  args.description ??= projectData.description;
+  args.tags ??= projectData.tags;
+  args.visibility ??= projectData.visibility;
+  args.previewImagePath ??= projectData.previewImagePath;
+  args.localizations ??= projectData.localizations;
+  if (args.changeNotes === undefined) {
+    args.changeNoteFrom ??= project.manifest.changeNoteFrom;
+  }
+  if (!args.zipPath && !args.modDirectory) {
+    args.zipPath = projectData.zipPath;
+    args.modDirectory = projectData.modDirectory;
+  }
+}
+
 function buildUploadData(args: UploadCliArgs): ModUploadData {
   const workshopId = args.workshopId?.trim();
 
   return {
     zipPath: args.zipPath ? toAbsolutePath(args.zipPath) : undefined,
+    modDirectory: args.modDirectory
+      ? toAbsolutePath(args.modDirectory)
+      : undefined,
+    packageOptions: { include: args.include, exclude: args.exclude },
     workshopId,
     title: args.title || '',
     description: args.description || '',
     tags: args.tags,
+    allowUnknownTags: args.allowUnknownTags || undefined,
     visibility: args.visibility,
     previewImagePath: args.previewImagePath
       ? toAbsolutePath(args.previewImagePath)
       : undefined,
+    additionalPreviews:
+      args.clearPreviews || args.additionalPreviews.length > 0
+        ? args.additionalPreviews.map((preview) =>
+            preview.type === 'image' && preview.path
+              ? { type: 'image', path: toAbsolutePath(preview.path) }
+              : preview,
+          )
+        : undefined,
+    localizations: args.localizations,
     changeNotes: args.changeNotes,
   };
 }
 
-function validateUploadArgs(args: UploadCliArgs): void {
-  if (!args.zipPath) {
-    throw new Error('Missing required --zip argument');
+function validateContentArgs(args: UploadCliArgs): void {
+  if (args.zipPath && args.modDirectory) {
+    throw new Error('Use either --zip or --dir, not both');
   }
 
-  const absoluteZipPath = toAbsolutePath(args.zipPath);
-  if (!fs.existsSync(absoluteZipPath)) {
-    throw new Error(`ZIP file not found: ${absoluteZipPath}`);
+  if (args.modDirectory) {
+    const absoluteDirectory = toAbsolutePath(args.modDirectory);
+    if (!fs.existsSync(absoluteDirectory)) {
+      throw new Error(`Mod folder not found: ${absoluteDirectory}`);
+    }
+  } else if (!args.zipPath) {
+    throw new Error('Missing required --zip or --dir argument');
+  } else {
+    const absoluteZipPath = toAbsolutePath(args.zipPath);
+    if (!fs.existsSync(absoluteZipPath)) {
+      throw new Error(`ZIP file not found: ${absoluteZipPath}`);
+    }
   }
+}
+
+function validateUploadArgs(args: UploadCliArgs): void {
+  validateContentArgs(args);
 
   if (!args.workshopId && !args.allowCreate) {
     throw new Error(
@@ -198,67 +819,781 @@ function validateUploadArgs(args: UploadCliArgs): void {
     parseWorkshopId(args.workshopId, '--workshop-id');
   }
 
+  if (args.changeNotes !== undefined && args.changeNoteFrom) {
+    throw new Error('Use either --change-note or --change-note-from, not both');
+  }
+
   if (args.previewImagePath) {
     const absolutePreviewPath = toAbsolutePath(args.previewImagePath);
     if (!fs.existsSync(absolutePreviewPath)) {
       throw new Error(`Preview image not found: ${absolutePreviewPath}`);
     }
   }
-}
 
-export async function runCliUpload(argv: string[] = process.argv): Promise<number> {
-  try {
-    const args = parseUploadArgs(argv);
-    if (args.help) {
-      printUsage();
-      return 0;
+  if (args.clearPreviews && args.additionalPreviews.length > 0) {
+    throw new Error('Use either --clear-previews or --screenshot/--video');
+  }
+  for (const preview of args.additionalPreviews) {
+    if (preview.type === 'image' && preview.path) {
+      const absoluteScreenshotPath = toAbsolutePath(preview.path);
+      if (!fs.existsSync(absoluteScreenshotPath)) {
+        throw new Error(`Screenshot not found: ${absoluteScreenshotPath}`);
+      }
     }
+  }
+}
+
+/**
+ * Check the package (packaging a folder first) without Steam
+ */
+async function runValidation(args: UploadCliArgs): Promise<number> {
+  validateContentArgs(args);
+  const uploadData = buildUploadData(args);
 
-    validateUploadArgs(args);
-    const uploadData = buildUploadData(args);
-    const restoreLogs = args.json ? redirectLogsToStderr() : null;
-    let result;
+  let zipPath = uploadData.zipPath;
+  if (!zipPath && uploadData.modDirectory) {
+    zipPath = (
+      await packageModDirectory(
+        uploadData.modDirectory,
+        uploadData.packageOptions,
+      )
+    ).zipPath;
+  }
+  const report = await validateModPackage(zipPath as string);
+
+  if (args.json) {
+    printJson({ success: report.valid, validation: report });
+  } else {
+    printValidationReport(report);
+  }
+  return report.valid ? 0 : 1;
+}
+
+async function runUploadCommand(commandArgs: string[]): Promise<number> {
+  const args = parseUploadArgs(commandArgs);
+  if (args.help) {
+    printCommandUsage('upload');
+    return 0;
+  }
+
+  await applyDescriptionFile(args);
+  await applyLocalizationDir(args);
+  const project = args.projectPath
+    ? await loadWorkshopProject(args.projectPath)
+    : null;
+  if (project) {
+    applyProject(args, project);
+  }
+
+  if (args.validateOnly) {
+    return runValidation(args);
+  }
+
+  validateUploadArgs(args);
+  const uploadData = buildUploadData(args);
+
+  if (args.changeNoteFrom) {
+    const draft = await composeChangeNotes({
+      source: args.changeNoteFrom,
+      zipPath: uploadData.zipPath,
+      modDirectory: uploadData.modDirectory,
+      packageOptions: uploadData.packageOptions,
+      projectPath: project?.projectPath,
+      workshopId: uploadData.workshopId,
+    });
+    uploadData.changeNotes = draft.changeNotes;
+    console.log(`Change notes from ${draft.summary}:\n${draft.changeNotes}`);
+  }
 
-    try {
-      result = await uploadWorkshopItem(uploadData, {
-        mainWindow: null,
-        openWorkshopPage: args.openWorkshopPage,
+  if (args.diff) {
+    if (!uploadData.workshopId) {
+      throw new Error('--diff requires --workshop-id');
+    }
+    const liveItem = await getWorkshopItem(uploadData.workshopId);
+    const diff = diffWorkshopItem(liveItem, uploadData, config.tags);
+    if (args.json) {
+      printJson({
+        success: true,
+        publishedFileId: liveItem.publishedFileId,
+        diff,
       });
-    } finally {
-      restoreLogs?.();
+    } else {
+      printWorkshopDiff(liveItem, diff);
     }
+    return 0;
+  }
 
-    const payload = {
-      success: true,
-      publishedFileId: result.publishedFileId,
-      workshopUrl: result.publishedFileId
-        ? getWorkshopUrl(result.publishedFileId)
-        : undefined,
-    };
+  const result = await uploadWorkshopItem(uploadData, {
+    mainWindow: null,
+    openWorkshopPage: args.openWorkshopPage,
+    onProgress: createProgressPrinter(args.json),
+    onItemCreated: project
+      ? (publishedFileId) =>
+          saveProjectWorkshopId(project.projectPath, publishedFileId)
+      : undefined,
+    dryRun: args.dryRun,
+    requireVersionBump: !args.allowSameVersion,
+  });
 
+  if (result.dryRun && result.plan) {
     if (args.json) {
-      console.log(JSON.stringify(payload));
+      printJson({ success: true, dryRun: true, plan: result.plan });
     } else {
-      console.log(`Workshop upload succeeded: ${result.publishedFileId}`);
-      if (payload.workshopUrl) {
-        console.log(`Workshop URL: ${payload.workshopUrl}`);
-      }
+      printUploadPlan(result.plan);
     }
-
     return 0;
-  } catch (error) {
-    const normalizedError = normalizeWorkshopError(error);
-    if (argv.includes('--json')) {
+  }
+
+  const payload = {
+    success: true,
+    publishedFileId: result.publishedFileId,
+    workshopUrl: result.publishedFileId
+      ? getWorkshopUrl(result.publishedFileId)
+      : undefined,
+    contentSha256: result.contentPackage?.sha256,
+    dependencySync: result.dependencySync,
+    needsToAcceptAgreement: result.needsToAcceptAgreement ?? false,
+    agreementUrl: result.needsToAcceptAgreement
+      ? config.steam.workshopAgreementUrl
+      : undefined,
+  };
+
+  if (args.json) {
+    printJson(payload);
+  } else {
+    console.log(`Workshop upload succeeded: ${result.publishedFileId}`);
+    if (result.contentPackage) {
+      console.log(
+        `Content: ${result.contentPackage.files.length} files from ${result.contentPackage.directory} (sha256 ${result.contentPackage.sha256})`,
+      );
+    }
+    if (payload.workshopUrl) {
+      console.log(`Workshop URL: ${payload.workshopUrl}`);
+    }
+    if (result.dependencySync) {
+      const { dependencies, added, removed } = result.dependencySync;
+      console.log(
+        `Dependencies: ${
+          dependencies
+            .map(
+              (dependency) =>
+                `${dependency.title} (${dependency.publishedFileId})`,
+            )
+            .join(', ') || '(none)'
+        }${added.length > 0 ? `; added ${added.join(', ')}` : ''}${
+          removed.length > 0 ? `; removed ${removed.join(', ')}` : ''
+        }`,
+      );
+    }
+    if (payload.agreementUrl) {
       console.log(
-        JSON.stringify({
-          success: false,
-          error: normalizedError.message,
-        }),
+        `Warning: the item stays hidden until you accept the Steam Workshop legal agreement: ${payload.agreementUrl}`,
       );
+    }
+  }
+
+  return payload.needsToAcceptAgreement ? EXIT_NEEDS_AGREEMENT : 0;
+}
+
+async function runValidateCommand(commandArgs: string[]): Promise<number> {
+  const args = createUploadArgs();
+  let contentPath: string | undefined;
+
+  for (let index = 0; index < commandArgs.length; index += 1) {
+    const arg = commandArgs[index];
+    switch (arg) {
+      case '--help':
+        printCommandUsage('validate');
+        return 0;
+      case '--json':
+        args.json = true;
+        break;
+      case '--project':
+        args.projectPath = consumeValue(commandArgs, index, arg);
+        index += 1;
+        break;
+      case '--include':
+        args.include.push(consumeValue(commandArgs, index, arg));
+        index += 1;
+        break;
+      case '--exclude':
+        args.exclude.push(consumeValue(commandArgs, index, arg));
+        index += 1;
+        break;
+      default:
+        if (arg.startsWith('--') || contentPath !== undefined) {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
+        contentPath = arg;
+    }
+  }
+
+  if (contentPath) {
+    const isDirectory = fs
+      .statSync(toAbsolutePath(contentPath), { throwIfNoEntry: false })
+      ?.isDirectory();
+    if (isDirectory) {
+      args.modDirectory = contentPath;
     } else {
-      console.error(`Workshop upload failed: ${normalizedError.message}`);
+      args.zipPath = contentPath;
+    }
+  } else if (args.projectPath) {
+    applyProject(args, await loadWorkshopProject(args.projectPath));
+  } else {
+    throw new Error('Missing ZIP file or mod folder to validate');
+  }
+
+  return runValidation(args);
+}
+
+async function runListCommand(commandArgs: string[]): Promise<number> {
+  let json = false;
+  for (const arg of commandArgs) {
+    if (arg === '--help') {
+      printCommandUsage('list');
+      return 0;
+    }
+    if (arg !== '--json') {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+    json = true;
+  }
+
+  const backend = await ensureWorkshopBackendReady(null);
+  const { items, totalResults } = await queryPublishedWorkshopItems(backend);
+
+  if (json) {
+    printJson({ success: true, totalResults, items });
+  } else {
+    printWorkshopItems(items);
+  }
+  return 0;
+}
+
+async function runInfoCommand(commandArgs: string[]): Promise<number> {
+  const args = parseSingleValueArgs(commandArgs, 'workshop item ID');
+  if (args.help) {
+    printCommandUsage('info');
+    return 0;
+  }
+  rejectUnknownFlags(args.flags);
+
+  const item = await getWorkshopItem(args.value as string);
+  if (args.json) {
+    printJson({
+      success: true,
+      item,
+      workshopUrl: getWorkshopUrl(item.publishedFileId),
+    });
+  } else {
+    printWorkshopItem(item);
+  }
+  return 0;
+}
+
+async function runDeleteCommand(commandArgs: string[]): Promise<number> {
+  const args = parseSingleValueArgs(commandArgs, 'workshop item ID');
+  if (args.help) {
+    printCommandUsage('delete');
+    return 0;
+  }
+  rejectUnknownFlags(args.flags, ['--yes']);
+
+  // Look the item up first so a wrong ID fails before anything is deleted
+  const item = await getWorkshopItem(args.value as string);
+  if (!args.flags.has('--yes')) {
+    throw new Error(
+      `Refusing to delete workshop item ${item.publishedFileId} ("${item.title}") without --yes`,
+    );
+  }
+
+  await deleteWorkshopItem(item.publishedFileId);
+  if (args.json) {
+    printJson({ success: true, publishedFileId: item.publishedFileId });
+  } else {
+    console.log(
+      `Deleted workshop item ${item.publishedFileId} ("${item.title}")`,
+    );
+  }
+  return 0;
+}
+
+/**
+ * history: print recorded uploads, newest first
+ */
+async function runHistoryCommand(args: string[]): Promise<number> {
+  let workshopId: string | undefined;
+  let json = false;
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    switch (arg) {
+      case '--workshop-id':
+        workshopId = parseWorkshopId(
+          consumeValue(args, index, arg),
+          '--workshop-id',
+        ).toString();
+        index += 1;
+        break;
+      case '--json':
+        json = true;
+        break;
+      case '--help':
+        printCommandUsage('history');
+        return 0;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  const entries = await readUploadHistory(workshopId);
+  if (json) {
+    printJson({ success: true, entries });
+  } else {
+    printUploadHistory(entries);
+  }
+  return 0;
+}
+
+/**
+ * export: write every published item, optionally with its stats history
+ */
+async function runExportCommand(args: string[]): Promise<number> {
+  let format: CatalogueExportFormat = 'csv';
+  let includeHistory = false;
+  let outputPath: string | undefined;
+  let json = false;
+
+  for (let index = 0; index < args.length; index += 1) {
+    const arg = args[index];
+    switch (arg) {
+      case '--format': {
+        const value = consumeValue(args, index, arg);
+        if (value !== 'csv' && value !== 'json') {
+          throw new Error('--format must be csv or json');
+        }
+        format = value;
+        index += 1;
+        break;
+      }
+      case '--history':
+        includeHistory = true;
+        break;
+      case '--output':
+        outputPath = toAbsolutePath(consumeValue(args, index, arg));
+        index += 1;
+        break;
+      case '--json':
+        json = true;
+        break;
+      case '--help':
+        printCommandUsage('export');
+        return 0;
+      default:
+        throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+  if (json && !outputPath) {
+    throw new Error(
+      '--json needs --output; use --format json to print the export itself',
+    );
+  }
+
+  // Without --output the export itself goes to stdout, so logs must not
+  const restoreLogs = outputPath ? null : redirectLogsToStderr();
+  try {
+    const backend = await ensureWorkshopBackendReady(null);
+    const { items } = await queryPublishedWorkshopItems(backend);
+    const options = { format, includeHistory };
+
+    if (!outputPath) {
+      process.stdout.write(await formatCatalogueExport(items, options));
+    } else {
+      await writeCatalogueExport(outputPath, items, options);
+      if (json) {
+        printJson({
+          success: true,
+          filePath: outputPath,
+          itemCount: items.length,
+        });
+      } else {
+        console.log(`Exported ${items.length} workshop items to ${outputPath}`);
+      }
+    }
+  } finally {
+    restoreLogs?.();
+  }
+  return 0;
+}
+
+function toBatchJobResult(job: UploadJob) {
+  const publishedFileId = job.result?.publishedFileId;
+  return {
+    id: job.id,
+    label: job.label,
+    status: job.status,
+    attempts: job.attempts,
+    publishedFileId,
+    workshopUrl: publishedFileId ? getWorkshopUrl(publishedFileId) : undefined,
+    contentSha256: job.result?.contentPackage?.sha256,
+    dependencySync: job.result?.dependencySync,
+    needsToAcceptAgreement: job.result?.needsToAcceptAgreement ?? false,
+    ...(job.error ? toJsonError(job.error) : {}),
+  };
+}
+
+/**
+ * batch: publish every job of a manifest in order against one Steam session
+ */
+async function runBatchCommand(commandArgs: string[]): Promise<number> {
+  let manifestPath: string | undefined;
+  let changeNotes: string | undefined;
+  let allowCreate = false;
+  let allowSameVersion = false;
+  let allowUnknownTags = false;
+  let json = false;
+
+  for (let index = 0; index < commandArgs.length; index += 1) {
+    const arg = commandArgs[index];
+    switch (arg) {
+      case '--help':
+        printCommandUsage('batch');
+        return 0;
+      case '--json':
+        json = true;
+        break;
+      case '--allow-create':
+        allowCreate = true;
+        break;
+      case '--allow-same-version':
+        allowSameVersion = true;
+        break;
+      case '--allow-unknown-tags':
+        allowUnknownTags = true;
+        break;
+      case '--change-note':
+        changeNotes = consumeValue(commandArgs, index, arg);
+        index += 1;
+        break;
+      default:
+        if (arg.startsWith('--') || manifestPath !== undefined) {
+          throw new Error(`Unknown argument: ${arg}`);
+        }
+        manifestPath = arg;
+    }
+  }
+  if (!manifestPath) {
+    throw new Error('Missing batch manifest');
+  }
+
+  // Check every job before publishing any, so a typo doesn't stop a release halfway
+  const inputs = await loadBatchManifest(
+    toAbsolutePath(manifestPath),
+    changeNotes,
+  );
+  if (allowUnknownTags) {
+    for (const input of inputs) {
+      input.modData.allowUnknownTags = true;
+    }
+  } else {
+    const unknownTags = inputs.flatMap((input) =>
+      input.modData.tags
+        ? resolveTags(parseTagList(input.modData.tags), config.tags).unknown
+        : [],
+    );
+    if (unknownTags.length > 0) {
+      throw new Error(
+        `Jobs use tags that are not Workshop tags of the game (${[...new Set(unknownTags)].join(', ')}); fix them or pass --allow-unknown-tags`,
+      );
+    }
+  }
+  const creating = inputs.filter((input) => !input.modData.workshopId);
+  if (creating.length > 0 && !allowCreate) {
+    throw new Error(
+      `${creating.length} job(s) have no workshop ID and would create new items; pass --allow-create if that is intended`,
+    );
+  }
+
+  const startedJobs = new Set<string>();
+  const printProgress = createProgressPrinter(json);
+  const queue = createUploadQueue({
+    requireVersionBump: !allowSameVersion,
+    onJobProgress: (job, progress) => {
+      if (json) {
+        process.stdout.write(
+          `${JSON.stringify({ event: 'progress', job: job.id, label: job.label, ...progress })}\n`,
+        );
+        return;
+      }
+      if (!startedJobs.has(job.id)) {
+        startedJobs.add(job.id);
+        console.log(`\n[${job.id}/${inputs.length}] ${job.label}`);
+      }
+      printProgress(progress);
+    },
+  });
+  queue.enqueue(inputs);
+  const jobs = (await queue.run()).map(toBatchJobResult);
+
+  const failed = jobs.filter((job) => job.status === 'failed');
+  const needsAgreement = jobs.some((job) => job.needsToAcceptAgreement);
+  if (json) {
+    printJson({
+      success: failed.length === 0,
+      total: jobs.length,
+      succeeded: jobs.length - failed.length,
+      failed: failed.length,
+      needsToAcceptAgreement: needsAgreement,
+      agreementUrl: needsAgreement
+        ? config.steam.workshopAgreementUrl
+        : undefined,
+      jobs,
+    });
+  } else {
+    console.log('');
+    printTable(
+      ['#', 'Status', 'Workshop ID', 'Attempts', 'Mod'],
+      jobs.map((job) => [
+        job.id,
+        job.needsToAcceptAgreement ? 'hidden (agreement)' : job.status,
+        job.publishedFileId ?? '-',
+        String(job.attempts),
+        job.label,
+      ]),
+    );
+    for (const job of failed) {
+      console.log(`${job.label}: ${job.error}`);
+      if (job.remedy) {
+        console.log(`  Hint: ${job.remedy}`);
+      }
+    }
+    console.log(
+      `\n${jobs.length - failed.length} of ${jobs.length} uploads succeeded.`,
+    );
+    if (needsAgreement) {
+      console.log(
+        `Warning: some items stay hidden until you accept the Steam Workshop legal agreement: ${config.steam.workshopAgreementUrl}`,
+      );
+    }
+  }
+
+  if (failed.length > 0) {
+    return 1;
+  }
+  return needsAgreement ? EXIT_NEEDS_AGREEMENT : 0;
+}
+
+const COMMANDS: Record<string, CliCommand> = {
+  list: {
+    summary: 'List your published workshop items with their stats',
+    usage: '  electron . --cli list [--json]\n',
+    run: runListCommand,
+  },
+  info: {
+    summary: 'Show the details of one workshop item',
+    usage: '  electron . --cli info <workshop-id> [--json]\n',
+    run: runInfoCommand,
+  },
+  delete: {
+    summary: 'Delete a workshop item (requires --yes)',
+    usage: `  electron . --cli delete <workshop-id> --yes [--json]
+
+Deleting cannot be undone; without --yes nothing is deleted.
+`,
+    run: runDeleteCommand,
+  },
+  validate: {
+    summary: 'Check a mod ZIP or build folder without uploading',
+    usage: `  electron . --cli validate <zip or folder> [--json]
+  electron . --cli validate --project <workshop.json> [--json]
+
+Options:
+  --include <glob>       Only package matching files from a folder (repeatable)
+  --exclude <glob>       Also skip matching files from a folder (repeatable)
+
+Exits non-zero when the package has errors.
+`,
+    run: runValidateCommand,
+  },
+  upload: {
+    summary: 'Create or update a workshop item',
+    usage: `  electron . --cli upload --workshop-id <id> --zip <path> --change-note "..."
+  electron . --cli upload --workshop-id <id> --dir <build-folder> --change-note "..."
+  electron . --cli upload --project <workshop.json> --change-note "..."
+
+Options:
+  --project <path>       workshop.json (or its folder) with defaults for the options below
+  --workshop-id <id>     Existing workshop item ID to update
+  --zip <path>           Mod zip file to upload
+  --dir <path>           Mod build folder to package and upload (instead of --zip)
+  --include <glob>       Only package matching files (repeatable, default: everything)
+  --exclude <glob>       Also skip matching files (repeatable; *.map, node_modules,
+                         .git, .DS_Store and Thumbs.db are always skipped)
+  --change-note <text>   Change notes for the workshop update
+  --change-note-from <changelog|git>
+                         Generate the change notes instead: the CHANGELOG.md section
+                         for the mod's version, or the git commits since the item's
+                         last upload (or the latest tag)
+  --title <text>         Optional title override
+  --description <text>   Optional description override
+  --description-file <path>
+                         Description override read from a file; Markdown (.md),
+                         such as the mod's README, is converted to BBCode
+  --localization-dir <folder>
+                         Titles and descriptions in other languages: <language>.json
+                         with "title"/"description", or <language>.md for just the
+                         description (language as a Steam code or locale: schinese,
+                         zh-CN, ru). Each language is sent as its own update
+  --tags <csv>           Optional comma-separated tag override; tags outside
+                         config.tags (after aliases) fail the upload
+  --allow-unknown-tags   Publish tags outside config.tags as written, with a warning
+  --visibility <value>   public | friends | private | unlisted (new items default to public)
+  --preview <path>       Optional preview image override
+  --screenshot <path>    Extra screenshot (repeatable)
+  --video <id or link>   Extra YouTube video (repeatable)
+                         Screenshots and videos replace the item's existing extra
+                         previews, in the order given
+  --clear-previews       Remove all extra screenshots and videos
+  --allow-create         Create a new workshop item if no workshop ID is provided
+  --allow-same-version   Publish an update even if the mod's version is not higher
+                         than the one last uploaded from this machine
+  --validate-only        Same as the validate command for --zip or --dir
+  --dry-run              Print the resolved upload plan without publishing anything
+  --diff                 Print what would change on the live item, then exit
+  --open-workshop-page   Open the updated workshop page in Steam overlay
+  --json                 Print progress events as JSON lines, then the JSON result
+
+Exits with ${EXIT_NEEDS_AGREEMENT} when the upload succeeded but Steam reports that the Workshop
+legal agreement has not been accepted (the item stays hidden until it is).
+`,
+    run: runUploadCommand,
+  },
+  batch: {
+    summary: 'Publish several mods in one run from a batch manifest',
+    usage: `  electron . --cli batch <batch.json> [--allow-create] [--allow-same-version]
+                                      [--allow-unknown-tags] [--change-note "..."] [--json]
+
+The manifest lists jobs as workshop.json paths or objects; paths are relative
+to the manifest:
+
+  {
+    "changeNotes": "Suite release 2.0",
+    "jobs": [
+      "core",
+      { "project": "items/workshop.json", "changeNotes": "New items" },
+      { "zip": "dist/extra.zip", "workshopId": "3400000002", "title": "Extra" }
+    ]
+  }
+
+Object fields: project, label, workshopId, title, description, tags, visibility,
+preview, zip, dir, changeNotes. Fields override the project's values.
+
+Options:
+  --allow-create         Allow jobs without a workshop ID to create new items
+  --allow-same-version   Don't fail jobs whose mod version is not higher than the
+                         one last uploaded to the item
+  --allow-unknown-tags   Publish tags outside config.tags as written instead of
+                         refusing the batch
+  --change-note <text>   Change notes for jobs that don't set their own
+  --json                 Print progress events as JSON lines, then the JSON result
+
+Jobs run one at a time; brief Steam or network failures are retried. A failed
+job does not stop the others. Exits non-zero if any job failed, or with ${EXIT_NEEDS_AGREEMENT} when
+all succeeded but the Workshop legal agreement has not been accepted.
+`,
+    run: runBatchCommand,
+  },
+  history: {
+    summary: 'Show recorded uploads, newest first',
+    usage: '  electron . --cli history [--workshop-id <id>] [--json]\n',
+    run: runHistoryCommand,
+  },
+  export: {
+    summary: 'Export your workshop items and stats as CSV or JSON',
+    usage: `  electron . --cli export [--format csv|json] [--history] [--output <file>] [--json]
+
+Options:
+  --format <format>      csv (default) or json
+  --history              Include the stats snapshots recorded by the app; in CSV
+                         each snapshot gets its own row
+  --output <file>        Write to a file instead of stdout
+  --json                 With --output, print the JSON result instead of a summary
+`,
+    run: runExportCommand,
+  },
+};
+
+function isCommandName(value: string | undefined): boolean {
+  return (
+    value !== undefined && Object.prototype.hasOwnProperty.call(COMMANDS, value)
+  );
+}
+
+/**
+ * Split argv into the command name and its arguments. `--cli-upload`
+ * predates subcommands and runs `upload` unless a command name follows it.
+ */
+function getCliCommand(argv: string[]): {
+  name: string | null;
+  args: string[];
+} {
+  const legacyIndex = argv.indexOf('--cli-upload');
+  const cliIndex = legacyIndex >= 0 ? legacyIndex : argv.indexOf('--cli');
+  const args = applyGlobalOptions(argv.slice(cliIndex + 1));
+
+  if (isCommandName(args[0])) {
+    return { name: args[0] as string, args: args.slice(1) };
+  }
+  if (legacyIndex >= 0) {
+    return { name: 'upload', args };
+  }
+  if (args[0] && !args[0].startsWith('--')) {
+    throw new Error(`Unknown command: ${args[0]}`);
+  }
+  return { name: null, args };
+}
+
+export async function runCli(argv: string[] = process.argv): Promise<number> {
+  // Keep stdout for the JSON result; Steam and service logs go to stderr
+  const json = argv.includes('--json');
+  const restoreLogs = json ? redirectLogsToStderr() : null;
+  let commandName: string | null = null;
+
+  try {
+    const command = getCliCommand(argv);
+    commandName = command.name;
+    if (!command.name) {
       printUsage();
+      return command.args.includes('--help') ? 0 : 1;
+    }
+
+    return await COMMANDS[command.name].run(command.args);
+  } catch (error) {
+    const normalizedError = normalizeWorkshopError(error);
+    if (json) {
+      printJson({
+        success: false,
+        ...toJsonError(toWorkshopErrorInfo(normalizedError)),
+      });
+    } else {
+      console.error(
+        `Workshop ${commandName ?? 'command'} failed: ${normalizedError.message}`,
+      );
+      if (normalizedError.remedy) {
+        console.error(`Hint: ${normalizedError.remedy}`);
+      }
+      // Usage only helps when the command line itself may be wrong
+      if (
+        normalizedError.code === 'invalid-input' ||
+        normalizedError.code === 'unknown'
+      ) {
+        console.error(
+          `Run with ${commandName ? `--cli ${commandName} ` : '--cli '}--help for usage.`,
+        );
+      }
     }
     return 1;
+  } finally {
+    restoreLogs?.();
   }
 }
@@ -10,6 +10,152 @@ export const config = {
     steamInitMaxRetries: 5,
     steamInitRetryDelay: 500,
     workshopItemsLoad: 5000,
+    uploadProgressInterval: 250,
+    steamCallResult: 120000, // Wait for a Steam API call made through steam-ugc.ts
+    steamCallResultPoll: 50,
+  },
+
+  // Published workshop items listing
+  workshopItems: {
+    cacheTtl: 5 * 60 * 1000, // Serve the last full listing for 5 minutes
+    maxPages: 200, // Safety stop (Steam returns 50 items per page)
+  },
+
+  // Per-mod project manifest (see project-manifest.ts)
+  project: {
+    fileName: 'workshop.json',
+  },
+
+  // Local upload history (see upload-history.ts)
+  history: {
+    fileName: 'upload-history.jsonl', // In the app's userData directory
+  },
+
+  // Subscriber/favorite/view history per item (see stats-history.ts)
+  statsHistory: {
+    fileName: 'item-stats.jsonl', // In the app's userData directory
+  },
+
+  // The game's Workshop tags, one per area of its ModAPI (see TAG_CALLS in
+  // mod-parser.ts). Uploads map aliases and case onto them and fail on any
+  // other tag unless allowUnknownTags is set. Leave allowed empty to accept
+  // any tag.
+  tags: {
+    allowed: [
+      'Items',
+      'Crafting',
+      'Characters',
+      'Character Creation',
+      'Locations',
+      'Exploration',
+      'Combat',
+      'Techniques',
+      'Cultivation',
+      'Events',
+      'Quests',
+      'Guilds',
+      'Relationships',
+      'Housing',
+      'Farming',
+      'Cosmetics',
+      'Audio',
+      'UI',
+      'Translation',
+    ] as string[],
+    // Other spelling -> allowed tag; matched case-insensitively
+    aliases: {
+      'Alternative Start': 'Character Creation',
+      'Alternative Starts': 'Character Creation',
+      Backgrounds: 'Character Creation',
+      Item: 'Items',
+      Equipment: 'Items',
+      Recipes: 'Crafting',
+      Character: 'Characters',
+      NPCs: 'Characters',
+      Location: 'Locations',
+      Enemies: 'Combat',
+      Technique: 'Techniques',
+      Breakthroughs: 'Cultivation',
+      Event: 'Events',
+      Quest: 'Quests',
+      Missions: 'Quests',
+      Guild: 'Guilds',
+      Romance: 'Relationships',
+      'Dual Cultivation': 'Relationships',
+      Sprites: 'Cosmetics',
+      Music: 'Audio',
+      Sound: 'Audio',
+      SFX: 'Audio',
+      Interface: 'UI',
+      Translations: 'Translation',
+      Localization: 'Translation',
+    } as Record<string, string>,
+  },
+
+  // Generated change notes (see change-notes.ts)
+  changeNotes: {
+    maxCommits: 50, // Most commits listed from git history
+    gitTimeout: 10000,
+  },
+
+  // Retries of transient Workshop failures (see workshop-errors.ts)
+  retry: {
+    maxAttempts: 4, // Per call, counting the first try
+    baseDelay: 1000, // Doubled after each failed attempt
+    maxDelay: 16000,
+  },
+
+  // Batch publishing (see upload-queue.ts)
+  uploadQueue: {
+    maxAttempts: 3, // Per job, counting the first try
+    retryDelay: 5000, // Multiplied by the attempt number
+  },
+
+  // Mod folder packaging (see mod-packager.ts)
+  packaging: {
+    outputDirName: 'mod-uploader-packages', // Under the OS temp directory
+    defaultExclude: [
+      '**/*.map',
+      '**/node_modules/**',
+      '**/.git/**',
+      '**/.DS_Store',
+      '**/Thumbs.db',
+    ],
+  },
+
+  // Pre-upload mod package checks (see mod-validator.ts)
+  validation: {
+    maxUncompressedSize: 500 * 1024 * 1024, // Total of all entries
+    maxCompressionRatio: 100, // Per entry, uncompressed / compressed
+    minRatioCheckSize: 1024 * 1024, // Small, highly compressible files are fine
+    disallowedExtensions: [
+      '.exe',
+      '.dll',
+      '.so',
+      '.dylib',
+      '.bat',
+      '.cmd',
+      '.com',
+      '.msi',
+      '.scr',
+      '.ps1',
+      '.vbs',
+      '.sh',
+    ],
+  },
+
+  // Workshop backend selection (see workshop-backend.ts)
+  backend: {
+    envVar: 'WORKSHOP_BACKEND', // steam | fake
+    fakeDirectoryEnvVar: 'WORKSHOP_FAKE_DIR', // Defaults to <userData>/fake-workshop
+    fakeDirectoryName: 'fake-workshop',
+    // Set to 1 to have the fake report the legal agreement as not accepted
+    fakeAgreementEnvVar: 'WORKSHOP_FAKE_NEEDS_AGREEMENT',
+    fakePlayer: {
+      steamId64: '76561197960265729',
+      accountId: 1,
+      name: 'Offline Modder',
+    },
   },
 
   // Window settings
@@ -21,6 +167,13 @@ export const config = {
 
   // Steam Workshop enums (from steamworks.js)
   steam: {
+    // Items stay hidden until the author accepts this agreement
+    workshopAgreementUrl:
+      'https://steamcommunity.com/sharedfiles/workshoplegalagreement',
+    // Steam's limits, in characters
+    maxTitleLength: 128,
+    maxDescriptionLength: 8000,
+
     UserListType: {
       Published: 0,
       VotedOn: 1,
@@ -65,6 +218,21 @@ export const config = {
       Private: 2,
       Unlisted: 3,
     } as const,
+
+    UpdateStatus: {
+      Invalid: 0,
+      PreparingConfig: 1,
+      PreparingContent: 2,
+      UploadingContent: 3,
+      UploadingPreviewFile: 4,
+      CommittingChanges: 5,
+    } as const,
+
+    // EItemPreviewType (isteamugc.h)
+    ItemPreviewType: {
+      Image: 0,
+      YouTubeVideo: 1,
+    } as const,
   },
 } as const;
 
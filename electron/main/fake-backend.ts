@@ -0,0 +1,276 @@
+// File-backed fake Workshop backend for local development and tests.
+// Each item is stored as <directory>/<publishedFileId>.json; nothing is
+// uploaded anywhere and no Steam client is required.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  AdditionalPreview,
+  WorkshopBackendCapabilities,
+  WorkshopLocalizations,
+  WorkshopUpdateDetails,
+} from '../../src/types';
+import { config } from './config';
+import type { SteamWorkshopItemRaw } from './steam-types';
+import type {
+  WorkshopBackend,
+  WorkshopUpdateProgress,
+} from './workshop-backend';
+
+const ITEM_FILE_PATTERN = /^(\d+)\.json$/;
+
+// Steam returns at most this many items per query page
+const PAGE_SIZE = 50;
+
+export const FAKE_BACKEND_CAPABILITIES: WorkshopBackendCapabilities = {
+  name: 'fake',
+  supportsAdditionalPreviews: true,
+  supportsDependencies: true,
+  supportsLocalizations: true,
+};
+
+interface FakeWorkshopItemRecord {
+  publishedFileId: string;
+  title: string;
+  description: string;
+  tags: string[];
+  visibility: number;
+  timeCreated: number;
+  timeUpdated: number;
+  contentPath?: string;
+  contentSize?: number;
+  previewPath?: string;
+  additionalPreviews?: AdditionalPreview[];
+  dependencies?: string[];
+  localizations?: WorkshopLocalizations;
+  changeNotes: { timeUpdated: number; changeNote: string }[];
+}
+
+function nowInSeconds(): number {
+  return Math.floor(Date.now() / 1000);
+}
+
+function toRawItem(record: FakeWorkshopItemRecord): SteamWorkshopItemRaw {
+  return {
+    publishedFileId: BigInt(record.publishedFileId),
+    title: record.title,
+    description: record.description,
+    tags: record.tags,
+    visibility: record.visibility,
+    timeCreated: record.timeCreated,
+    timeUpdated: record.timeUpdated,
+    statistics: {
+      numSubscriptions: 0,
+      numFavorites: 0,
+      numUniqueWebsiteViews: 0,
+    },
+    additionalPreviews: record.additionalPreviews ?? [],
+  };
+}
+
+export function createFakeWorkshopBackend(directory: string): WorkshopBackend {
+  const itemPath = (itemId: bigint | string) =>
+    path.join(directory, `${itemId.toString()}.json`);
+
+  async function listItemIds(): Promise<bigint[]> {
+    let entries: string[];
+    try {
+      entries = await fs.promises.readdir(directory);
+    } catch {
+      return [];
+    }
+    return entries
+      .map((entry) => ITEM_FILE_PATTERN.exec(entry)?.[1])
+      .filter((id): id is string => id !== undefined)
+      .map((id) => BigInt(id));
+  }
+
+  async function readItem(
+    itemId: bigint,
+  ): Promise<FakeWorkshopItemRecord | null> {
+    try {
+      const data = await fs.promises.readFile(itemPath(itemId), 'utf8');
+      return JSON.parse(data) as FakeWorkshopItemRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  async function requireItem(itemId: bigint): Promise<FakeWorkshopItemRecord> {
+    const record = await readItem(itemId);
+    if (!record) {
+      throw new Error(`Workshop item ${itemId} was not found`);
+    }
+    return record;
+  }
+
+  async function writeItem(record: FakeWorkshopItemRecord): Promise<void> {
+    await fs.promises.mkdir(directory, { recursive: true });
+    await fs.promises.writeFile(
+      itemPath(record.publishedFileId),
+      `${JSON.stringify(record, null, 2)}\n`,
+    );
+  }
+
+  const needsToAcceptAgreement =
+    process.env[config.backend.fakeAgreementEnvVar] === '1';
+
+  return {
+    ...FAKE_BACKEND_CAPABILITIES,
+
+    getLocalPlayer() {
+      return { ...config.backend.fakePlayer };
+    },
+
+    async createItem() {
+      // Sequential IDs keep test runs deterministic
+      const ids = await listItemIds();
+      const nextId = ids.reduce((max, id) => (id > max ? id : max), 0n) + 1n;
+      const now = nowInSeconds();
+      await writeItem({
+        publishedFileId: nextId.toString(),
+        title: '',
+        description: '',
+        tags: [],
+        visibility: config.steam.UgcItemVisibility.Private,
+        timeCreated: now,
+        timeUpdated: now,
+        changeNotes: [],
+      });
+      console.log(`[fake backend] Created item ${nextId} in ${directory}`);
+      return { itemId: nextId, needsToAcceptAgreement };
+    },
+
+    async updateItem(
+      itemId: bigint,
+      updateDetails: WorkshopUpdateDetails,
+      onProgress?: (progress: WorkshopUpdateProgress) => void,
+    ) {
+      const record = await requireItem(itemId);
+
+      onProgress?.({ stage: 'preparing-config' });
+      if (updateDetails.title !== undefined) {
+        record.title = updateDetails.title;
+      }
+      if (updateDetails.description !== undefined) {
+        record.description = updateDetails.description;
+      }
+      if (updateDetails.tags !== undefined) {
+        record.tags = [...updateDetails.tags];
+      }
+      if (updateDetails.visibility !== undefined) {
+        record.visibility = updateDetails.visibility;
+      }
+      // Like Steam, each language's update leaves the other languages alone
+      for (const [language, text] of Object.entries(
+        updateDetails.localizations ?? {},
+      )) {
+        record.localizations = {
+          ...record.localizations,
+          [language]: { ...record.localizations?.[language], ...text },
+        };
+      }
+
+      if (updateDetails.contentPath) {
+        onProgress?.({ stage: 'preparing-content' });
+        const stats = await fs.promises.stat(updateDetails.contentPath);
+        onProgress?.({
+          stage: 'uploading-content',
+          bytesProcessed: stats.size,
+          bytesTotal: stats.size,
+        });
+        record.contentPath = updateDetails.contentPath;
+        record.contentSize = stats.size;
+      }
+
+      if (updateDetails.previewPath) {
+        onProgress?.({ stage: 'uploading-preview' });
+        record.previewPath = updateDetails.previewPath;
+      }
+
+      if (updateDetails.additionalPreviews) {
+        onProgress?.({ stage: 'uploading-preview' });
+        record.additionalPreviews = updateDetails.additionalPreviews.map(
+          (preview) => ({ ...preview }),
+        );
+      }
+
+      onProgress?.({ stage: 'committing' });
+      record.timeUpdated = nowInSeconds();
+      if (updateDetails.changeNote) {
+        record.changeNotes.push({
+          timeUpdated: record.timeUpdated,
+          changeNote: updateDetails.changeNote,
+        });
+      }
+      await writeItem(record);
+      console.log(`[fake backend] Updated item ${itemId}`);
+      return { needsToAcceptAgreement };
+    },
+
+    async deleteItem(itemId) {
+      try {
+        await fs.promises.unlink(itemPath(itemId));
+      } catch {
+        throw new Error(`Workshop item ${itemId} was not found`);
+      }
+    },
+
+    async getDependencies(itemId) {
+      const record = await requireItem(itemId);
+      return (record.dependencies ?? []).map((id) => BigInt(id));
+    },
+
+    async addDependency(itemId, dependencyId) {
+      const record = await requireItem(itemId);
+      const dependencies = new Set(record.dependencies);
+      dependencies.add(dependencyId.toString());
+      record.dependencies = [...dependencies];
+      await writeItem(record);
+    },
+
+    async removeDependency(itemId, dependencyId) {
+      const record = await requireItem(itemId);
+      record.dependencies = (record.dependencies ?? []).filter(
+        (id) => id !== dependencyId.toString(),
+      );
+      await writeItem(record);
+    },
+
+    async getUserItems(page) {
+      const records: FakeWorkshopItemRecord[] = [];
+      for (const id of await listItemIds()) {
+        const record = await readItem(id);
+        if (record) {
+          records.push(record);
+        }
+      }
+      // Match Steam's CreationOrderDesc, newest IDs first on ties
+      records.sort(
+        (a, b) =>
+          b.timeCreated - a.timeCreated ||
+          Number(BigInt(b.publishedFileId) - BigInt(a.publishedFileId)),
+      );
+
+      const pageItems = records
+        .slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+        .map(toRawItem);
+      return {
+        items: pageItems,
+        totalResults: records.length,
+        numReturned: pageItems.length,
+      };
+    },
+
+    async getItem(itemId) {
+      const record = await readItem(itemId);
+      return record ? toRawItem(record) : null;
+    },
+
+    openWorkshopPage() {
+      throw new Error(
+        'The Steam overlay is not available with the fake backend',
+      );
+    },
+  };
+}
@@ -0,0 +1,50 @@
+// Module for reading a mod's local git repository
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { config } from './config';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Run git in a directory and return its trimmed output
+ */
+export async function runGit(
+  directory: string,
+  args: string[],
+): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: directory,
+    timeout: config.changeNotes.gitTimeout,
+    windowsHide: true,
+  });
+  return stdout.trim();
+}
+
+/**
+ * Whether a commit is in the history of HEAD; false after a rebase or
+ * force-push, or for a commit recorded from another repository
+ */
+export async function isAncestorOfHead(
+  directory: string,
+  commit: string,
+): Promise<boolean> {
+  try {
+    await runGit(directory, ['merge-base', '--is-ancestor', commit, 'HEAD']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The commit checked out in a directory; null outside a repository or
+ * when git is not installed
+ */
+export async function getGitHead(directory: string): Promise<string | null> {
+  try {
+    return await runGit(directory, ['rev-parse', 'HEAD']);
+  } catch {
+    return null;
+  }
+}
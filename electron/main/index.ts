@@ -6,7 +6,8 @@ import { config } from './config';
 import { initializeSteam } from './steam';
 import { registerIpcHandlers } from './ipc-handlers';
 import { initAutoUpdater } from './updater';
-import { isCliUploadMode, runCliUpload } from './cli';
+import { isCliMode, runCli } from './cli';
+import { getWorkshopBackendName } from './workshop-backend';
 
 let mainWindow: BrowserWindow | null = null;
 
@@ -48,8 +49,8 @@ function createWindow(): void {
 
 // Application lifecycle
 app.whenReady().then(async () => {
-  if (isCliUploadMode(process.argv)) {
-    const exitCode = await runCliUpload(process.argv);
+  if (isCliMode(process.argv)) {
+    const exitCode = await runCli(process.argv);
     app.exit(exitCode);
     return;
   }
@@ -65,6 +66,12 @@ app.whenReady().then(async () => {
     initAutoUpdater(mainWindow);
   }
 
+  // The fake backend works offline; don't start Steam for it
+  if (getWorkshopBackendName() === 'fake') {
+    console.log('Using the fake workshop backend - Steam will not be initialized');
+    return;
+  }
+
   // Initialize Steam after window is created
   const steamDelay = config.timeouts.steamInitialization;
   setTimeout(async () => {
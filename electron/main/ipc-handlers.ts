@@ -10,40 +10,78 @@ import {
 import * as fs from 'fs';
 import * as path from 'path';
 import {
+  CatalogueExportOptions,
+  ChangeNoteDraft,
+  ChangeNoteRequest,
+  ItemStatsSnapshot,
+  ModPackageOptions,
+  ModPackageResult,
   ModUploadData,
+  ModValidationReport,
+  ResolvedDependency,
+  SteamStatus,
+  TagVocabulary,
+  UploadHistoryEntry,
+  UploadJobInput,
+  UploadQueueState,
+  UploadRequestOptions,
+  VersionBumpCheck,
+  WorkshopBackendCapabilities,
   WorkshopItem,
+  WorkshopItemsPage,
+  WorkshopItemsRetry,
+  WorkshopItemsQueryOptions,
   WorkshopItemsResult,
+  WorkshopProject,
+  WorkshopUploadResult,
   ImageCompressionResult,
 } from '../../src/types';
 import { config } from './config';
 import {
-  getSteamClient,
-  initializeSteam,
-  isSteamInitialized,
   openSteamWorkshopPage,
+  openWorkshopAgreementPage,
   getWorkshopUrl,
 } from './steam';
-import { ugcVisibilityToString } from './steam-types';
+import type { WorkshopBackend } from './workshop-backend';
 import {
-  ensureSteamClientReady,
-  isSteamAuthError,
-  normalizeWorkshopError,
+  ensureWorkshopBackendReady,
+  getWorkshopBackendCapabilities,
   parseWorkshopId,
+  queryPublishedWorkshopItems,
+  resolveModDependencies,
   uploadWorkshopItem,
 } from './workshop-service';
 import { extractModMetadata } from './mod-parser';
+import { composeChangeNotes, composeProjectChangeNotes } from './change-notes';
+import { packageModDirectory } from './mod-packager';
+import { validateModPackage } from './mod-validator';
+import {
+  loadWorkshopProject,
+  projectToUploadData,
+  saveProjectWorkshopId,
+} from './project-manifest';
+import { readUploadHistory } from './upload-history';
+import { checkVersionBump } from './version-guard';
+import { readItemStatsHistory, recordItemStats } from './stats-history';
+import { writeCatalogueExport } from './catalogue-export';
+import { createUploadQueue } from './upload-queue';
+import { formatWorkshopError, normalizeWorkshopError } from './workshop-errors';
 import { compressPreviewImage, getImageSizeInfo } from './image-utils';
 
 // Whitelist of allowed file paths for reading (security)
 const allowedFilePaths = new Set<string>();
 
-type WorkshopQueryResult = {
-  items?: Array<unknown | null | undefined>;
-};
+// Last complete published-items listing, served until it expires
+let workshopItemsCache: {
+  steamId: string;
+  items: WorkshopItem[];
+  totalResults: number;
+  fetchedAt: number;
+} | null = null;
 
-type WorkshopApiCompatibility = {
-  getUserItems?: (...args: unknown[]) => Promise<unknown>;
-};
+// In-flight published-items query, aborted when superseded or cancelled
+let activeItemsQuery: { id: number; controller: AbortController } | null = null;
+let nextItemsQueryId = 1;
 
 /**
  * Register a file path as allowed for reading
@@ -54,6 +92,17 @@ function allowFilePath(filePath: string): void {
   }
 }
 
+/**
+ * Allow reading an item's screenshots that are local files (fake backend)
+ */
+function allowPreviewPaths(item: WorkshopItem): void {
+  for (const preview of item.additionalPreviews ?? []) {
+    if (preview.type === 'image' && preview.path) {
+      allowFilePath(preview.path);
+    }
+  }
+}
+
 /**
  * Check if a file path is allowed for reading
  */
@@ -67,80 +116,27 @@ function isFilePathAllowed(filePath: string): boolean {
   return allowedFilePaths.has(resolvedPath);
 }
 
-function getItemsFromQueryResult(result: unknown): Array<unknown | null | undefined> {
-  if (
-    result &&
-    typeof result === 'object' &&
-    Array.isArray((result as WorkshopQueryResult).items)
-  ) {
-    return (result as WorkshopQueryResult).items || [];
-  }
-  return [];
-}
-
-async function queryWorkshopItemsWithCompatibility(
-  steamClient: NonNullable<ReturnType<typeof getSteamClient>>,
-): Promise<Array<unknown | null | undefined>> {
-  const userSteamId = steamClient.localplayer.getSteamId();
-  const { UserListType, UGCType, UserListOrder } = config.steam;
-  const workshopApi = steamClient.workshop as unknown as WorkshopApiCompatibility;
-  let lastError: unknown = null;
-
-  if (typeof workshopApi.getUserItems === 'function') {
-    // Query config to request full descriptions (not truncated)
-    const queryConfig = { includeLongDescription: true };
-
-    try {
-      const result = await workshopApi.getUserItems(
-        1, // page
-        userSteamId.accountId,
-        UserListType.Published,
-        UGCType.Items,
-        UserListOrder.CreationOrderDesc,
-        { creator: config.appId, consumer: config.appId },
-        queryConfig,
-      );
-      return getItemsFromQueryResult(result);
-    } catch (error) {
-      lastError = error;
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      console.warn('Modern getUserItems signature failed:', errorMessage);
-    }
-
-    try {
-      // Legacy steamworks.js versions expected creatorAppId and consumerAppId as separate args.
-      const result = await workshopApi.getUserItems(
-        1, // page
-        userSteamId.accountId,
-        UserListType.Published,
-        UGCType.Items,
-        UserListOrder.CreationOrderDesc,
-        config.appId,
-        config.appId,
-        queryConfig,
-      );
-      return getItemsFromQueryResult(result);
-    } catch (error) {
-      lastError = error;
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      console.warn('Legacy getUserItems signature failed:', errorMessage);
-    }
-  }
-
-  if (lastError) {
-    throw lastError;
-  }
-  throw new Error('No compatible Steam Workshop query method available');
-}
-
 /**
  * Register all IPC handlers
  */
 export function registerIpcHandlers(
   getMainWindow: () => BrowserWindow | null,
 ): void {
+  const uploadQueue = createUploadQueue({
+    getBackend: () => ensureWorkshopBackendReady(getMainWindow()),
+    onChange: (state) => {
+      const mainWindow = getMainWindow();
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send('upload-queue-changed', state);
+      }
+    },
+    onJobFinished: (job) => {
+      if (job.status === 'succeeded') {
+        workshopItemsCache = null;
+      }
+    },
+  });
+
   // Open external URL
   ipcMain.handle(
     'open-url',
@@ -169,6 +165,18 @@ export function registerIpcHandlers(
     },
   );
 
+  // Open the Steam Workshop legal agreement
+  ipcMain.handle('open-workshop-agreement', async (): Promise<void> => {
+    console.log('Opening Steam Workshop legal agreement');
+
+    try {
+      await openWorkshopAgreementPage();
+    } catch {
+      // Fallback to browser
+      await shell.openExternal(config.steam.workshopAgreementUrl);
+    }
+  });
+
   // Select ZIP file
   ipcMain.handle('select-zip', async (): Promise<string | null> => {
     console.log('select-zip handler called');
@@ -205,6 +213,138 @@ export function registerIpcHandlers(
     }
   });
 
+  // Select mod build folder
+  ipcMain.handle('select-mod-folder', async (): Promise<string | null> => {
+    console.log('select-mod-folder handler called');
+    const mainWindow = getMainWindow();
+
+    if (!mainWindow) {
+      console.error('No main window available');
+      return null;
+    }
+
+    try {
+      mainWindow.focus();
+
+      const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ['openDirectory'],
+      });
+
+      if (!result.canceled && result.filePaths.length > 0) {
+        const selectedPath = result.filePaths[0];
+        console.log('Selected folder:', selectedPath);
+        allowFilePath(selectedPath);
+        return selectedPath;
+      }
+
+      console.log('No folder selected');
+      return null;
+    } catch (error) {
+      console.error('Error showing folder dialog:', error);
+      throw error;
+    }
+  });
+
+  // Package a selected mod folder into a deterministic ZIP
+  ipcMain.handle(
+    'package-mod-folder',
+    async (
+      _event: IpcMainInvokeEvent,
+      directory: string,
+      options: ModPackageOptions = {},
+    ): Promise<ModPackageResult> => {
+      if (!isFilePathAllowed(directory)) {
+        throw new Error(
+          `Folder was not selected in the uploader: ${directory}`,
+        );
+      }
+      const result = await packageModDirectory(directory, options);
+      allowFilePath(result.zipPath);
+      return result;
+    },
+  );
+
+  // Open a workshop.json project and allow reading the files it refers to
+  ipcMain.handle('open-project', async (): Promise<WorkshopProject | null> => {
+    console.log('open-project handler called');
+    const mainWindow = getMainWindow();
+
+    if (!mainWindow) {
+      console.error('No main window available');
+      return null;
+    }
+
+    mainWindow.focus();
+    const result = await dialog.showOpenDialog(mainWindow, {
+      properties: ['openFile'],
+      filters: [
+        { name: 'Workshop Project', extensions: ['json'] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      console.log('No project selected');
+      return null;
+    }
+
+    const project = await loadWorkshopProject(result.filePaths[0]);
+    for (const filePath of [
+      project.projectPath,
+      project.previewPath,
+      project.contentPath,
+    ]) {
+      if (filePath) {
+        allowFilePath(filePath);
+      }
+    }
+    console.log('Opened project:', project.projectPath);
+    return project;
+  });
+
+  // Draft change notes from the mod's CHANGELOG or git history
+  ipcMain.handle(
+    'compose-change-notes',
+    async (
+      _event: IpcMainInvokeEvent,
+      request: ChangeNoteRequest,
+    ): Promise<ChangeNoteDraft> => {
+      for (const filePath of [
+        request.zipPath,
+        request.modDirectory,
+        request.projectPath,
+      ]) {
+        if (filePath && !isFilePathAllowed(filePath)) {
+          throw new Error(`Path was not selected in the uploader: ${filePath}`);
+        }
+      }
+      return composeChangeNotes(request);
+    },
+  );
+
+  // Tags the game's Workshop accepts, for the tag picker
+  ipcMain.handle(
+    'get-tag-vocabulary',
+    async (): Promise<TagVocabulary> => config.tags,
+  );
+
+  // What the selected backend can publish, so the editor hides the rest
+  ipcMain.handle(
+    'get-workshop-capabilities',
+    async (): Promise<WorkshopBackendCapabilities> =>
+      getWorkshopBackendCapabilities(),
+  );
+
+  // Compare a package's version with the item's last published one
+  ipcMain.handle(
+    'check-version-bump',
+    async (
+      _event: IpcMainInvokeEvent,
+      workshopId: string,
+      version?: string,
+    ): Promise<VersionBumpCheck> => checkVersionBump(workshopId, version),
+  );
+
   // Select preview image
   ipcMain.handle('select-preview-image', async (): Promise<string | null> => {
     console.log('select-preview-image handler called');
@@ -250,6 +390,30 @@ export function registerIpcHandlers(
     },
   );
 
+  // Match a package's declared dependencies to Workshop items
+  ipcMain.handle(
+    'resolve-dependencies',
+    async (
+      _event: IpcMainInvokeEvent,
+      references: string[],
+    ): Promise<ResolvedDependency[]> => {
+      const backend = await ensureWorkshopBackendReady(getMainWindow());
+      return resolveModDependencies(backend, references);
+    },
+  );
+
+  // Check a mod ZIP before upload
+  ipcMain.handle(
+    'validate-mod-package',
+    async (
+      _event: IpcMainInvokeEvent,
+      zipPath: string,
+    ): Promise<ModValidationReport> => {
+      console.log('validate-mod-package handler called with:', zipPath);
+      return validateModPackage(zipPath);
+    },
+  );
+
   // Read file as base64 for preview
   ipcMain.handle(
     'read-file-base64',
@@ -304,91 +468,326 @@ export function registerIpcHandlers(
   ipcMain.handle(
     'upload-to-workshop',
     async (
-      _event: IpcMainInvokeEvent,
+      event: IpcMainInvokeEvent,
       modData: ModUploadData,
+      options: UploadRequestOptions = {},
     ) => {
-      return uploadWorkshopItem(modData, {
-        mainWindow: getMainWindow(),
-        openWorkshopPage: true,
-      });
+      // A new item's ID is written into workshop.json next to it
+      if (options.projectPath && !isFilePathAllowed(options.projectPath)) {
+        throw new Error(
+          `Project was not opened in the uploader: ${options.projectPath}`,
+        );
+      }
+      let result: WorkshopUploadResult;
+      try {
+        result = await uploadWorkshopItem(modData, {
+          mainWindow: getMainWindow(),
+          openWorkshopPage: !options.dryRun,
+          dryRun: options.dryRun,
+          onItemCreated: options.projectPath
+            ? (publishedFileId) =>
+                saveProjectWorkshopId(
+                  options.projectPath as string,
+                  publishedFileId,
+                )
+            : undefined,
+          onProgress: (progress) => {
+            if (!event.sender.isDestroyed()) {
+              event.sender.send('upload-progress', progress);
+            }
+          },
+        });
+      } catch (error) {
+        // Only the message crosses IPC, so it carries the remedy too
+        throw new Error(formatWorkshopError(normalizeWorkshopError(error)));
+      }
+      if (!result.dryRun) {
+        // Titles, tags or new items changed; refetch the listing next time
+        workshopItemsCache = null;
+      }
+      return result;
     },
   );
 
-  // Get Workshop items
-  ipcMain.handle('get-workshop-items', async (): Promise<WorkshopItemsResult> => {
-    let steamClient: NonNullable<ReturnType<typeof getSteamClient>>;
-    try {
-      steamClient = await ensureSteamClientReady(getMainWindow());
-    } catch (error) {
-      const normalizedError = normalizeWorkshopError(error);
-      return {
-        items: [],
-        status: 'steam_not_connected',
-        message: normalizedError.message,
-      };
-    }
+  // Upload queue: jobs run one after another against one Steam session
+  ipcMain.handle('get-upload-queue', (): UploadQueueState =>
+    uploadQueue.getState(),
+  );
 
-    try {
-      const workshopItems = await queryWorkshopItemsWithCompatibility(steamClient);
-
-      const items: WorkshopItem[] = workshopItems
-        .filter((item: unknown) => item != null)
-        .map((item: unknown) => {
-          const typedItem = item as {
-            publishedFileId: bigint;
-            title: string;
-            description: string;
-            tags?: string[];
-            visibility: number;
-            timeCreated: number;
-            timeUpdated: number;
-            statistics?: {
-              numSubscriptions?: number | bigint;
-              numFavorites?: number | bigint;
-              numUniqueWebsiteViews?: number | bigint;
-            };
-          };
+  ipcMain.handle(
+    'add-to-upload-queue',
+    (_event: IpcMainInvokeEvent, jobs: UploadJobInput[]): UploadQueueState => {
+      for (const { projectPath } of jobs) {
+        if (projectPath && !isFilePathAllowed(projectPath)) {
+          throw new Error(
+            `Project was not opened in the uploader: ${projectPath}`,
+          );
+        }
+      }
+      uploadQueue.enqueue(jobs);
+      return uploadQueue.getState();
+    },
+  );
+
+  // Pick one or more workshop.json files and queue a publish of each
+  ipcMain.handle(
+    'add-projects-to-upload-queue',
+    async (
+      _event: IpcMainInvokeEvent,
+      changeNotes?: string,
+    ): Promise<UploadQueueState> => {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) {
+        console.error('No main window available');
+        return uploadQueue.getState();
+      }
+
+      mainWindow.focus();
+      const result = await dialog.showOpenDialog(mainWindow, {
+        properties: ['openFile', 'multiSelections'],
+        filters: [
+          { name: 'Workshop Project', extensions: ['json'] },
+          { name: 'All Files', extensions: ['*'] },
+        ],
+      });
+      if (result.canceled || result.filePaths.length === 0) {
+        return uploadQueue.getState();
+      }
+
+      // Load every project first so one bad file queues nothing
+      const projects = await Promise.all(
+        result.filePaths.map((filePath) => loadWorkshopProject(filePath)),
+      );
+      const projectChangeNotes = await Promise.all(
+        projects.map((project) =>
+          changeNotes ? undefined : composeProjectChangeNotes(project),
+        ),
+      );
+      uploadQueue.enqueue(
+        projects.map((project, index) => {
+          for (const filePath of [project.previewPath, project.contentPath]) {
+            if (filePath) {
+              allowFilePath(filePath);
+            }
+          }
           return {
-            publishedFileId: typedItem.publishedFileId.toString(),
-            title: typedItem.title,
-            description: typedItem.description,
-            tags: typedItem.tags || [],
-            visibility: ugcVisibilityToString(typedItem.visibility),
-            createdDate: typedItem.timeCreated,
-            updatedDate: typedItem.timeUpdated,
-            subscriptions: Number(
-              typedItem.statistics?.numSubscriptions || 0,
-            ),
-            favorited: Number(typedItem.statistics?.numFavorites || 0),
-            views: Number(typedItem.statistics?.numUniqueWebsiteViews || 0),
+            projectPath: project.projectPath,
+            modData: {
+              ...projectToUploadData(project),
+              title: project.manifest.title ?? '',
+              description: project.description ?? '',
+              changeNotes: changeNotes || projectChangeNotes[index],
+            },
           };
-        });
+        }),
+      );
+      return uploadQueue.getState();
+    },
+  );
 
-      return {
-        items,
-        status: 'success',
-        message:
-          items.length === 0
-            ? 'No workshop items found. Upload your first mod!'
-            : undefined,
-      };
-    } catch (error) {
-      const normalizedError = normalizeWorkshopError(error);
-      console.error('Workshop API error:', normalizedError);
-      if (isSteamAuthError(normalizedError.message)) {
+  ipcMain.handle(
+    'remove-upload-job',
+    (_event: IpcMainInvokeEvent, jobId: string): UploadQueueState => {
+      uploadQueue.remove(jobId);
+      return uploadQueue.getState();
+    },
+  );
+
+  ipcMain.handle('clear-finished-uploads', (): UploadQueueState => {
+    uploadQueue.clearFinished();
+    return uploadQueue.getState();
+  });
+
+  // Resolves once the queue is drained or stopped
+  ipcMain.handle('start-upload-queue', async (): Promise<UploadQueueState> => {
+    await uploadQueue.run();
+    return uploadQueue.getState();
+  });
+
+  // Finish the running job, then leave the rest queued
+  ipcMain.handle('stop-upload-queue', (): UploadQueueState => {
+    uploadQueue.stop();
+    return uploadQueue.getState();
+  });
+
+  // Local upload history, newest first
+  ipcMain.handle(
+    'get-upload-history',
+    async (
+      _event: IpcMainInvokeEvent,
+      workshopId?: string,
+    ): Promise<UploadHistoryEntry[]> => readUploadHistory(workshopId),
+  );
+
+  // Recorded subscriber/favorite/view counts of one item, oldest first
+  ipcMain.handle(
+    'get-item-stats-history',
+    async (
+      _event: IpcMainInvokeEvent,
+      workshopId: string,
+    ): Promise<ItemStatsSnapshot[]> => readItemStatsHistory(workshopId),
+  );
+
+  // Save the listed items (and optionally their stats history) as CSV or JSON
+  ipcMain.handle(
+    'export-workshop-catalogue',
+    async (
+      _event: IpcMainInvokeEvent,
+      items: WorkshopItem[],
+      options: CatalogueExportOptions,
+    ): Promise<string | null> => {
+      const mainWindow = getMainWindow();
+      if (!mainWindow) {
+        console.error('No main window available');
+        return null;
+      }
+
+      const date = new Date().toISOString().slice(0, 10);
+      const result = await dialog.showSaveDialog(mainWindow, {
+        defaultPath: `workshop-items-${date}.${options.format}`,
+        filters:
+          options.format === 'csv'
+            ? [{ name: 'CSV', extensions: ['csv'] }]
+            : [{ name: 'JSON', extensions: ['json'] }],
+      });
+      if (result.canceled || !result.filePath) {
+        return null;
+      }
+
+      await writeCatalogueExport(result.filePath, items, options);
+      console.log(
+        `Exported ${items.length} workshop items to ${result.filePath}`,
+      );
+      return result.filePath;
+    },
+  );
+
+  // Get Workshop items (all pages, streamed to the renderer as they arrive)
+  ipcMain.handle(
+    'get-workshop-items',
+    async (
+      event: IpcMainInvokeEvent,
+      options: WorkshopItemsQueryOptions = {},
+    ): Promise<WorkshopItemsResult> => {
+      let backend: WorkshopBackend;
+      try {
+        backend = await ensureWorkshopBackendReady(getMainWindow());
+      } catch (error) {
         return {
           items: [],
           status: 'steam_not_connected',
-          message: normalizedError.message,
+          message: formatWorkshopError(normalizeWorkshopError(error)),
         };
       }
-      return {
-        items: [],
-        status: 'error',
-        message:
-          'Workshop API is currently unavailable. Upload functionality still works.',
+
+      const steamId = backend.getLocalPlayer().steamId64;
+      if (
+        !options.forceRefresh &&
+        workshopItemsCache?.steamId === steamId &&
+        Date.now() - workshopItemsCache.fetchedAt <
+          config.workshopItems.cacheTtl
+      ) {
+        console.log('Serving cached workshop items');
+        return {
+          items: workshopItemsCache.items,
+          status: 'success',
+          totalResults: workshopItemsCache.totalResults,
+          fromCache: true,
+          fetchedAt: workshopItemsCache.fetchedAt,
+          message:
+            workshopItemsCache.items.length === 0
+              ? 'No workshop items found. Upload your first mod!'
+              : undefined,
+        };
+      }
+
+      activeItemsQuery?.controller.abort();
+      const query = {
+        id: nextItemsQueryId++,
+        controller: new AbortController(),
       };
-    }
+      activeItemsQuery = query;
+
+      try {
+        const { items, totalResults } = await queryPublishedWorkshopItems(
+          backend,
+          {
+            signal: query.controller.signal,
+            onPage: (progress) => {
+              progress.items.forEach(allowPreviewPaths);
+              if (!event.sender.isDestroyed()) {
+                const page: WorkshopItemsPage = {
+                  queryId: query.id,
+                  ...progress,
+                };
+                event.sender.send('workshop-items-page', page);
+              }
+            },
+            onRetry: (progress) => {
+              if (!event.sender.isDestroyed()) {
+                const retry: WorkshopItemsRetry = {
+                  queryId: query.id,
+                  ...progress,
+                };
+                event.sender.send('workshop-items-retrying', retry);
+              }
+            },
+          },
+        );
+
+        const fetchedAt = Date.now();
+        workshopItemsCache = { steamId, items, totalResults, fetchedAt };
+        // Cached listings are not new data points, so only fresh fetches count
+        recordItemStats(items, fetchedAt).catch((error) => {
+          console.warn('Failed to record workshop item stats:', error);
+        });
+
+        return {
+          items,
+          status: 'success',
+          totalResults,
+          fetchedAt,
+          message:
+            items.length === 0
+              ? 'No workshop items found. Upload your first mod!'
+              : undefined,
+        };
+      } catch (error) {
+        if (query.controller.signal.aborted) {
+          console.log('Workshop items query cancelled');
+          return {
+            items: [],
+            status: 'cancelled',
+            message: 'Workshop items query was cancelled',
+          };
+        }
+
+        const normalizedError = normalizeWorkshopError(error);
+        console.error('Workshop API error:', normalizedError);
+        if (normalizedError.category === 'auth') {
+          return {
+            items: [],
+            status: 'steam_not_connected',
+            message: formatWorkshopError(normalizedError),
+          };
+        }
+        return {
+          items: [],
+          status: 'error',
+          message:
+            'Workshop API is currently unavailable. Upload functionality still works.',
+        };
+      } finally {
+        if (activeItemsQuery === query) {
+          activeItemsQuery = null;
+        }
+      }
+    },
+  );
+
+  // Cancel the in-flight Workshop items query, if any
+  ipcMain.handle('cancel-workshop-items-query', (): void => {
+    activeItemsQuery?.controller.abort();
   });
 
   // Delete Workshop item
@@ -398,27 +797,34 @@ export function registerIpcHandlers(
       _event: IpcMainInvokeEvent,
       publishedFileId: string,
     ): Promise<{ success: boolean; error?: string }> => {
-      let steamClient: NonNullable<ReturnType<typeof getSteamClient>>;
+      let backend: WorkshopBackend;
       try {
-        steamClient = await ensureSteamClientReady(getMainWindow());
+        backend = await ensureWorkshopBackendReady(getMainWindow());
       } catch (error) {
-        const normalizedError = normalizeWorkshopError(error);
-        return { success: false, error: normalizedError.message };
+        return {
+          success: false,
+          error: formatWorkshopError(normalizeWorkshopError(error)),
+        };
       }
 
       try {
         console.log('Deleting workshop item:', publishedFileId);
-        await steamClient.workshop.deleteItem(
+        await backend.deleteItem(
           parseWorkshopId(publishedFileId, 'published file ID'),
         );
         console.log('Workshop item deleted successfully');
+        if (workshopItemsCache) {
+          workshopItemsCache = {
+            ...workshopItemsCache,
+            items: workshopItemsCache.items.filter(
+              (item) => item.publishedFileId !== publishedFileId,
+            ),
+            totalResults: Math.max(0, workshopItemsCache.totalResults - 1),
+          };
+        }
         return { success: true };
       } catch (error) {
-        const normalizedError = normalizeWorkshopError(error);
-        const errorMsg =
-          normalizedError instanceof Error
-            ? normalizedError.message
-            : String(normalizedError);
+        const errorMsg = formatWorkshopError(normalizeWorkshopError(error));
         console.error('Failed to delete workshop item:', errorMsg);
         return {
           success: false,
@@ -429,28 +835,15 @@ export function registerIpcHandlers(
   );
 
   // Check Steam connection status
-  ipcMain.handle('get-steam-status', async (): Promise<{
-    connected: boolean;
-    userId?: string;
-    userName?: string;
-  }> => {
-    let steamClient = getSteamClient();
-    if (!steamClient || !isSteamInitialized()) {
-      await initializeSteam(getMainWindow());
-      steamClient = getSteamClient();
-    }
-
-    if (!steamClient || !isSteamInitialized()) {
-      return { connected: false };
-    }
-
+  ipcMain.handle('get-steam-status', async (): Promise<SteamStatus> => {
     try {
-      const steamId = steamClient.localplayer.getSteamId();
-      const userName = steamClient.localplayer.getName();
+      const backend = await ensureWorkshopBackendReady(getMainWindow());
+      const player = backend.getLocalPlayer();
       return {
         connected: true,
-        userId: steamId.steamId64.toString(),
-        userName,
+        userId: player.steamId64,
+        userName: player.name,
+        backend: backend.name,
       };
     } catch {
       return { connected: false };
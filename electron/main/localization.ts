@@ -0,0 +1,86 @@
+// Module for reading per-language titles and descriptions from a folder
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { WorkshopLocalizations } from '../../src/types';
+import {
+  getWorkshopLanguageName,
+  toWorkshopLanguage,
+} from '../../src/utils/workshop-languages';
+import { loadDescriptionFile } from './readme-description';
+
+const DESCRIPTION_FILE_PATTERN = /\.(md|markdown|txt|bbcode)$/i;
+
+function parseLocalizationJson(
+  data: unknown,
+  filePath: string,
+): { title?: string; description?: string } {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${filePath} must contain a JSON object`);
+  }
+  const { title, description } = data as Record<string, unknown>;
+  for (const [key, value] of Object.entries({ title, description })) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error(`"${key}" in ${filePath} must be a string`);
+    }
+  }
+  return {
+    title: title as string | undefined,
+    description: description as string | undefined,
+  };
+}
+
+/**
+ * Read a localization folder. Files are named after the language - a Steam
+ * code such as "schinese" or a locale such as "zh-CN" or "ru":
+ * <language>.json holds {"title", "description"}, and <language>.md (or .txt,
+ * .bbcode) holds just the description, Markdown converted to BBCode.
+ */
+export async function loadLocalizationDir(
+  directory: string,
+): Promise<WorkshopLocalizations> {
+  let entries: string[];
+  try {
+    entries = (await fs.promises.readdir(directory)).sort();
+  } catch {
+    throw new Error(`Localization folder not found: ${directory}`);
+  }
+
+  const localizations: WorkshopLocalizations = {};
+  for (const fileName of entries) {
+    const isJson = /\.json$/i.test(fileName);
+    if (!isJson && !DESCRIPTION_FILE_PATTERN.test(fileName)) {
+      continue;
+    }
+
+    const filePath = path.join(directory, fileName);
+    const languageName = path.parse(fileName).name;
+    const language = toWorkshopLanguage(languageName);
+    if (!language) {
+      throw new Error(`Unknown language "${languageName}": ${filePath}`);
+    }
+
+    const text = { ...localizations[language] };
+    const loaded = isJson
+      ? parseLocalizationJson(
+          JSON.parse(await fs.promises.readFile(filePath, 'utf8')),
+          filePath,
+        )
+      : { description: (await loadDescriptionFile(filePath)).description };
+
+    if (loaded.description !== undefined && text.description !== undefined) {
+      throw new Error(
+        `${getWorkshopLanguageName(language)} has more than one description in ${directory}`,
+      );
+    }
+    if (loaded.title !== undefined) {
+      text.title = loaded.title;
+    }
+    if (loaded.description !== undefined) {
+      text.description = loaded.description;
+    }
+    localizations[language] = text;
+  }
+
+  return localizations;
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateModMetadata, ModuleResolver } from './metadata-evaluator';
+
+const noModules: ModuleResolver = () => undefined;
+
+function metadataOf(source: string, resolveModule = noModules) {
+  return evaluateModMetadata(source, resolveModule)?.metadata;
+}
+
+describe('evaluateModMetadata', () => {
+  it('evaluates a literal object and reports its position', () => {
+    const evaluation = evaluateModMetadata(
+      "export function getMetadata() {\n  return { name: 'my-mod', version: '1.0.0' };\n}",
+      noModules,
+    );
+    expect(evaluation?.metadata).toEqual({ name: 'my-mod', version: '1.0.0' });
+    expect(evaluation).toMatchObject({ line: 2, column: 10 });
+  });
+
+  it('follows constants, spreads and Object.assign', () => {
+    const source = `
+      const base = { author: { name: 'Me' }, tags: ['Items'] };
+      const extra = ['Quests'];
+      export const getMetadata = () => Object.assign({}, {
+        ...base,
+        name: 'my-mod',
+        version: '1.0.0',
+        tags: [...base.tags, ...extra],
+      });
+    `;
+    expect(metadataOf(source)).toEqual({
+      author: { name: 'Me' },
+      tags: ['Items', 'Quests'],
+      name: 'my-mod',
+      version: '1.0.0',
+    });
+  });
+
+  it('resolves imports and require() of package.json', () => {
+    const pkg = { name: 'from-package', version: '2.3.4' };
+    const resolve: ModuleResolver = (specifier) =>
+      specifier === './package.json' ? pkg : undefined;
+
+    expect(
+      metadataOf(
+        `import pkg, { version } from './package.json';
+         export function getMetadata() { return { name: pkg.name, version }; }`,
+        resolve,
+      ),
+    ).toEqual(pkg);
+    expect(
+      metadataOf(
+        `const pkg = require('./package.json');
+         module.exports = { getMetadata() { return { ...pkg }; } };`,
+        resolve,
+      ),
+    ).toEqual(pkg);
+  });
+
+  it('evaluates template literals and computed values', () => {
+    const source = `
+      const major = 1;
+      const key = 'version';
+      const names = { short: 'mod' };
+      function getMetadata() {
+        return {
+          name: \`my-\${names['short']}\`,
+          [key]: major + '.' + (2 + 3) + '.0',
+          description: 'A' + \`B\${!0 ? 'C' : 'D'}\`,
+          gameVersion: names.missing ?? '0.6',
+        };
+      }
+    `;
+    expect(metadataOf(source)).toEqual({
+      name: 'my-mod',
+      version: '1.5.0',
+      description: 'ABC',
+      gameVersion: '0.6',
+    });
+  });
+
+  it('reads webpack bundles through __webpack_require__ and JSON.parse', () => {
+    const source = `
+      (() => {
+        var modules = {
+          12: (module) => { module.exports = JSON.parse('{"name":"bundled","version":"0.1.0"}'); },
+        };
+        const meta = __webpack_require__(12);
+        window.mod = { getMetadata: () => ({ ...meta, tags: ['UI'] }) };
+      })();
+    `;
+    expect(metadataOf(source)).toEqual({
+      name: 'bundled',
+      version: '0.1.0',
+      tags: ['UI'],
+    });
+  });
+
+  it('skips fields that are not static without losing the rest', () => {
+    const source = `
+      export function getMetadata(options) {
+        return { name: 'my-mod', version: options.version, date: Date.now() };
+      }
+    `;
+    expect(metadataOf(source)).toEqual({ name: 'my-mod' });
+  });
+
+  it('returns null when getMetadata has no static return value', () => {
+    expect(
+      metadataOf('export function other() { return {}; }'),
+    ).toBeUndefined();
+    expect(
+      metadataOf('export function getMetadata() { return loadMetadata(); }'),
+    ).toBeUndefined();
+    expect(
+      metadataOf(
+        `import pkg from './missing.json';
+         export const getMetadata = () => pkg;`,
+      ),
+    ).toBeUndefined();
+  });
+
+  it('gives up on circular and very deeply nested expressions', () => {
+    const circular = `
+      const a = b;
+      const b = a;
+      export function getMetadata() { return { name: a, version: '1.0.0' }; }
+    `;
+    expect(metadataOf(circular)).toEqual({ version: '1.0.0' });
+
+    const deep = `export function getMetadata() {
+      return { name: ${"'a' + ".repeat(300)}'a', version: '1.0.0' };
+    }`;
+    expect(metadataOf(deep)).toEqual({ version: '1.0.0' });
+  });
+
+  it('throws a SyntaxError for source that does not parse', () => {
+    expect(() => evaluateModMetadata('function (', noModules)).toThrow(
+      SyntaxError,
+    );
+  });
+});
@@ -0,0 +1,726 @@
+// Static evaluation of the object returned by getMetadata() in mod.js
+
+import * as acorn from 'acorn';
+
+type AnyNode = acorn.AnyNode;
+type FunctionNode =
+  | acorn.FunctionDeclaration
+  | acorn.AnonymousFunctionDeclaration
+  | acorn.FunctionExpression
+  | acorn.ArrowFunctionExpression;
+
+/**
+ * Resolves an import/require specifier (e.g. './package.json') to its value
+ */
+export type ModuleResolver = (specifier: string) => unknown;
+
+export interface MetadataEvaluation {
+  metadata: Record<string, unknown>;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+type Binding =
+  | { kind: 'value'; init: AnyNode; ancestors: AnyNode[]; key?: string }
+  | { kind: 'function'; node: FunctionNode; ancestors: AnyNode[] }
+  | { kind: 'import'; source: string; imported: string };
+
+interface EvaluationContext {
+  program: acorn.Program;
+  resolveModule: ModuleResolver;
+  bundledModules: Map<string, unknown>;
+  depth: number;
+}
+
+const MAX_EVALUATION_DEPTH = 200;
+
+class NotStaticError extends Error {}
+
+/**
+ * Walk every node below `root`. The visitor may return 'skip' to avoid
+ * descending into a node, or 'stop' to end the walk entirely.
+ */
+function walk(
+  root: AnyNode,
+  visit: (node: AnyNode, ancestors: AnyNode[]) => 'skip' | 'stop' | void,
+  initialAncestors: AnyNode[] = [],
+): boolean {
+  const ancestors = [...initialAncestors];
+
+  const visitNode = (node: AnyNode): boolean => {
+    const action = visit(node, ancestors);
+    if (action === 'stop') return true;
+    if (action === 'skip') return false;
+
+    ancestors.push(node);
+    for (const key of Object.keys(node)) {
+      if (key === 'loc' || key === 'range') continue;
+      const child = (node as unknown as Record<string, unknown>)[key];
+      const children = Array.isArray(child) ? child : [child];
+      for (const entry of children) {
+        if (
+          entry &&
+          typeof entry === 'object' &&
+          typeof (entry as { type?: unknown }).type === 'string' &&
+          visitNode(entry as AnyNode)
+        ) {
+          return true;
+        }
+      }
+    }
+    ancestors.pop();
+    return false;
+  };
+
+  return visitNode(root);
+}
+
+function isFunctionNode(
+  node: AnyNode | null | undefined,
+): node is FunctionNode {
+  return (
+    node?.type === 'FunctionDeclaration' ||
+    node?.type === 'FunctionExpression' ||
+    node?.type === 'ArrowFunctionExpression'
+  );
+}
+
+/**
+ * Name of a non-computed property key (identifier or string/number literal)
+ */
+function staticKeyName(key: AnyNode, computed: boolean): string | null {
+  if (key.type === 'Identifier' && !computed) return key.name;
+  if (key.type === 'Literal' && typeof key.value !== 'object') {
+    return String(key.value);
+  }
+  return null;
+}
+
+function parseProgram(source: string): acorn.Program {
+  const options: acorn.Options = {
+    ecmaVersion: 'latest',
+    locations: true,
+    allowHashBang: true,
+    allowReturnOutsideFunction: true,
+    allowAwaitOutsideFunction: true,
+    allowImportExportEverywhere: true,
+  };
+
+  try {
+    return acorn.parse(source, { ...options, sourceType: 'module' });
+  } catch {
+    // Sloppy-mode bundles (e.g. `with`, octal escapes) only parse as scripts
+    return acorn.parse(source, { ...options, sourceType: 'script' });
+  }
+}
+
+/**
+ * Statements that directly declare bindings for a scope-creating node
+ */
+function scopeStatements(node: AnyNode): AnyNode[] {
+  switch (node.type) {
+    case 'Program':
+    case 'BlockStatement':
+    case 'StaticBlock':
+      return node.body;
+    case 'SwitchCase':
+      return node.consequent;
+    default:
+      return [];
+  }
+}
+
+function patternDeclaresName(pattern: AnyNode, name: string): boolean {
+  switch (pattern.type) {
+    case 'Identifier':
+      return pattern.name === name;
+    case 'AssignmentPattern':
+      return patternDeclaresName(pattern.left, name);
+    case 'RestElement':
+      return patternDeclaresName(pattern.argument, name);
+    case 'ArrayPattern':
+      return pattern.elements.some(
+        (element) => element != null && patternDeclaresName(element, name),
+      );
+    case 'ObjectPattern':
+      return pattern.properties.some((property) =>
+        property.type === 'RestElement'
+          ? patternDeclaresName(property.argument, name)
+          : patternDeclaresName(property.value, name),
+      );
+    default:
+      return false;
+  }
+}
+
+function findBindingInStatement(
+  statement: AnyNode,
+  name: string,
+  ancestors: AnyNode[],
+): Binding | null | undefined {
+  const declaration =
+    statement.type === 'ExportNamedDeclaration'
+      ? statement.declaration
+      : statement;
+  if (!declaration) return undefined;
+
+  if (declaration.type === 'VariableDeclaration') {
+    for (const declarator of declaration.declarations) {
+      if (declarator.id.type === 'Identifier' && declarator.id.name === name) {
+        return declarator.init
+          ? { kind: 'value', init: declarator.init, ancestors }
+          : null;
+      }
+      if (declarator.id.type === 'ObjectPattern' && declarator.init) {
+        for (const property of declarator.id.properties) {
+          if (property.type !== 'Property') continue;
+          const target =
+            property.value.type === 'AssignmentPattern'
+              ? property.value.left
+              : property.value;
+          const key = staticKeyName(property.key, property.computed);
+          if (target.type === 'Identifier' && target.name === name && key) {
+            return { kind: 'value', init: declarator.init, ancestors, key };
+          }
+        }
+      }
+      if (patternDeclaresName(declarator.id, name)) return null;
+    }
+  }
+
+  if (
+    declaration.type === 'FunctionDeclaration' &&
+    declaration.id?.name === name
+  ) {
+    return { kind: 'function', node: declaration, ancestors };
+  }
+
+  if (declaration.type === 'ImportDeclaration') {
+    for (const specifier of declaration.specifiers) {
+      if (specifier.local.name !== name) continue;
+      const source = String(declaration.source.value);
+      if (specifier.type === 'ImportDefaultSpecifier') {
+        return { kind: 'import', source, imported: 'default' };
+      }
+      if (specifier.type === 'ImportNamespaceSpecifier') {
+        return { kind: 'import', source, imported: '*' };
+      }
+      const imported = staticKeyName(specifier.imported, false);
+      return imported ? { kind: 'import', source, imported } : null;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolve an identifier by searching the enclosing scopes from the inside out.
+ * Returns null when the name is bound to something we cannot evaluate
+ * (parameters, uninitialized variables, destructured arrays).
+ */
+function findBinding(name: string, ancestors: AnyNode[]): Binding | null {
+  for (let index = ancestors.length - 1; index >= 0; index--) {
+    const scopeNode = ancestors[index];
+
+    if (isFunctionNode(scopeNode)) {
+      if (scopeNode.params.some((param) => patternDeclaresName(param, name))) {
+        return null;
+      }
+      continue;
+    }
+
+    const scopeAncestors = ancestors.slice(0, index + 1);
+    for (const statement of scopeStatements(scopeNode)) {
+      const binding = findBindingInStatement(statement, name, scopeAncestors);
+      if (binding !== undefined) return binding;
+    }
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return value != null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readMember(object: unknown, key: string): unknown {
+  if (typeof object === 'string' && key === 'length') return object.length;
+  if (Array.isArray(object) && key === 'length') return object.length;
+  if (
+    object != null &&
+    typeof object === 'object' &&
+    Object.prototype.hasOwnProperty.call(object, key)
+  ) {
+    return (object as Record<string, unknown>)[key];
+  }
+  return undefined;
+}
+
+function readImport(
+  context: EvaluationContext,
+  source: string,
+  imported: string,
+): unknown {
+  const moduleValue = context.resolveModule(source);
+  if (moduleValue === undefined) {
+    throw new NotStaticError(`Cannot resolve module "${source}"`);
+  }
+  if (imported === '*' || imported === 'default') return moduleValue;
+  return readMember(moduleValue, imported);
+}
+
+/**
+ * Find a webpack-style module factory keyed by `id` and evaluate the value it
+ * assigns to `module.exports`.
+ */
+function evaluateBundledModule(
+  context: EvaluationContext,
+  id: string,
+): unknown {
+  if (context.bundledModules.has(id)) {
+    return context.bundledModules.get(id);
+  }
+
+  let found: { node: AnyNode; ancestors: AnyNode[] } | null = null;
+
+  walk(context.program, (node) => {
+    if (
+      node.type !== 'Property' ||
+      staticKeyName(node.key, node.computed) !== id
+    ) {
+      return;
+    }
+    if (!isFunctionNode(node.value)) return;
+
+    walk(node.value, (inner, ancestors) => {
+      if (
+        inner.type === 'AssignmentExpression' &&
+        inner.operator === '=' &&
+        inner.left.type === 'MemberExpression' &&
+        inner.left.property.type !== 'PrivateIdentifier' &&
+        staticKeyName(inner.left.property, inner.left.computed) === 'exports'
+      ) {
+        found = { node: inner.right, ancestors: [...ancestors] };
+        return 'stop';
+      }
+    });
+    return found ? 'stop' : undefined;
+  });
+
+  const exportsAssignment = found as {
+    node: AnyNode;
+    ancestors: AnyNode[];
+  } | null;
+  if (!exportsAssignment) {
+    throw new NotStaticError(`Cannot resolve bundled module ${id}`);
+  }
+
+  const value = evaluateNode(
+    exportsAssignment.node,
+    exportsAssignment.ancestors,
+    context,
+  );
+  context.bundledModules.set(id, value);
+  return value;
+}
+
+function evaluateCall(
+  node: acorn.CallExpression,
+  ancestors: AnyNode[],
+  context: EvaluationContext,
+): unknown {
+  const { callee } = node;
+  const args = node.arguments;
+
+  // JSON.parse('...') — webpack emits large JSON modules this way
+  if (
+    callee.type === 'MemberExpression' &&
+    callee.object.type === 'Identifier' &&
+    callee.object.name === 'JSON' &&
+    staticKeyName(callee.property, callee.computed) === 'parse' &&
+    args.length === 1 &&
+    args[0].type !== 'SpreadElement'
+  ) {
+    return JSON.parse(String(evaluateNode(args[0], ancestors, context)));
+  }
+
+  // Object.assign({}, a, b)
+  if (
+    callee.type === 'MemberExpression' &&
+    callee.object.type === 'Identifier' &&
+    callee.object.name === 'Object' &&
+    staticKeyName(callee.property, callee.computed) === 'assign'
+  ) {
+    const values = args.map((arg) =>
+      evaluateNode(
+        arg.type === 'SpreadElement' ? arg.argument : arg,
+        ancestors,
+        context,
+      ),
+    );
+    return Object.assign({}, ...values.filter(isPlainObject));
+  }
+
+  // require('./package.json') or a bundler's __webpack_require__(123)
+  if (
+    callee.type === 'Identifier' &&
+    args.length === 1 &&
+    args[0].type === 'Literal' &&
+    (typeof args[0].value === 'string' || typeof args[0].value === 'number')
+  ) {
+    const specifier = String(args[0].value);
+    if (callee.name === 'require') {
+      const moduleValue = context.resolveModule(specifier);
+      if (moduleValue !== undefined) return moduleValue;
+    }
+    return evaluateBundledModule(context, specifier);
+  }
+
+  throw new NotStaticError('Unsupported function call');
+}
+
+function evaluateIdentifier(
+  node: acorn.Identifier,
+  ancestors: AnyNode[],
+  context: EvaluationContext,
+): unknown {
+  if (node.name === 'undefined') return undefined;
+
+  const binding = findBinding(node.name, ancestors);
+  if (!binding) {
+    throw new NotStaticError(`Cannot resolve identifier "${node.name}"`);
+  }
+
+  switch (binding.kind) {
+    case 'value': {
+      const value = evaluateNode(binding.init, binding.ancestors, context);
+      return binding.key === undefined ? value : readMember(value, binding.key);
+    }
+    case 'import':
+      return readImport(context, binding.source, binding.imported);
+    default:
+      throw new NotStaticError(`"${node.name}" is not a static value`);
+  }
+}
+
+function evaluateObject(
+  node: acorn.ObjectExpression,
+  ancestors: AnyNode[],
+  context: EvaluationContext,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  for (const property of node.properties) {
+    if (property.type === 'SpreadElement') {
+      const spread = evaluateNode(property.argument, ancestors, context);
+      if (isPlainObject(spread)) Object.assign(result, spread);
+      continue;
+    }
+
+    if (property.kind !== 'init' || property.method) continue;
+
+    const key = property.computed
+      ? String(evaluateNode(property.key, ancestors, context))
+      : staticKeyName(property.key, false);
+    if (key === null) continue;
+
+    // A single dynamic field (e.g. a function) should not hide the rest
+    try {
+      result[key] = evaluateNode(property.value, ancestors, context);
+    } catch (error) {
+      if (!(error instanceof NotStaticError)) throw error;
+    }
+  }
+
+  return result;
+}
+
+function evaluateNode(
+  node: AnyNode,
+  ancestors: AnyNode[],
+  context: EvaluationContext,
+): unknown {
+  if (context.depth > MAX_EVALUATION_DEPTH) {
+    throw new NotStaticError('Expression is too deeply nested or circular');
+  }
+
+  context.depth++;
+  try {
+    return evaluateNodeUnchecked(node, ancestors, context);
+  } finally {
+    context.depth--;
+  }
+}
+
+function evaluateNodeUnchecked(
+  node: AnyNode,
+  ancestors: AnyNode[],
+  context: EvaluationContext,
+): unknown {
+  switch (node.type) {
+    case 'Literal':
+      if (node.regex || node.bigint !== undefined) {
+        throw new NotStaticError('Unsupported literal');
+      }
+      return node.value;
+
+    case 'TemplateLiteral':
+      return node.quasis
+        .map((quasi, index) => {
+          const expression = node.expressions[index];
+          const cooked = quasi.value.cooked ?? quasi.value.raw;
+          return expression
+            ? cooked + String(evaluateNode(expression, ancestors, context))
+            : cooked;
+        })
+        .join('');
+
+    case 'BinaryExpression': {
+      if (node.operator !== '+' || node.left.type === 'PrivateIdentifier') {
+        throw new NotStaticError(`Unsupported operator ${node.operator}`);
+      }
+      const left = evaluateNode(node.left, ancestors, context);
+      const right = evaluateNode(node.right, ancestors, context);
+      if (typeof left === 'number' && typeof right === 'number') {
+        return left + right;
+      }
+      return String(left) + String(right);
+    }
+
+    case 'LogicalExpression': {
+      const left = evaluateNode(node.left, ancestors, context);
+      if (node.operator === '&&') {
+        return left ? evaluateNode(node.right, ancestors, context) : left;
+      }
+      if (node.operator === '||') {
+        return left ? left : evaluateNode(node.right, ancestors, context);
+      }
+      return left ?? evaluateNode(node.right, ancestors, context);
+    }
+
+    case 'ConditionalExpression':
+      return evaluateNode(node.test, ancestors, context)
+        ? evaluateNode(node.consequent, ancestors, context)
+        : evaluateNode(node.alternate, ancestors, context);
+
+    case 'UnaryExpression': {
+      // Minifiers rewrite true/false/undefined as !0, !1 and void 0
+      if (node.operator === 'void') return undefined;
+      const argument = evaluateNode(node.argument, ancestors, context);
+      if (node.operator === '!') return !argument;
+      if (node.operator === '-') return -Number(argument);
+      if (node.operator === '+') return Number(argument);
+      throw new NotStaticError(`Unsupported operator ${node.operator}`);
+    }
+
+    case 'SequenceExpression':
+      return evaluateNode(
+        node.expressions[node.expressions.length - 1],
+        ancestors,
+        context,
+      );
+
+    case 'ParenthesizedExpression':
+    case 'ChainExpression':
+      return evaluateNode(node.expression, ancestors, context);
+
+    case 'ObjectExpression':
+      return evaluateObject(node, ancestors, context);
+
+    case 'ArrayExpression': {
+      const result: unknown[] = [];
+      for (const element of node.elements) {
+        if (element == null) {
+          result.push(undefined);
+        } else if (element.type === 'SpreadElement') {
+          const spread = evaluateNode(element.argument, ancestors, context);
+          if (!Array.isArray(spread)) {
+            throw new NotStaticError('Cannot spread a non-array value');
+          }
+          result.push(...spread);
+        } else {
+          result.push(evaluateNode(element, ancestors, context));
+        }
+      }
+      return result;
+    }
+
+    case 'MemberExpression': {
+      if (
+        node.object.type === 'Super' ||
+        node.property.type === 'PrivateIdentifier'
+      ) {
+        throw new NotStaticError('Unsupported member expression');
+      }
+      const object = evaluateNode(node.object, ancestors, context);
+      if (object == null && node.optional) return undefined;
+      const key = node.computed
+        ? String(evaluateNode(node.property, ancestors, context))
+        : staticKeyName(node.property, false);
+      if (object == null || key === null) {
+        throw new NotStaticError('Cannot read property of a non-object');
+      }
+      return readMember(object, key);
+    }
+
+    case 'Identifier':
+      return evaluateIdentifier(node, ancestors, context);
+
+    case 'CallExpression':
+      return evaluateCall(node, ancestors, context);
+
+    default:
+      throw new NotStaticError(`Unsupported expression ${node.type}`);
+  }
+}
+
+/**
+ * Resolve a getMetadata value (function, or identifier naming one)
+ */
+function resolveFunction(
+  node: AnyNode | null | undefined,
+  ancestors: AnyNode[],
+): { fn: FunctionNode; ancestors: AnyNode[] } | null {
+  if (isFunctionNode(node)) return { fn: node, ancestors };
+  if (node?.type !== 'Identifier') return null;
+
+  const binding = findBinding(node.name, ancestors);
+  if (binding?.kind === 'function') {
+    return { fn: binding.node, ancestors: binding.ancestors };
+  }
+  if (binding?.kind === 'value' && binding.key === undefined) {
+    return resolveFunction(binding.init, binding.ancestors);
+  }
+  return null;
+}
+
+/**
+ * Locate every function that defines getMetadata: object properties and
+ * methods, class methods, `x.getMetadata = ...` and named declarations.
+ */
+function findGetMetadataFunctions(
+  program: acorn.Program,
+): Array<{ fn: FunctionNode; ancestors: AnyNode[] }> {
+  const found: Array<{ fn: FunctionNode; ancestors: AnyNode[] }> = [];
+
+  walk(program, (node, ancestors) => {
+    let candidate: AnyNode | null | undefined;
+
+    if (
+      (node.type === 'Property' || node.type === 'MethodDefinition') &&
+      node.key.type !== 'PrivateIdentifier' &&
+      staticKeyName(node.key, node.computed) === 'getMetadata'
+    ) {
+      candidate = node.value;
+    } else if (
+      node.type === 'AssignmentExpression' &&
+      node.left.type === 'MemberExpression' &&
+      node.left.property.type !== 'PrivateIdentifier' &&
+      staticKeyName(node.left.property, node.left.computed) === 'getMetadata'
+    ) {
+      candidate = node.right;
+    } else if (
+      node.type === 'FunctionDeclaration' &&
+      node.id?.name === 'getMetadata'
+    ) {
+      candidate = node;
+    } else if (
+      node.type === 'VariableDeclarator' &&
+      node.id.type === 'Identifier' &&
+      node.id.name === 'getMetadata'
+    ) {
+      candidate = node.init;
+    }
+
+    if (candidate) {
+      const resolved = resolveFunction(
+        candidate,
+        candidate === node ? [...ancestors] : [...ancestors, node],
+      );
+      if (resolved) found.push(resolved);
+    }
+  });
+
+  return found;
+}
+
+/**
+ * Expressions the function may return, with the scope chain they live in
+ */
+function returnedExpressions(
+  fn: FunctionNode,
+  ancestors: AnyNode[],
+): Array<{ expression: AnyNode; ancestors: AnyNode[] }> {
+  if (fn.body.type !== 'BlockStatement') {
+    return [{ expression: fn.body, ancestors: [...ancestors, fn] }];
+  }
+
+  const returns: Array<{ expression: AnyNode; ancestors: AnyNode[] }> = [];
+  walk(
+    fn.body,
+    (node, nodeAncestors) => {
+      if (isFunctionNode(node) || node.type === 'ClassBody') return 'skip';
+      if (node.type === 'ReturnStatement' && node.argument) {
+        returns.push({
+          expression: node.argument,
+          ancestors: [...nodeAncestors],
+        });
+      }
+    },
+    [...ancestors, fn],
+  );
+  return returns;
+}
+
+/**
+ * Parse mod.js and statically evaluate the object returned by getMetadata().
+ * Returns null if no getMetadata definition yields a static object.
+ * Throws a SyntaxError if the source cannot be parsed.
+ */
+export function evaluateModMetadata(
+  source: string,
+  resolveModule: ModuleResolver,
+): MetadataEvaluation | null {
+  const program = parseProgram(source);
+  const context: EvaluationContext = {
+    program,
+    resolveModule,
+    bundledModules: new Map(),
+    depth: 0,
+  };
+
+  for (const { fn, ancestors } of findGetMetadataFunctions(program)) {
+    for (const { expression, ancestors: scope } of returnedExpressions(
+      fn,
+      ancestors,
+    )) {
+      try {
+        const value = evaluateNode(expression, scope, context);
+        if (!isPlainObject(value)) continue;
+
+        const position = acorn.getLineInfo(source, expression.start);
+        return {
+          metadata: value,
+          start: expression.start,
+          end: expression.end,
+          line: position.line,
+          column: position.column + 1,
+        };
+      } catch (error) {
+        if (
+          !(error instanceof NotStaticError) &&
+          !(error instanceof SyntaxError)
+        ) {
+          throw error;
+        }
+        console.log(
+          'Could not statically evaluate getMetadata return:',
+          error.message,
+        );
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,178 @@
+// Module for packaging a mod build folder into a deterministic ZIP
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yazl from 'yazl';
+import { ModPackageOptions, ModPackageResult } from '../../src/types';
+import { config } from './config';
+
+// Local-time fields so the DOS timestamp is identical in every time zone
+const FIXED_MTIME = new Date(1980, 0, 1, 0, 0, 0);
+const FILE_MODE = 0o100644;
+
+/**
+ * Convert a glob (`*`, `?`, `**`) matched against a `/`-separated relative
+ * path into a regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  const normalized = glob.replace(/\\/g, '/').replace(/^\.?\//, '');
+
+  for (let index = 0; index < normalized.length; index++) {
+    const char = normalized[index];
+    if (char === '*' && normalized[index + 1] === '*') {
+      const atSegmentStart = index === 0 || normalized[index - 1] === '/';
+      const followedBySlash = normalized[index + 2] === '/';
+      if (atSegmentStart && followedBySlash) {
+        // "**/" matches zero or more directories
+        pattern += '(?:.*/)?';
+        index += 2;
+      } else {
+        pattern += '.*';
+        index += 1;
+      }
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else {
+      pattern += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesAny(relativePath: string, patterns: RegExp[]): boolean {
+  return patterns.some((pattern) => pattern.test(relativePath));
+}
+
+/**
+ * List files under directory as sorted `/`-separated relative paths,
+ * without descending into excluded directories
+ */
+async function collectFiles(
+  directory: string,
+  include: RegExp[],
+  exclude: RegExp[],
+): Promise<string[]> {
+  const files: string[] = [];
+
+  const walk = async (relativeDir: string) => {
+    const entries = await fs.promises.readdir(
+      path.join(directory, relativeDir),
+      { withFileTypes: true },
+    );
+
+    for (const entry of entries) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${entry.name}`
+        : entry.name;
+
+      if (entry.isDirectory()) {
+        // "dir/**" style excludes also match the directory itself
+        if (!matchesAny(`${relativePath}/`, exclude)) {
+          await walk(relativePath);
+        }
+      } else if (
+        entry.isFile() &&
+        matchesAny(relativePath, include) &&
+        !matchesAny(relativePath, exclude)
+      ) {
+        files.push(relativePath);
+      }
+    }
+  };
+
+  await walk('');
+  // Code-point order, independent of the file system's listing order
+  return files.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+function writeZip(
+  directory: string,
+  files: string[],
+  outputPath: string,
+): Promise<{ size: number; sha256: string }> {
+  return new Promise((resolve, reject) => {
+    const zipfile = new yazl.ZipFile();
+    const hash = crypto.createHash('sha256');
+    const output = fs.createWriteStream(outputPath);
+    let size = 0;
+
+    for (const file of files) {
+      zipfile.addFile(path.join(directory, ...file.split('/')), file, {
+        mtime: FIXED_MTIME,
+        mode: FILE_MODE,
+        compress: true,
+        forceDosTimestamp: true,
+      });
+    }
+
+    zipfile.outputStream.on('data', (chunk: Buffer) => {
+      hash.update(chunk);
+      size += chunk.length;
+    });
+    zipfile.outputStream.on('error', reject);
+    output.on('error', reject);
+    output.on('close', () => resolve({ size, sha256: hash.digest('hex') }));
+
+    zipfile.outputStream.pipe(output);
+    zipfile.end();
+  });
+}
+
+/**
+ * Package a mod folder into a ZIP with stable ordering and timestamps, so the
+ * same inputs always produce the same bytes (and content hash)
+ */
+export async function packageModDirectory(
+  directory: string,
+  options: ModPackageOptions = {},
+): Promise<ModPackageResult> {
+  const root = path.resolve(directory);
+  const stats = await fs.promises.stat(root).catch(() => null);
+  if (!stats?.isDirectory()) {
+    throw new Error(`Mod folder not found: ${root}`);
+  }
+
+  const include = (options.include?.length ? options.include : ['**']).map(
+    globToRegExp,
+  );
+  const exclude = [
+    ...config.packaging.defaultExclude,
+    ...(options.exclude ?? []),
+  ].map(globToRegExp);
+
+  const files = await collectFiles(root, include, exclude);
+  if (files.length === 0) {
+    throw new Error(`No files to package in ${root}`);
+  }
+
+  const outputDir = path.join(os.tmpdir(), config.packaging.outputDirName);
+  await fs.promises.mkdir(outputDir, { recursive: true });
+  const tempPath = path.join(
+    outputDir,
+    `.${process.pid}-${Date.now()}.zip.partial`,
+  );
+
+  try {
+    const { size, sha256 } = await writeZip(root, files, tempPath);
+    // Name by content so repeated packaging of unchanged folders is stable
+    const zipPath = path.join(
+      outputDir,
+      `${path.basename(root)}-${sha256.slice(0, 12)}.zip`,
+    );
+    await fs.promises.rename(tempPath, zipPath);
+
+    console.log(
+      `Packaged ${files.length} files from ${root} into ${zipPath} (sha256 ${sha256})`,
+    );
+    return { zipPath, directory: root, files, size, sha256 };
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yazl from 'yazl';
+import { afterAll, describe, expect, it } from 'vitest';
+import { extractModMetadata } from './mod-parser';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'mod-parser-test-'));
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+async function writeZip(files: Record<string, string>): Promise<string> {
+  const zipPath = path.join(tempDir, `${fs.readdirSync(tempDir).length}.zip`);
+  const zip = new yazl.ZipFile();
+  for (const [name, content] of Object.entries(files)) {
+    zip.addBuffer(Buffer.from(content), name);
+  }
+  zip.end();
+  await new Promise<void>((resolve, reject) => {
+    zip.outputStream
+      .pipe(fs.createWriteStream(zipPath))
+      .on('close', resolve)
+      .on('error', reject);
+  });
+  return zipPath;
+}
+
+const packageJson = JSON.stringify({
+  name: 'package-mod',
+  version: '3.0.0',
+  description: 'From package.json',
+});
+
+describe('extractModMetadata', () => {
+  it('prefers mod.js metadata that evaluates', async () => {
+    const info = await extractModMetadata(
+      await writeZip({
+        'mod.js':
+          "export function getMetadata() { return { name: 'js-mod', version: '1.0.0' }; }",
+        'package.json': packageJson,
+      }),
+    );
+    expect(info).toMatchObject({
+      name: 'js-mod',
+      version: '1.0.0',
+      source: { strategy: 'mod-js', file: 'mod.js' },
+    });
+  });
+
+  it('falls back to package.json when mod.js metadata evaluates to nothing', async () => {
+    // A var declared inside a block isn't resolved
+    const info = await extractModMetadata(
+      await writeZip({
+        'mod.js': `export function getMetadata() {
+          if (true) { var meta = 'block-mod'; }
+          return { name: meta, version: meta };
+        }`,
+        'package.json': packageJson,
+      }),
+    );
+    expect(info).toMatchObject({
+      name: 'package-mod',
+      version: '3.0.0',
+      description: 'From package.json',
+      source: { strategy: 'package-json', file: 'package.json' },
+    });
+  });
+
+  it('fills in a version too deeply nested to evaluate', async () => {
+    const info = await extractModMetadata(
+      await writeZip({
+        'mod.js': `export function getMetadata() {
+          return { name: 'js-mod', version: ${"'1' + ".repeat(300)}'' };
+        }`,
+        'package.json': packageJson,
+      }),
+    );
+    expect(info).toMatchObject({
+      name: 'js-mod',
+      version: '3.0.0',
+      source: { strategy: 'mod-js' },
+    });
+  });
+
+  it('keeps tags detected in mod.js when package.json supplies the rest', async () => {
+    const info = await extractModMetadata(
+      await writeZip({
+        'mod.js': 'api.addItem(item); api.addQuest(quest);',
+        'package.json': packageJson,
+      }),
+    );
+    expect(info).toMatchObject({
+      name: 'package-mod',
+      version: '3.0.0',
+      tags: ['Items', 'Quests'],
+      source: { strategy: 'package-json' },
+    });
+  });
+
+  it('returns what mod.js has when there is no package.json', async () => {
+    const info = await extractModMetadata(
+      await writeZip({ 'mod.js': 'api.addItem(item);' }),
+    );
+    expect(info).toMatchObject({
+      tags: ['Items'],
+      source: { strategy: 'detected-tags' },
+    });
+  });
+});
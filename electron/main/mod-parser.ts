@@ -1,7 +1,22 @@
 // Module for parsing mod metadata from ZIP files
 
+import * as path from 'path';
 import * as yauzl from 'yauzl';
-import { ModPackageInfo } from '../../src/types';
+import { DetectedTag, ModPackageInfo } from '../../src/types';
+import { toAllowedTag } from '../../src/utils/workshop-tags';
+import { toWorkshopLanguage } from '../../src/utils/workshop-languages';
+import { config } from './config';
+import { evaluateModMetadata } from './metadata-evaluator';
+import { isReadmeFileName, readmeToDescription } from './readme-description';
+
+const CHANGELOG_PATTERN = /^changelog\.(md|markdown)$/i;
+
+/**
+ * Whether a file name is a Markdown CHANGELOG
+ */
+export function isChangelogFileName(fileName: string): boolean {
+  return CHANGELOG_PATTERN.test(fileName);
+}
 
 /**
  * Format mod names for better visual appeal
@@ -16,7 +31,8 @@ export function formatModName(name: string): string {
 }
 
 /**
- * Extract mod metadata from a ZIP file containing mod.js and/or package.json
+ * Extract mod metadata from a ZIP file containing mod.js and/or package.json,
+ * along with its README as a BBCode description and its CHANGELOG
  */
 export async function extractModMetadata(
   zipPath: string,
@@ -29,33 +45,58 @@ export async function extractModMetadata(
         return;
       }
 
-      let modJsContent: string | null = null;
-      let packageJsonContent: string | null = null;
+      // Contents keyed by path inside the ZIP
+      const modJsFiles = new Map<string, string>();
+      const packageJsonFiles = new Map<string, string>();
+      const readmeFiles = new Map<string, string>();
+      const changelogFiles = new Map<string, string>();
       let pendingReads = 0;
 
+      const withDocs = (result: ModPackageInfo): ModPackageInfo => {
+        const readmePath = pickRootMostPath(readmeFiles);
+        const changelogPath = pickRootMostPath(changelogFiles);
+        return {
+          ...result,
+          readme: readmePath
+            ? readmeToDescription(
+                readmeFiles.get(readmePath) as string,
+                readmePath,
+              )
+            : undefined,
+          changelog: changelogPath
+            ? changelogFiles.get(changelogPath)
+            : undefined,
+        };
+      };
+
       const tryResolve = () => {
         if (pendingReads > 0) return;
 
-        // Try mod.js first
-        if (modJsContent) {
-          const result = parseModJsContent(modJsContent);
-          if (result) {
-            console.log('Successfully parsed metadata from mod.js');
-            zipfile.close();
-            resolve(result);
-            return;
-          }
-        }
-
-        // Fall back to package.json
-        if (packageJsonContent) {
-          const result = parsePackageJson(packageJsonContent);
-          if (result) {
-            console.log('Successfully parsed metadata from package.json');
-            zipfile.close();
-            resolve(result);
-            return;
-          }
+        const packageJsonPath = pickRootMostPath(packageJsonFiles);
+        const packageJson = packageJsonPath
+          ? parsePackageJson(
+              packageJsonFiles.get(packageJsonPath) as string,
+              packageJsonPath,
+            )
+          : null;
+
+        // Try mod.js first, falling back to package.json for what it lacks
+        const modJsPath = pickRootMostPath(modJsFiles);
+        const modJs = modJsPath
+          ? parseModJsContent(
+              modJsFiles.get(modJsPath) as string,
+              modJsPath,
+              packageJsonFiles,
+            )
+          : null;
+        const result = withPackageJsonFallback(modJs, packageJson);
+        if (result) {
+          console.log(
+            `Successfully parsed metadata from ${result.source?.file} (strategy: ${result.source?.strategy})`,
+          );
+          zipfile.close();
+          resolve(withDocs(result));
+          return;
         }
 
         console.log('No valid metadata found in ZIP file');
@@ -66,10 +107,19 @@ export async function extractModMetadata(
       zipfile.readEntry();
 
       zipfile.on('entry', (entry) => {
-        const isModJs = entry.fileName.endsWith('mod.js');
-        const isPackageJson = entry.fileName.endsWith('package.json');
-
-        if ((isModJs || isPackageJson) && !/\/$/.test(entry.fileName)) {
+        const baseName = path.posix.basename(entry.fileName);
+        const isModJs = baseName === 'mod.js';
+        const inNodeModules = entry.fileName
+          .split('/')
+          .includes('node_modules');
+        const isPackageJson = baseName === 'package.json' && !inNodeModules;
+        const isReadme = isReadmeFileName(baseName) && !inNodeModules;
+        const isChangelog = isChangelogFileName(baseName) && !inNodeModules;
+
+        if (
+          (isModJs || isPackageJson || isReadme || isChangelog) &&
+          !/\/$/.test(entry.fileName)
+        ) {
           pendingReads++;
 
           zipfile.openReadStream(entry, (err, readStream) => {
@@ -80,16 +130,23 @@ export async function extractModMetadata(
               return;
             }
 
-            let data = '';
-            readStream.on('data', (chunk) => {
-              data += chunk;
+            // Decoded once at the end, so a multibyte character split
+            // across chunks stays intact
+            const chunks: Buffer[] = [];
+            readStream.on('data', (chunk: Buffer) => {
+              chunks.push(chunk);
             });
 
             readStream.on('end', () => {
+              const data = Buffer.concat(chunks).toString('utf8');
               if (isModJs) {
-                modJsContent = data;
+                modJsFiles.set(entry.fileName, data);
               } else if (isPackageJson) {
-                packageJsonContent = data;
+                packageJsonFiles.set(entry.fileName, data);
+              } else if (isReadme) {
+                readmeFiles.set(entry.fileName, data);
+              } else {
+                changelogFiles.set(entry.fileName, data);
               }
               pendingReads--;
               zipfile.readEntry();
@@ -127,10 +184,88 @@ export async function extractModMetadata(
   });
 }
 
+/**
+ * Pick the shallowest path so a root mod.js wins over bundled copies
+ */
+function pickRootMostPath(files: Map<string, string>): string | null {
+  let best: string | null = null;
+  for (const filePath of files.keys()) {
+    if (best === null || filePath.split('/').length < best.split('/').length) {
+      best = filePath;
+    }
+  }
+  return best;
+}
+
+/**
+ * Map a raw metadata object (mod.js getMetadata() or package.json) to ModPackageInfo
+ */
+function toModPackageInfo(metadata: Record<string, unknown>): ModPackageInfo {
+  const asString = (value: unknown) =>
+    typeof value === 'string' ? value : undefined;
+  const author = metadata.author as { name?: unknown } | string | undefined;
+  const tags = Array.isArray(metadata.tags) ? metadata.tags : metadata.keywords;
+  const name = asString(metadata.name);
+  const title = asString(metadata.title) || name;
+  // package.json "dependencies" are npm packages, so it uses workshopDependencies
+  const dependencies = Array.isArray(metadata.workshopDependencies)
+    ? metadata.workshopDependencies
+    : metadata.dependencies;
+
+  return {
+    name,
+    title: title ? formatModName(title) : undefined,
+    description: asString(metadata.description),
+    version: asString(metadata.version),
+    author: typeof author === 'string' ? author : asString(author?.name),
+    tags: Array.isArray(tags)
+      ? tags.filter((tag): tag is string => typeof tag === 'string')
+      : undefined,
+    dependencies: Array.isArray(dependencies)
+      ? dependencies
+          .filter(
+            (dependency): dependency is string | number =>
+              typeof dependency === 'string' || typeof dependency === 'number',
+          )
+          .map((dependency) => String(dependency).trim())
+          .filter((dependency) => dependency.length > 0)
+      : undefined,
+  };
+}
+
+/**
+ * Fill in what mod.js metadata lacks from package.json. getMetadata() may
+ * evaluate to an object missing its name or version (fields that aren't
+ * static are skipped), or only tags may have been detected.
+ */
+function withPackageJsonFallback(
+  modJs: ModPackageInfo | null,
+  packageJson: ModPackageInfo | null,
+): ModPackageInfo | null {
+  if (!modJs) return packageJson;
+  if (!packageJson || (modJs.name && modJs.version)) return modJs;
+
+  console.log(
+    `mod.js metadata has no ${modJs.name ? 'version' : 'name'}; filling it in from ${packageJson.source?.file}`,
+  );
+  const evaluated = Object.fromEntries(
+    Object.entries(modJs).filter(([, value]) => value !== undefined),
+  );
+  return {
+    ...packageJson,
+    ...evaluated,
+    // Point at the file the name came from
+    source: modJs.name ? modJs.source : packageJson.source,
+  };
+}
+
 /**
  * Parse package.json content to extract metadata
  */
-function parsePackageJson(data: string): ModPackageInfo | null {
+function parsePackageJson(
+  data: string,
+  packageJsonPath: string,
+): ModPackageInfo | null {
   try {
     const pkg = JSON.parse(data);
 
@@ -140,12 +275,8 @@ function parsePackageJson(data: string): ModPackageInfo | null {
     }
 
     return {
-      name: pkg.name,
-      title: formatModName(pkg.title || pkg.name),
-      description: pkg.description,
-      version: pkg.version,
-      author: typeof pkg.author === 'string' ? pkg.author : pkg.author?.name,
-      tags: pkg.keywords,
+      ...toModPackageInfo(pkg),
+      source: { strategy: 'package-json', file: packageJsonPath },
     };
   } catch (error) {
     console.error('Failed to parse package.json:', error);
@@ -153,335 +284,208 @@ function parsePackageJson(data: string): ModPackageInfo | null {
   }
 }
 
+// ModAPI calls and the Workshop tag each suggests; tags outside config.tags
+// are mapped through its aliases
+const TAG_CALLS: Array<{ call: string; tag: string }> = [
+  // Items
+  { call: 'addItem', tag: 'Items' },
+  { call: 'addItemToShop', tag: 'Items' },
+  { call: 'addItemToGuild', tag: 'Items' },
+  { call: 'addItemToAuction', tag: 'Items' },
+  { call: 'addItemToFallenStar', tag: 'Items' },
+  { call: 'addEnchantment', tag: 'Items' },
+  { call: 'addUncutStone', tag: 'Items' },
+  { call: 'addManual', tag: 'Items' },
+  // Crafting
+  { call: 'addRecipeToLibrary', tag: 'Crafting' },
+  { call: 'addRecipeToResearch', tag: 'Crafting' },
+  { call: 'addResearchableRecipe', tag: 'Crafting' },
+  { call: 'addCraftingTechnique', tag: 'Crafting' },
+  { call: 'addHarmonyType', tag: 'Crafting' },
+  { call: 'addCraftingMissionsToLocation', tag: 'Crafting' },
+  // Characters
+  { call: 'addCharacter', tag: 'Characters' },
+  // Locations
+  { call: 'addLocation', tag: 'Locations' },
+  { call: 'linkLocations', tag: 'Locations' },
+  { call: 'registerRootLocation', tag: 'Locations' },
+  { call: 'addBuildingsToLocation', tag: 'Locations' },
+  // Combat
+  { call: 'addEnemiesToLocation', tag: 'Combat' },
+  { call: 'addFallenStar', tag: 'Combat' },
+  { call: 'addPuppetType', tag: 'Combat' },
+  // Techniques
+  { call: 'addTechnique', tag: 'Techniques' },
+  // Cultivation
+  { call: 'addBreakthrough', tag: 'Cultivation' },
+  { call: 'addDestiny', tag: 'Cultivation' },
+  // Events
+  { call: 'addTriggeredEvent', tag: 'Events' },
+  { call: 'addCalendarEvent', tag: 'Events' },
+  { call: 'addEventsToLocation', tag: 'Events' },
+  { call: 'addExplorationEventsToLocation', tag: 'Events' },
+  { call: 'addMapEventsToLocation', tag: 'Events' },
+  // Quests
+  { call: 'addQuest', tag: 'Quests' },
+  { call: 'addMissionsToLocation', tag: 'Quests' },
+  // Audio
+  { call: 'addMusic', tag: 'Audio' },
+  { call: 'addSfx', tag: 'Audio' },
+  // Housing
+  { call: 'addRoom', tag: 'Housing' },
+  // Guilds
+  { call: 'addGuild', tag: 'Guilds' },
+  // Relationships
+  { call: 'addDualCultivationTechnique', tag: 'Relationships' },
+  // Cosmetics
+  { call: 'addPlayerSprite', tag: 'Cosmetics' },
+  // UI
+  { call: 'addScreen', tag: 'UI' },
+  { call: 'addCustomFont', tag: 'UI' },
+  { call: 'setCustomFontFamily', tag: 'UI' },
+  { call: 'addThemeOverride', tag: 'UI' },
+  // Character Creation
+  { call: 'addBirthBackground', tag: 'Character Creation' },
+  { call: 'addChildBackground', tag: 'Character Creation' },
+  { call: 'addTeenBackground', tag: 'Character Creation' },
+  { call: 'addAlternativeStart', tag: 'Character Creation' },
+  // Translation
+  { call: 'addTranslation', tag: 'Translation' },
+  // Exploration
+  { call: 'addMineChamber', tag: 'Exploration' },
+  { call: 'addMysticalRegionBlessing', tag: 'Exploration' },
+  // Farming
+  { call: 'addCrop', tag: 'Farming' },
+];
+
 /**
- * Detect tags from ModAPI function calls present in mod.js content
+ * Detect tags from ModAPI function calls present in mod.js content, with the
+ * calls that suggested each
  */
-function detectTagsFromModJs(data: string): string[] {
-  const tagMap: Array<{ pattern: RegExp; tag: string }> = [
-    // Items
-    { pattern: /\baddItem\s*\(/, tag: 'Items' },
-    { pattern: /\baddItemToShop\s*\(/, tag: 'Items' },
-    { pattern: /\baddItemToGuild\s*\(/, tag: 'Items' },
-    { pattern: /\baddItemToAuction\s*\(/, tag: 'Items' },
-    { pattern: /\baddItemToFallenStar\s*\(/, tag: 'Items' },
-    { pattern: /\baddEnchantment\s*\(/, tag: 'Items' },
-    { pattern: /\baddUncutStone\s*\(/, tag: 'Items' },
-    { pattern: /\baddManual\s*\(/, tag: 'Items' },
-    // Crafting
-    { pattern: /\baddRecipeToLibrary\s*\(/, tag: 'Crafting' },
-    { pattern: /\baddRecipeToResearch\s*\(/, tag: 'Crafting' },
-    { pattern: /\baddResearchableRecipe\s*\(/, tag: 'Crafting' },
-    { pattern: /\baddCraftingTechnique\s*\(/, tag: 'Crafting' },
-    { pattern: /\baddHarmonyType\s*\(/, tag: 'Crafting' },
-    { pattern: /\baddCraftingMissionsToLocation\s*\(/, tag: 'Crafting' },
-    // Characters
-    { pattern: /\baddCharacter\s*\(/, tag: 'Characters' },
-    // Locations
-    { pattern: /\baddLocation\s*\(/, tag: 'Locations' },
-    { pattern: /\blinkLocations\s*\(/, tag: 'Locations' },
-    { pattern: /\bregisterRootLocation\s*\(/, tag: 'Locations' },
-    { pattern: /\baddBuildingsToLocation\s*\(/, tag: 'Locations' },
-    // Combat
-    { pattern: /\baddEnemiesToLocation\s*\(/, tag: 'Combat' },
-    { pattern: /\baddFallenStar\s*\(/, tag: 'Combat' },
-    { pattern: /\baddPuppetType\s*\(/, tag: 'Combat' },
-    // Techniques
-    { pattern: /\baddTechnique\s*\(/, tag: 'Techniques' },
-    // Cultivation
-    { pattern: /\baddBreakthrough\s*\(/, tag: 'Cultivation' },
-    { pattern: /\baddDestiny\s*\(/, tag: 'Cultivation' },
-    // Events
-    { pattern: /\baddTriggeredEvent\s*\(/, tag: 'Events' },
-    { pattern: /\baddCalendarEvent\s*\(/, tag: 'Events' },
-    { pattern: /\baddEventsToLocation\s*\(/, tag: 'Events' },
-    { pattern: /\baddExplorationEventsToLocation\s*\(/, tag: 'Events' },
-    { pattern: /\baddMapEventsToLocation\s*\(/, tag: 'Events' },
-    // Quests
-    { pattern: /\baddQuest\s*\(/, tag: 'Quests' },
-    { pattern: /\baddMissionsToLocation\s*\(/, tag: 'Quests' },
-    // Audio
-    { pattern: /\baddMusic\s*\(/, tag: 'Audio' },
-    { pattern: /\baddSfx\s*\(/, tag: 'Audio' },
-    // Housing
-    { pattern: /\baddRoom\s*\(/, tag: 'Housing' },
-    // Guilds
-    { pattern: /\baddGuild\s*\(/, tag: 'Guilds' },
-    // Relationships
-    { pattern: /\baddDualCultivationTechnique\s*\(/, tag: 'Relationships' },
-    // Cosmetics
-    { pattern: /\baddPlayerSprite\s*\(/, tag: 'Cosmetics' },
-    // UI
-    { pattern: /\baddScreen\s*\(/, tag: 'UI' },
-    { pattern: /\baddCustomFont\s*\(/, tag: 'UI' },
-    { pattern: /\bsetCustomFontFamily\s*\(/, tag: 'UI' },
-    { pattern: /\baddThemeOverride\s*\(/, tag: 'UI' },
-    // Character Creation
-    { pattern: /\baddBirthBackground\s*\(/, tag: 'Character Creation' },
-    { pattern: /\baddChildBackground\s*\(/, tag: 'Character Creation' },
-    { pattern: /\baddTeenBackground\s*\(/, tag: 'Character Creation' },
-    { pattern: /\baddAlternativeStart\s*\(/, tag: 'Alternative Start' },
-    // Translation
-    { pattern: /\baddTranslation\s*\(/, tag: 'Translation' },
-    // Exploration
-    { pattern: /\baddMineChamber\s*\(/, tag: 'Exploration' },
-    { pattern: /\baddMysticalRegionBlessing\s*\(/, tag: 'Exploration' },
-    // Farming
-    { pattern: /\baddCrop\s*\(/, tag: 'Farming' },
-  ];
-
-  const detectedTags = new Set<string>();
-  for (const { pattern, tag } of tagMap) {
-    if (pattern.test(data)) {
-      detectedTags.add(tag);
+function detectTagsFromModJs(data: string): DetectedTag[] {
+  const detected = new Map<string, string[]>();
+  for (const { call, tag } of TAG_CALLS) {
+    if (!new RegExp(`\\b${call}\\s*\\(`).test(data)) {
+      continue;
     }
+    const allowed = toAllowedTag(tag, config.tags);
+    if (!allowed) {
+      console.log(`Ignoring detected tag "${tag}": not a Workshop tag`);
+      continue;
+    }
+    detected.set(allowed, [...(detected.get(allowed) ?? []), call]);
   }
 
-  const tags = Array.from(detectedTags);
+  const tags = Array.from(detected, ([tag, calls]) => ({ tag, calls }));
   if (tags.length > 0) {
-    console.log('Auto-detected tags from API usage:', tags);
+    console.log(
+      'Auto-detected tags from API usage:',
+      tags.map(({ tag }) => tag),
+    );
   }
   return tags;
 }
 
+// addTranslation('zh-CN', ...) or addTranslation({ language: 'ru', ... })
+const TRANSLATION_CALL_PATTERNS = [
+  /\baddTranslation\s*\(\s*(['"`])([\w-]+)\1/g,
+  /\baddTranslation\s*\(\s*\{[^}]*?\b(?:language|locale|lang)\s*:\s*(['"`])([\w-]+)\1/g,
+];
+
 /**
- * Parse mod.js content to extract metadata
+ * Steam language codes of the translations mod.js adds, so the editor can
+ * suggest filling in the Workshop text for the same languages
  */
-function parseModJsContent(data: string): ModPackageInfo | null {
-  console.log('Parsing mod.js content...');
-
-  const detectedTags = detectTagsFromModJs(data);
-
-  const mergeDetectedTags = (result: ModPackageInfo | null): ModPackageInfo | null => {
-    if (detectedTags.length === 0) return result;
-    // If metadata parsing failed but we have tags, return a minimal result with tags
-    const base = result ?? {};
-    const existing = base.tags ?? [];
-    const merged = Array.from(new Set([...existing, ...detectedTags]));
-    return { ...base, tags: merged };
-  };
-
-  try {
-    // Try all getMetadata syntax variants
-    const metadataPatterns = [
-      // Traditional: getMetadata: function() { return {...} }
-      /getMetadata\s*:\s*function\s*\(\s*\)\s*\{\s*return\s*(\{[^}]*(?:\{[^}]*\}[^}]*)*\})/,
-      // Method shorthand: getMetadata() { return {...} }
-      /getMetadata\s*\(\s*\)\s*\{\s*return\s*(\{[^}]*(?:\{[^}]*\}[^}]*)*\})/,
-      // Arrow with body: getMetadata: () => { return {...} }
-      /getMetadata\s*:\s*\(\s*\)\s*=>\s*\{\s*return\s*(\{[^}]*(?:\{[^}]*\}[^}]*)*\})/,
-      // Arrow with parenthesized object: getMetadata: () => ({...})
-      /getMetadata\s*:\s*\(\s*\)\s*=>\s*\(\s*(\{[^}]*(?:\{[^}]*\}[^}]*)*\})\s*\)/,
-      // Arrow without parens returning object directly: getMetadata:()=>({...})
-      /getMetadata\s*:\s*\(\s*\)\s*=>\s*(\{[^}]*(?:\{[^}]*\}[^}]*)*\})/,
-    ];
-
-    for (const pattern of metadataPatterns) {
-      const metadataMatch = data.match(pattern);
-      if (metadataMatch) {
-        const result = parseMetadataObject(data, metadataMatch);
-        if (result) return mergeDetectedTags(result);
+function detectTranslationLanguages(data: string): string[] {
+  const languages = new Set<string>();
+  for (const pattern of TRANSLATION_CALL_PATTERNS) {
+    for (const match of data.matchAll(pattern)) {
+      const language = toWorkshopLanguage(match[2]);
+      if (language) {
+        languages.add(language);
+      } else {
+        console.log(`Unrecognized addTranslation() language: ${match[2]}`);
       }
     }
+  }
 
-    // Fallback: Try enhanced regex extraction
-    return mergeDetectedTags(extractWithFallbackMethods(data));
-  } catch (parseError) {
-    console.error('Error parsing mod.js metadata:', parseError);
-    return mergeDetectedTags(extractWithFallbackMethods(data));
+  const detected = Array.from(languages);
+  if (detected.length > 0) {
+    console.log('Detected translation languages:', detected);
   }
+  return detected;
 }
 
 /**
- * Parse the metadata object from matched regex
+ * Parse mod.js content to extract metadata
  */
-function parseMetadataObject(
+function parseModJsContent(
   data: string,
-  metadataMatch: RegExpMatchArray,
+  modJsPath: string,
+  packageJsonFiles: Map<string, string>,
 ): ModPackageInfo | null {
-  try {
-    // Find the complete metadata object by counting braces
-    let braceCount = 0;
-    let completeMetadata = '';
-    const startIndex = data.indexOf(metadataMatch[1]);
-
-    for (let i = startIndex; i < data.length; i++) {
-      const char = data[i];
-      completeMetadata += char;
-
-      if (char === '{') {
-        braceCount++;
-      } else if (char === '}') {
-        braceCount--;
-        if (braceCount === 0) {
-          break;
-        }
-      }
-    }
-
-    console.log('Complete metadata string:', completeMetadata);
-
-    // Clean up the metadata string for JSON parsing
-    const cleanedMetadata = completeMetadata
-      .replace(/(\w+):/g, '"$1":')
-      .replace(/'/g, '"');
+  console.log('Parsing mod.js content...');
 
-    const metadata = JSON.parse(cleanedMetadata);
-    console.log('Parsed metadata:', metadata);
+  const detectedTags = detectTagsFromModJs(data);
+  const translationLanguages = detectTranslationLanguages(data);
 
+  const mergeDetectedTags = (
+    result: ModPackageInfo | null,
+  ): ModPackageInfo | null => {
+    if (detectedTags.length === 0) return result;
+    // If metadata parsing failed but we have tags, return a minimal result with tags
+    const base: ModPackageInfo = result ?? {
+      source: { strategy: 'detected-tags', file: modJsPath },
+    };
+    const existing = base.tags ?? [];
+    const merged = Array.from(
+      new Set([...existing, ...detectedTags.map(({ tag }) => tag)]),
+    );
     return {
-      name: metadata.name,
-      title: formatModName(metadata.title || metadata.name),
-      description: metadata.description,
-      version: metadata.version,
-      author:
-        typeof metadata.author === 'string'
-          ? metadata.author
-          : metadata.author?.name,
-      tags: metadata.tags || metadata.keywords,
+      ...base,
+      tags: merged,
+      detectedTags,
+      // Any addTranslation() call also detects the Translation tag
+      ...(translationLanguages.length > 0 ? { translationLanguages } : {}),
     };
-  } catch (error) {
-    console.error('Failed to parse metadata object:', error);
-    return null;
-  }
-}
-
-/**
- * Fallback extraction methods when primary parsing fails
- */
-function extractWithFallbackMethods(data: string): ModPackageInfo | null {
-  try {
-    // Method 0: Webpack compiled inline JSON — find the JSON object literal
-    // after getMetadata and parse it directly (handles nested objects with brace counting)
-    const getMetadataPos = data.indexOf('getMetadata');
-    if (getMetadataPos !== -1) {
-      const searchArea = data.slice(getMetadataPos, getMetadataPos + 3000);
-      const jsonObjectStart = searchArea.search(/\{"name"\s*:/);
-      if (jsonObjectStart !== -1) {
-        const absoluteStart = getMetadataPos + jsonObjectStart;
-        let braceCount = 0;
-        let jsonStr = '';
-        for (
-          let i = absoluteStart;
-          i < Math.min(absoluteStart + 5000, data.length);
-          i++
-        ) {
-          const char = data[i];
-          jsonStr += char;
-          if (char === '{') braceCount++;
-          else if (char === '}') {
-            braceCount--;
-            if (braceCount === 0) break;
-          }
-        }
-        console.log('DEBUG Method 0: extracted JSON string:', jsonStr.slice(0, 200));
-        try {
-          const parsed = JSON.parse(jsonStr);
-          if (parsed.name) {
-            console.log('Successfully parsed metadata via inline JSON extraction');
-            return {
-              name: parsed.name,
-              title: formatModName(parsed.title || parsed.name),
-              description: parsed.description,
-              version: parsed.version,
-              author:
-                typeof parsed.author === 'string'
-                  ? parsed.author
-                  : parsed.author?.name,
-              tags: parsed.tags || parsed.keywords,
-            };
-          }
-        } catch (jsonError) {
-          console.error('Failed to parse inline JSON object:', jsonError);
-        }
-      } else {
-        console.log('DEBUG Method 0: no {"name": pattern found near getMetadata');
-      }
-    }
-
-    // Method 1: Handle webpack inline JSON pattern
-    // Pattern: name: {"name":"value",...}.name
-    const webpackJsonPatterns = [
-      /getMetadata\s*:\s*function\s*\(\s*\)\s*\{\s*return\s*\(\s*\{[^]*?name\s*:\s*(\{[^}]+\})\.name/,
-      /getMetadata\s*\(\s*\)\s*\{\s*return\s*\(\s*\{[^]*?name\s*:\s*(\{[^}]+\})\.name/,
-      /getMetadata\s*:\s*\(\s*\)\s*=>\s*\(?\s*\{[^]*?name\s*:\s*(\{[^}]+\})\.name/,
-    ];
-
-    for (const pattern of webpackJsonPatterns) {
-      const webpackJsonMatch = data.match(pattern);
-      if (webpackJsonMatch) {
-        console.log('Found webpack inline JSON pattern, extracting...');
-        try {
-          const inlineJson = JSON.parse(webpackJsonMatch[1]);
-          return {
-            name: inlineJson.name,
-            title: formatModName(inlineJson.title || inlineJson.name),
-            description: inlineJson.description,
-            version: inlineJson.version,
-            author:
-              typeof inlineJson.author === 'string'
-                ? inlineJson.author
-                : inlineJson.author?.name,
-            tags: inlineJson.tags || inlineJson.keywords,
-          };
-        } catch (jsonError) {
-          console.error('Failed to parse webpack inline JSON:', jsonError);
-        }
-      }
-    }
+  };
 
-    // Method 2: Look for the exact pattern with individual property extraction
-    const fullMatchPatterns = [
-      /getMetadata\s*:\s*function\s*\(\s*\)\s*\{\s*return\s*\{([^}]*(?:\{[^}]*\}[^}]*)*)}/,
-      /getMetadata\s*\(\s*\)\s*\{\s*return\s*\{([^}]*(?:\{[^}]*\}[^}]*)*)}/,
-      /getMetadata\s*:\s*\(\s*\)\s*=>\s*\(?\s*\{([^}]*(?:\{[^}]*\}[^}]*)*)\}?\s*\)?/,
-    ];
-    const fullMatch = fullMatchPatterns.reduce<RegExpMatchArray | null>(
-      (found, pattern) => found ?? data.match(pattern),
-      null,
+  // Resolve imports such as `import pkg from './package.json'` against the ZIP
+  const resolveModule = (specifier: string): unknown => {
+    if (!specifier.startsWith('.')) return undefined;
+    const resolvedPath = path.posix.join(
+      path.posix.dirname(modJsPath),
+      specifier,
     );
+    const content = packageJsonFiles.get(resolvedPath);
+    return content === undefined ? undefined : JSON.parse(content);
+  };
 
-    if (fullMatch) {
-      console.log('Found full metadata match, extracting properties...');
-
-      const nameMatch = fullMatch[0].match(/name\s*:\s*["']([^"']+)["']/);
-      const versionMatch = fullMatch[0].match(/version\s*:\s*["']([^"']+)["']/);
-      const descriptionMatch = fullMatch[0].match(
-        /description\s*:\s*["']([^"']+)["']/,
-      );
-      const authorNameMatch = fullMatch[0].match(
-        /author\s*:\s*\{[^}]*name\s*:\s*["']([^"']+)["']/,
-      );
-
-      const fallbackInfo: ModPackageInfo = {
-        name: nameMatch?.[1],
-        title: nameMatch?.[1] ? formatModName(nameMatch[1]) : undefined,
-        description: descriptionMatch?.[1],
-        version: versionMatch?.[1],
-        author: authorNameMatch?.[1],
-      };
-
-      console.log('Using enhanced fallback parsing:', fallbackInfo);
-      return fallbackInfo;
+  try {
+    const evaluation = evaluateModMetadata(data, resolveModule);
+    if (!evaluation) {
+      console.log('No statically evaluable getMetadata() found in mod.js');
+      return mergeDetectedTags(null);
     }
 
-    // Method 3: Basic regex extraction as last resort
-    const nameMatch = data.match(
-      /name\s*:\s*["']([^"']+)["'][^}]*version\s*:\s*["']([^"']+)["']/,
+    console.log(
+      `Evaluated getMetadata() at line ${evaluation.line}, column ${evaluation.column}:`,
+      evaluation.metadata,
     );
-    if (nameMatch) {
-      const basicInfo: ModPackageInfo = {
-        name: nameMatch[1],
-        title: formatModName(nameMatch[1]),
-        version: nameMatch[2],
-      };
-      console.log('Using basic fallback parsing:', basicInfo);
-      return basicInfo;
-    }
 
-    console.log('All parsing methods failed');
-    return null;
-  } catch (fallbackError) {
-    console.error('Fallback parsing failed:', fallbackError);
-    return null;
+    return mergeDetectedTags({
+      ...toModPackageInfo(evaluation.metadata),
+      source: {
+        strategy: 'mod-js',
+        file: modJsPath,
+        line: evaluation.line,
+        column: evaluation.column,
+        start: evaluation.start,
+        end: evaluation.end,
+      },
+    });
+  } catch (parseError) {
+    console.error('Error parsing mod.js metadata:', parseError);
+    return mergeDetectedTags(null);
   }
 }
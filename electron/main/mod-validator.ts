@@ -0,0 +1,258 @@
+// Module for checking a mod ZIP before it is uploaded
+
+import * as path from 'path';
+import * as yauzl from 'yauzl';
+import {
+  ModValidationReport,
+  ValidationCode,
+  ValidationIssue,
+  ValidationSeverity,
+} from '../../src/types';
+import { config } from './config';
+import { extractModMetadata } from './mod-parser';
+
+// https://semver.org/#is-there-a-suggested-regular-expression-regex-to-check-a-semver-string
+export const SEMVER_PATTERN =
+  /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
+
+// General purpose flag bit 11: file name is UTF-8 (otherwise CP437)
+const UTF8_FILE_NAME_FLAG = 0x800;
+
+interface ZipEntryInfo {
+  fileName: string;
+  compressedSize: number;
+  uncompressedSize: number;
+}
+
+/**
+ * List entry names and sizes without extracting anything. File names are
+ * decoded here so unsafe names are reported instead of rejected by yauzl.
+ */
+function readZipEntries(zipPath: string): Promise<ZipEntryInfo[]> {
+  return new Promise((resolve, reject) => {
+    yauzl.open(
+      zipPath,
+      { lazyEntries: true, decodeStrings: false },
+      (err, zipfile) => {
+        if (err || !zipfile) {
+          reject(err ?? new Error('Could not open ZIP file'));
+          return;
+        }
+
+        const entries: ZipEntryInfo[] = [];
+        zipfile.on('entry', (entry: yauzl.Entry) => {
+          const rawName = entry.fileName as unknown as Buffer;
+          entries.push({
+            fileName: rawName.toString(
+              entry.generalPurposeBitFlag & UTF8_FILE_NAME_FLAG
+                ? 'utf8'
+                : 'latin1',
+            ),
+            compressedSize: entry.compressedSize,
+            uncompressedSize: entry.uncompressedSize,
+          });
+          zipfile.readEntry();
+        });
+        zipfile.on('end', () => resolve(entries));
+        zipfile.on('error', (zipError) => {
+          zipfile.close();
+          reject(zipError);
+        });
+        zipfile.readEntry();
+      },
+    );
+  });
+}
+
+function isUnsafePath(fileName: string): boolean {
+  const normalized = fileName.replace(/\\/g, '/');
+  return (
+    normalized.startsWith('/') ||
+    /^[a-zA-Z]:/.test(normalized) ||
+    normalized.split('/').includes('..')
+  );
+}
+
+function formatSize(bytes: number): string {
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Check a mod ZIP's layout, metadata and contents, returning every problem
+ * found rather than stopping at the first
+ */
+export async function validateModPackage(
+  zipPath: string,
+): Promise<ModValidationReport> {
+  const issues: ValidationIssue[] = [];
+  const report = (
+    severity: ValidationSeverity,
+    code: ValidationCode,
+    message: string,
+    entryPath?: string,
+  ) => {
+    issues.push({ code, severity, message, path: entryPath });
+  };
+
+  let entries: ZipEntryInfo[];
+  try {
+    entries = await readZipEntries(zipPath);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    report('error', 'invalid-zip', `Could not read ZIP file: ${errorMessage}`);
+    return buildReport(zipPath, issues, 0, 0, null);
+  }
+
+  const {
+    maxUncompressedSize,
+    maxCompressionRatio,
+    minRatioCheckSize,
+    disallowedExtensions,
+  } = config.validation;
+  const files = entries.filter((entry) => !entry.fileName.endsWith('/'));
+  let uncompressedSize = 0;
+
+  for (const entry of entries) {
+    if (isUnsafePath(entry.fileName)) {
+      report(
+        'error',
+        'unsafe-path',
+        'Entry uses an absolute path or ".." and could be extracted outside the mod folder',
+        entry.fileName,
+      );
+    }
+  }
+
+  for (const file of files) {
+    uncompressedSize += file.uncompressedSize;
+
+    const extension = path.posix.extname(file.fileName).toLowerCase();
+    if ((disallowedExtensions as readonly string[]).includes(extension)) {
+      report(
+        'error',
+        'disallowed-file-type',
+        `${extension} files are not allowed in mods`,
+        file.fileName,
+      );
+    }
+
+    if (
+      file.uncompressedSize >= minRatioCheckSize &&
+      file.uncompressedSize / Math.max(file.compressedSize, 1) >
+        maxCompressionRatio
+    ) {
+      report(
+        'error',
+        'compression-ratio',
+        `Compression ratio exceeds ${maxCompressionRatio}:1 (${formatSize(file.uncompressedSize)} uncompressed), which looks like a zip bomb`,
+        file.fileName,
+      );
+    }
+  }
+
+  if (uncompressedSize > maxUncompressedSize) {
+    report(
+      'error',
+      'package-too-large',
+      `Package is ${formatSize(uncompressedSize)} uncompressed; the limit is ${formatSize(maxUncompressedSize)}`,
+    );
+  }
+
+  const modJsPaths = files
+    .map((file) => file.fileName)
+    .filter((fileName) => path.posix.basename(fileName) === 'mod.js');
+  if (!modJsPaths.includes('mod.js')) {
+    const nested = modJsPaths.find(
+      (fileName) =>
+        fileName.split('/').length === 2 &&
+        !fileName.startsWith('node_modules/'),
+    );
+    if (nested) {
+      report(
+        'error',
+        'nested-mod-js',
+        `mod.js must be at the root of the ZIP, not inside "${path.posix.dirname(nested)}/". Zip the folder's contents rather than the folder itself.`,
+        nested,
+      );
+    } else {
+      report(
+        'error',
+        'missing-mod-js',
+        'No mod.js found at the root of the ZIP',
+      );
+    }
+  }
+
+  const metadata = await extractModMetadata(zipPath);
+  if (!metadata) {
+    report(
+      'error',
+      'missing-metadata',
+      'Could not read mod metadata from mod.js getMetadata() or package.json',
+    );
+  } else {
+    const metadataFile = metadata.source?.file;
+    if (!metadata.name) {
+      report('error', 'missing-name', 'Mod metadata has no name', metadataFile);
+    }
+    if (!metadata.version) {
+      report(
+        'error',
+        'missing-version',
+        'Mod metadata has no version',
+        metadataFile,
+      );
+    } else if (!SEMVER_PATTERN.test(metadata.version)) {
+      // Older mods may use other schemes; only the version bump check needs semver
+      report(
+        'warning',
+        'invalid-version',
+        `Version "${metadata.version}" is not valid semver (expected e.g. 1.2.3), so updates can't be checked for a higher version`,
+        metadataFile,
+      );
+    }
+    if (!metadata.description) {
+      // The Workshop description can still be written in the uploader
+      report(
+        'warning',
+        'missing-description',
+        'Mod metadata has no description',
+        metadataFile,
+      );
+    }
+  }
+
+  return buildReport(zipPath, issues, files.length, uncompressedSize, metadata);
+}
+
+function buildReport(
+  zipPath: string,
+  issues: ValidationIssue[],
+  fileCount: number,
+  uncompressedSize: number,
+  metadata: ModValidationReport['metadata'],
+): ModValidationReport {
+  const errorCount = issues.filter(
+    (issue) => issue.severity === 'error',
+  ).length;
+  return {
+    zipPath,
+    valid: errorCount === 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues,
+    fileCount,
+    uncompressedSize,
+    metadata,
+  };
+}
+
+/**
+ * One line per issue, for logs and error messages
+ */
+export function formatValidationIssues(issues: ValidationIssue[]): string[] {
+  return issues.map(
+    (issue) =>
+      `${issue.severity}: ${issue.message}${issue.path ? ` (${issue.path})` : ''} [${issue.code}]`,
+  );
+}
@@ -0,0 +1,214 @@
+// Module for reading and updating per-mod workshop.json project files
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ModUploadData,
+  ModVisibility,
+  WorkshopProject,
+  WorkshopProjectManifest,
+} from '../../src/types';
+import { config } from './config';
+import { loadLocalizationDir } from './localization';
+import { findReadme, loadDescriptionFile } from './readme-description';
+
+const VISIBILITIES: readonly ModVisibility[] = [
+  'public',
+  'friends',
+  'private',
+  'unlisted',
+];
+const CHANGE_NOTE_SOURCES = ['changelog', 'git'] as const;
+
+function expectString(
+  manifest: Record<string, unknown>,
+  key: keyof WorkshopProjectManifest,
+): string | undefined {
+  const value = manifest[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`"${key}" must be a string`);
+  }
+  return value;
+}
+
+/**
+ * Check the shape of a parsed workshop.json, keeping only known fields
+ */
+function parseManifest(data: unknown): WorkshopProjectManifest {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('Project file must contain a JSON object');
+  }
+  const raw = data as Record<string, unknown>;
+  const manifest: WorkshopProjectManifest = {
+    title: expectString(raw, 'title'),
+    descriptionFile: expectString(raw, 'descriptionFile'),
+    preview: expectString(raw, 'preview'),
+    content: expectString(raw, 'content'),
+    localizationDir: expectString(raw, 'localizationDir'),
+  };
+
+  // Accept numeric IDs too, though they lose precision past 2^53
+  const workshopId =
+    typeof raw.workshopId === 'number'
+      ? String(raw.workshopId)
+      : expectString(raw, 'workshopId');
+  if (workshopId !== undefined) {
+    if (!/^\d+$/.test(workshopId.trim())) {
+      throw new Error('"workshopId" must contain digits only');
+    }
+    manifest.workshopId = workshopId.trim();
+  }
+
+  if (raw.tags !== undefined) {
+    if (
+      !Array.isArray(raw.tags) ||
+      raw.tags.some((tag) => typeof tag !== 'string')
+    ) {
+      throw new Error('"tags" must be an array of strings');
+    }
+    manifest.tags = raw.tags as string[];
+  }
+
+  const visibility = expectString(raw, 'visibility');
+  if (visibility !== undefined) {
+    if (!VISIBILITIES.includes(visibility as ModVisibility)) {
+      throw new Error(
+        `"visibility" must be one of: ${VISIBILITIES.join(', ')}`,
+      );
+    }
+    manifest.visibility = visibility as ModVisibility;
+  }
+
+  const changeNoteFrom = expectString(raw, 'changeNoteFrom');
+  if (changeNoteFrom !== undefined) {
+    if (
+      !CHANGE_NOTE_SOURCES.includes(
+        changeNoteFrom as (typeof CHANGE_NOTE_SOURCES)[number],
+      )
+    ) {
+      throw new Error(
+        `"changeNoteFrom" must be one of: ${CHANGE_NOTE_SOURCES.join(', ')}`,
+      );
+    }
+    manifest.changeNoteFrom =
+      changeNoteFrom as WorkshopProjectManifest['changeNoteFrom'];
+  }
+
+  return manifest;
+}
+
+/**
+ * Resolve a project path: a workshop.json file, or a folder containing one
+ */
+export function resolveProjectPath(projectPath: string): string {
+  const absolutePath = path.resolve(projectPath);
+  try {
+    if (fs.statSync(absolutePath).isDirectory()) {
+      return path.join(absolutePath, config.project.fileName);
+    }
+  } catch {
+    // Missing paths are reported by loadWorkshopProject
+  }
+  return absolutePath;
+}
+
+/**
+ * Load workshop.json, resolving its paths and reading the description file
+ * and localization folder. Without a description file, a README beside
+ * workshop.json is offered instead.
+ */
+export async function loadWorkshopProject(
+  projectPath: string,
+): Promise<WorkshopProject> {
+  const filePath = resolveProjectPath(projectPath);
+  let manifest: WorkshopProjectManifest;
+
+  try {
+    const data = await fs.promises.readFile(filePath, 'utf8');
+    manifest = parseManifest(JSON.parse(data));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid project file ${filePath}: ${errorMessage}`);
+  }
+
+  const projectDir = path.dirname(filePath);
+  const resolve = (relativePath?: string) =>
+    relativePath ? path.resolve(projectDir, relativePath) : undefined;
+  const project: WorkshopProject = {
+    projectPath: filePath,
+    manifest,
+    descriptionPath: resolve(manifest.descriptionFile),
+    previewPath: resolve(manifest.preview),
+    contentPath: resolve(manifest.content),
+  };
+
+  if (project.descriptionPath) {
+    try {
+      project.description = (
+        await loadDescriptionFile(project.descriptionPath)
+      ).description;
+    } catch {
+      throw new Error(`Description file not found: ${project.descriptionPath}`);
+    }
+  } else {
+    project.readme = (await findReadme(projectDir)) ?? undefined;
+  }
+
+  const localizationDir = resolve(manifest.localizationDir);
+  if (localizationDir) {
+    project.localizations = await loadLocalizationDir(localizationDir);
+  }
+
+  if (project.contentPath) {
+    const stats = await fs.promises.stat(project.contentPath).catch(() => null);
+    if (!stats) {
+      throw new Error(`Project content not found: ${project.contentPath}`);
+    }
+    project.contentType = stats.isDirectory() ? 'directory' : 'zip';
+  }
+
+  return project;
+}
+
+/**
+ * Upload fields from a project; anything set here is overridden by the caller
+ */
+export function projectToUploadData(
+  project: WorkshopProject,
+): Partial<ModUploadData> {
+  const { manifest } = project;
+  return {
+    workshopId: manifest.workshopId,
+    title: manifest.title,
+    description: project.description,
+    tags: manifest.tags?.join(', '),
+    visibility: manifest.visibility,
+    previewImagePath: project.previewPath,
+    localizations: project.localizations,
+    zipPath: project.contentType === 'zip' ? project.contentPath : undefined,
+    modDirectory:
+      project.contentType === 'directory' ? project.contentPath : undefined,
+  };
+}
+
+/**
+ * Record a newly created item's ID so the next publish updates it. Rewrites
+ * only the workshopId key, keeping any other content of the file.
+ */
+export async function saveProjectWorkshopId(
+  projectPath: string,
+  publishedFileId: string,
+): Promise<void> {
+  const filePath = resolveProjectPath(projectPath);
+  const data = JSON.parse(await fs.promises.readFile(filePath, 'utf8'));
+  const updated = { workshopId: publishedFileId, ...data };
+  updated.workshopId = publishedFileId;
+  await fs.promises.writeFile(
+    filePath,
+    `${JSON.stringify(updated, null, 2)}\n`,
+  );
+  console.log(`Saved workshop ID ${publishedFileId} to ${filePath}`);
+}
@@ -0,0 +1,60 @@
+// Module for turning a mod's README into a Workshop description
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { ReadmeDescription } from '../../src/types';
+import {
+  findRelativeImages,
+  markdownToBBCode,
+} from '../../src/utils/markdown-to-bbcode';
+
+const README_PATTERN = /^readme\.(md|markdown)$/i;
+const MARKDOWN_PATTERN = /\.(md|markdown)$/i;
+
+/**
+ * Whether a file name is a Markdown README (README.md, readme.markdown, ...)
+ */
+export function isReadmeFileName(fileName: string): boolean {
+  return README_PATTERN.test(fileName);
+}
+
+/**
+ * Convert README Markdown to BBCode, noting images Steam can't show
+ */
+export function readmeToDescription(
+  markdown: string,
+  file: string,
+): ReadmeDescription {
+  return {
+    file,
+    description: markdownToBBCode(markdown),
+    relativeImages: findRelativeImages(markdown),
+  };
+}
+
+/**
+ * Read a description file. Markdown (.md, .markdown) is converted to BBCode;
+ * anything else is used as written.
+ */
+export async function loadDescriptionFile(
+  filePath: string,
+): Promise<ReadmeDescription> {
+  const content = await fs.promises.readFile(filePath, 'utf8');
+  if (MARKDOWN_PATTERN.test(filePath)) {
+    return readmeToDescription(content, filePath);
+  }
+  return { file: filePath, description: content, relativeImages: [] };
+}
+
+/**
+ * The README in a folder, converted; null when there is none
+ */
+export async function findReadme(
+  directory: string,
+): Promise<ReadmeDescription | null> {
+  const entries = await fs.promises
+    .readdir(directory)
+    .catch(() => [] as string[]);
+  const fileName = entries.filter(isReadmeFileName).sort()[0];
+  return fileName ? loadDescriptionFile(path.join(directory, fileName)) : null;
+}
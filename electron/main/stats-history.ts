@@ -0,0 +1,115 @@
+// Local time series of item statistics, stored as JSON lines in userData.
+// A snapshot is only written when an item's counters differ from its last one.
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import { ItemStatsSnapshot, WorkshopItem } from '../../src/types';
+import { config } from './config';
+
+// Last recorded snapshot per item, loaded from the file on first use
+let latestSnapshots: Map<string, ItemStatsSnapshot> | null = null;
+// Appends run one at a time so overlapping fetches don't race on latestSnapshots
+let pendingWrite: Promise<unknown> = Promise.resolve();
+
+export function getStatsHistoryPath(): string {
+  return path.join(app.getPath('userData'), config.statsHistory.fileName);
+}
+
+async function readSnapshots(): Promise<ItemStatsSnapshot[]> {
+  let data: string;
+  try {
+    data = await fs.promises.readFile(getStatsHistoryPath(), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const snapshots: ItemStatsSnapshot[] = [];
+  for (const line of data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      snapshots.push(JSON.parse(line) as ItemStatsSnapshot);
+    } catch {
+      // Skip a line left half-written by an interrupted append
+    }
+  }
+  return snapshots;
+}
+
+async function getLatestSnapshots(): Promise<Map<string, ItemStatsSnapshot>> {
+  if (!latestSnapshots) {
+    const latest = new Map<string, ItemStatsSnapshot>();
+    for (const snapshot of await readSnapshots()) {
+      const previous = latest.get(snapshot.workshopId);
+      if (!previous || snapshot.timestamp >= previous.timestamp) {
+        latest.set(snapshot.workshopId, snapshot);
+      }
+    }
+    latestSnapshots = latest;
+  }
+  return latestSnapshots;
+}
+
+async function appendChangedStats(
+  items: WorkshopItem[],
+  timestamp: number,
+): Promise<number> {
+  const latest = await getLatestSnapshots();
+  const changed: ItemStatsSnapshot[] = [];
+  for (const item of items) {
+    const snapshot: ItemStatsSnapshot = {
+      workshopId: item.publishedFileId,
+      timestamp,
+      subscriptions: item.subscriptions,
+      favorited: item.favorited,
+      views: item.views,
+    };
+    const previous = latest.get(snapshot.workshopId);
+    if (
+      !previous ||
+      previous.subscriptions !== snapshot.subscriptions ||
+      previous.favorited !== snapshot.favorited ||
+      previous.views !== snapshot.views
+    ) {
+      changed.push(snapshot);
+    }
+  }
+
+  if (changed.length > 0) {
+    const historyPath = getStatsHistoryPath();
+    await fs.promises.mkdir(path.dirname(historyPath), { recursive: true });
+    await fs.promises.appendFile(
+      historyPath,
+      changed.map((snapshot) => `${JSON.stringify(snapshot)}\n`).join(''),
+    );
+    for (const snapshot of changed) {
+      latest.set(snapshot.workshopId, snapshot);
+    }
+  }
+  return changed.length;
+}
+
+/**
+ * Snapshot the counters of freshly fetched items; resolves with how many
+ * items changed since their last snapshot
+ */
+export function recordItemStats(
+  items: WorkshopItem[],
+  timestamp = Date.now(),
+): Promise<number> {
+  const write = pendingWrite.then(() => appendChangedStats(items, timestamp));
+  pendingWrite = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Read the recorded snapshots, oldest first, optionally for a single item
+ */
+export async function readItemStatsHistory(
+  workshopId?: string,
+): Promise<ItemStatsSnapshot[]> {
+  await pendingWrite;
+  return (await readSnapshots())
+    .filter((snapshot) => !workshopId || snapshot.workshopId === workshopId)
+    .sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -0,0 +1,283 @@
+// Workshop backend backed by the steamworks.js client
+
+import type { Client } from '@pipelab/steamworks.js';
+import { config } from './config';
+import type { SteamClient } from './steam';
+import {
+  addItemDependency,
+  getAdditionalPreviews,
+  getItemChildren,
+  isSteamUgcApiAvailable,
+  removeItemDependency,
+  setAdditionalPreviews,
+  setItemLocalizations,
+} from './steam-ugc';
+import {
+  SteamUpdateItemResult,
+  SteamUserItemsResult,
+  SteamWorkshopItemRaw,
+  updateStatusToUploadStage,
+} from './steam-types';
+import type { WorkshopBackendCapabilities } from '../../src/types';
+import type {
+  WorkshopBackend,
+  WorkshopUpdateProgress,
+} from './workshop-backend';
+
+type WorkshopApiCompatibility = {
+  getUserItems?: (...args: unknown[]) => Promise<unknown>;
+};
+
+type UgcUpdateDetails = Parameters<Client['workshop']['updateItem']>[1];
+
+/**
+ * What steamworks.js plus the flat Steam API calls in steam-ugc.ts can
+ * publish; the latter need the Steam API library to load.
+ */
+export function getSteamBackendCapabilities(): WorkshopBackendCapabilities {
+  const ugcApi = isSteamUgcApiAvailable();
+  return {
+    name: 'steam',
+    supportsAdditionalPreviews: ugcApi,
+    supportsDependencies: ugcApi,
+    supportsLocalizations: ugcApi,
+  };
+}
+
+// Remember which getUserItems signature worked so later pages skip the probe
+let getUserItemsSignature: 'modern' | 'legacy' | null = null;
+
+function getPageFromQueryResult(result: unknown): SteamUserItemsResult {
+  const page = (result ?? {}) as Partial<SteamUserItemsResult> & {
+    returnedResults?: number;
+  };
+  const items = Array.isArray(page.items) ? page.items : [];
+  return {
+    items,
+    totalResults: Number(page.totalResults ?? items.length),
+    // steamworks.js reports the page size as returnedResults
+    numReturned: Number(
+      page.numReturned ?? page.returnedResults ?? items.length,
+    ),
+  };
+}
+
+/**
+ * Fill in the extra previews steamworks.js leaves out of item queries. A
+ * failed lookup leaves them unset, which the editor shows as unknown.
+ */
+async function withAdditionalPreviews<T extends SteamWorkshopItemRaw>(
+  items: T[],
+): Promise<T[]> {
+  if (items.length === 0 || !isSteamUgcApiAvailable()) return items;
+  try {
+    const previews = await getAdditionalPreviews(
+      items.map((item) => item.publishedFileId),
+    );
+    return items.map((item) => ({
+      ...item,
+      additionalPreviews: previews.get(item.publishedFileId),
+    }));
+  } catch (error) {
+    console.warn(
+      'Could not load additional previews:',
+      error instanceof Error ? error.message : String(error),
+    );
+    return items;
+  }
+}
+
+async function queryWorkshopItemsPage(
+  steamClient: SteamClient,
+  page: number,
+): Promise<SteamUserItemsResult> {
+  const userSteamId = steamClient.localplayer.getSteamId();
+  const { UserListType, UGCType, UserListOrder } = config.steam;
+  const workshopApi =
+    steamClient.workshop as unknown as WorkshopApiCompatibility;
+  let lastError: unknown = null;
+
+  if (typeof workshopApi.getUserItems === 'function') {
+    // Query config to request full descriptions (not truncated)
+    const queryConfig = { includeLongDescription: true };
+
+    if (getUserItemsSignature !== 'legacy') {
+      try {
+        const result = await workshopApi.getUserItems(
+          page,
+          userSteamId.accountId,
+          UserListType.Published,
+          UGCType.Items,
+          UserListOrder.CreationOrderDesc,
+          { creator: config.appId, consumer: config.appId },
+          queryConfig,
+        );
+        getUserItemsSignature = 'modern';
+        return getPageFromQueryResult(result);
+      } catch (error) {
+        lastError = error;
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        console.warn('Modern getUserItems signature failed:', errorMessage);
+      }
+    }
+
+    try {
+      // Legacy steamworks.js versions expected creatorAppId and consumerAppId as separate args.
+      const result = await workshopApi.getUserItems(
+        page,
+        userSteamId.accountId,
+        UserListType.Published,
+        UGCType.Items,
+        UserListOrder.CreationOrderDesc,
+        config.appId,
+        config.appId,
+        queryConfig,
+      );
+      getUserItemsSignature = 'legacy';
+      return getPageFromQueryResult(result);
+    } catch (error) {
+      lastError = error;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      console.warn('Legacy getUserItems signature failed:', errorMessage);
+    }
+  }
+
+  if (lastError) {
+    throw lastError;
+  }
+  throw new Error('No compatible Steam Workshop query method available');
+}
+
+/**
+ * Update an item, reporting Steam's upload status while it runs.
+ * Falls back to the plain updateItem call on steamworks.js builds without
+ * updateItemWithCallback.
+ */
+function updateItemWithProgress(
+  steamClient: SteamClient,
+  itemId: bigint,
+  updateDetails: UgcUpdateDetails,
+  onProgress?: (progress: WorkshopUpdateProgress) => void,
+): Promise<SteamUpdateItemResult> {
+  if (
+    !onProgress ||
+    typeof steamClient.workshop.updateItemWithCallback !== 'function'
+  ) {
+    return steamClient.workshop.updateItem(itemId, updateDetails, config.appId);
+  }
+
+  return new Promise((resolve, reject) => {
+    steamClient.workshop.updateItemWithCallback(
+      itemId,
+      updateDetails,
+      config.appId,
+      (result) => resolve(result),
+      (error) =>
+        reject(error instanceof Error ? error : new Error(String(error))),
+      (progress) =>
+        onProgress({
+          stage: updateStatusToUploadStage(progress.status),
+          bytesProcessed: Number(progress.progress),
+          bytesTotal: Number(progress.total),
+        }),
+      config.timeouts.uploadProgressInterval,
+    );
+  });
+}
+
+export function createSteamWorkshopBackend(
+  steamClient: SteamClient,
+): WorkshopBackend {
+  return {
+    ...getSteamBackendCapabilities(),
+
+    getLocalPlayer() {
+      const steamId = steamClient.localplayer.getSteamId();
+      return {
+        steamId64: steamId.steamId64.toString(),
+        accountId: steamId.accountId,
+        name: steamClient.localplayer.getName(),
+      };
+    },
+
+    createItem() {
+      return steamClient.workshop.createItem(config.appId);
+    },
+
+    async updateItem(itemId, updateDetails, onProgress) {
+      const { additionalPreviews, localizations, ...ugcDetails } =
+        updateDetails;
+      const result = await updateItemWithProgress(
+        steamClient,
+        itemId,
+        ugcDetails as UgcUpdateDetails,
+        onProgress,
+      );
+
+      // steamworks.js can't set these, so they go in updates of their own
+      if (additionalPreviews) {
+        onProgress?.({ stage: 'uploading-preview' });
+        const previewResult = await setAdditionalPreviews(
+          itemId,
+          additionalPreviews,
+        );
+        result.needsToAcceptAgreement ||= previewResult.needsToAcceptAgreement;
+      }
+      if (localizations) {
+        onProgress?.({ stage: 'preparing-config' });
+        const localizationResult = await setItemLocalizations(
+          itemId,
+          localizations,
+        );
+        result.needsToAcceptAgreement ||=
+          localizationResult.needsToAcceptAgreement;
+      }
+      return result;
+    },
+
+    deleteItem(itemId) {
+      return steamClient.workshop.deleteItem(itemId);
+    },
+
+    async getDependencies(itemId) {
+      // Uncached, so a count from before the last sync isn't used
+      const item = await steamClient.workshop.getItem(itemId, {
+        cachedResponseMaxAge: 0,
+      });
+      if (!item) {
+        throw new Error(`Workshop item ${itemId} was not found`);
+      }
+      return getItemChildren(itemId, item.numChildren);
+    },
+
+    addDependency(itemId, dependencyId) {
+      return addItemDependency(itemId, dependencyId);
+    },
+
+    removeDependency(itemId, dependencyId) {
+      return removeItemDependency(itemId, dependencyId);
+    },
+
+    async getUserItems(page) {
+      const result = await queryWorkshopItemsPage(steamClient, page);
+      return { ...result, items: await withAdditionalPreviews(result.items) };
+    },
+
+    async getItem(itemId) {
+      const item = await steamClient.workshop.getItem(itemId, {
+        includeLongDescription: true,
+      });
+      if (!item) return null;
+      const [withPreviews] = await withAdditionalPreviews([item]);
+      return withPreviews;
+    },
+
+    openWorkshopPage(publishedFileId) {
+      steamClient.overlay.activateToWebPage(
+        `steam://url/CommunityFilePage/${publishedFileId}`,
+      );
+    },
+  };
+}
@@ -1,6 +1,6 @@
 // Steam-related TypeScript types
 
-import { ModVisibility } from '../../src/types';
+import { AdditionalPreview, ModVisibility, UploadStage } from '../../src/types';
 import { config } from './config';
 
 // Steam Workshop item from API response
@@ -17,6 +17,8 @@ export interface SteamWorkshopItemRaw {
     numFavorites?: number | bigint;
     numUniqueWebsiteViews?: number | bigint;
   };
+  // Not part of steamworks.js items; the Steam backend adds them (steam-ugc.ts)
+  additionalPreviews?: AdditionalPreview[];
 }
 
 // Steam user items query result
@@ -70,3 +72,22 @@ export function ugcVisibilityToString(visibility: number): ModVisibility {
       return 'private';
   }
 }
+
+// Convert Steam item update status number to an upload stage
+export function updateStatusToUploadStage(status: number): UploadStage {
+  const { UpdateStatus } = config.steam;
+  switch (status) {
+    case UpdateStatus.PreparingConfig:
+      return 'preparing-config';
+    case UpdateStatus.PreparingContent:
+      return 'preparing-content';
+    case UpdateStatus.UploadingContent:
+      return 'uploading-content';
+    case UpdateStatus.UploadingPreviewFile:
+      return 'uploading-preview';
+    case UpdateStatus.CommittingChanges:
+      return 'committing';
+    default:
+      return 'preparing';
+  }
+}
@@ -0,0 +1,602 @@
+// ISteamUGC calls steamworks.js has no bindings for, made through the flat
+// Steam API of the steam_api library it ships. steamworks.js initializes
+// Steam and runs its callbacks; results here are polled by SteamAPICall_t.
+
+import * as path from 'path';
+import * as koffi from 'koffi';
+import type { AdditionalPreview, WorkshopLocalizations } from '../../src/types';
+import { config } from './config';
+import { WorkshopError } from './workshop-errors';
+
+// Library inside @pipelab/steamworks.js/dist, per platform
+const STEAM_API_LIBRARIES: Partial<Record<NodeJS.Platform, string>> = {
+  win32: 'win64/steam_api64.dll',
+  linux: 'linux64/libsteam_api.so',
+  darwin: 'osx/libsteam_api.dylib',
+};
+
+// k_UGCUpdateHandleInvalid and k_UGCQueryHandleInvalid
+const INVALID_HANDLE = 0xffffffffffffffffn;
+
+// Callback structs are packed to 4 bytes outside Windows (steam_api_common.h)
+const SMALL_PACK = process.platform !== 'win32';
+
+// Call results by k_iCallback (k_iSteamUGCCallbacks + n) and struct size
+const CALL_RESULTS = {
+  queryCompleted: { id: 3401, size: 280 }, // SteamUGCQueryCompleted_t
+  submitItemUpdate: { id: 3404, size: 16 }, // SubmitItemUpdateResult_t
+  // AddUGCDependencyResult_t and RemoveUGCDependencyResult_t
+  addDependency: { id: 3412, size: SMALL_PACK ? 20 : 24 },
+  removeDependency: { id: 3413, size: SMALL_PACK ? 20 : 24 },
+};
+
+// SteamUGCDetails_t is ~9.8 KB; only its leading m_nPublishedFileId is read
+const UGC_DETAILS_SIZE = 16 * 1024;
+const PREVIEW_URL_SIZE = 1024;
+
+const E_RESULT_OK = 1;
+
+// EResult names worded so workshop-errors.ts can classify them
+const E_RESULT_MESSAGES: Record<number, string> = {
+  2: 'generic failure',
+  3: 'no connection to Steam',
+  8: 'invalid parameter',
+  9: 'file not found',
+  10: 'Steam is busy, try again',
+  15: 'access denied',
+  16: 'timed out',
+  20: 'service unavailable',
+  21: 'user not logged on',
+  25: 'limit exceeded',
+  84: 'rate limit exceeded',
+};
+
+function getSteamApiLibraryPath(): string {
+  const library = STEAM_API_LIBRARIES[process.platform];
+  if (!library) {
+    throw new Error(`The Steam API is not available on ${process.platform}`);
+  }
+  const packageDir = path.dirname(
+    require.resolve('@pipelab/steamworks.js/package.json'),
+  );
+  // Packaged builds load native files from app.asar.unpacked
+  return path
+    .join(packageDir, 'dist', library)
+    .replace(`app.asar${path.sep}`, `app.asar.unpacked${path.sep}`);
+}
+
+function loadSteamUgcApi() {
+  const library = koffi.load(getSteamApiLibraryPath());
+  const bind = (name: string, result: string, args: string[]) =>
+    library.func(`SteamAPI_${name}`, result, args);
+
+  return {
+    // Accessors of the SDK version steamworks.js is built against
+    SteamUGC: bind('SteamUGC_v021', 'void *', []),
+    SteamUtils: bind('SteamUtils_v010', 'void *', []),
+    IsAPICallCompleted: bind('ISteamUtils_IsAPICallCompleted', 'bool', [
+      'void *',
+      'uint64_t',
+      'void *',
+    ]),
+    GetAPICallResult: bind('ISteamUtils_GetAPICallResult', 'bool', [
+      'void *',
+      'uint64_t',
+      'void *',
+      'int',
+      'int',
+      'void *',
+    ]),
+    StartItemUpdate: bind('ISteamUGC_StartItemUpdate', 'uint64_t', [
+      'void *',
+      'uint32_t',
+      'uint64_t',
+    ]),
+    SubmitItemUpdate: bind('ISteamUGC_SubmitItemUpdate', 'uint64_t', [
+      'void *',
+      'uint64_t',
+      'str',
+    ]),
+    SetItemUpdateLanguage: bind('ISteamUGC_SetItemUpdateLanguage', 'bool', [
+      'void *',
+      'uint64_t',
+      'str',
+    ]),
+    SetItemTitle: bind('ISteamUGC_SetItemTitle', 'bool', [
+      'void *',
+      'uint64_t',
+      'str',
+    ]),
+    SetItemDescription: bind('ISteamUGC_SetItemDescription', 'bool', [
+      'void *',
+      'uint64_t',
+      'str',
+    ]),
+    AddItemPreviewFile: bind('ISteamUGC_AddItemPreviewFile', 'bool', [
+      'void *',
+      'uint64_t',
+      'str',
+      'int',
+    ]),
+    AddItemPreviewVideo: bind('ISteamUGC_AddItemPreviewVideo', 'bool', [
+      'void *',
+      'uint64_t',
+      'str',
+    ]),
+    RemoveItemPreview: bind('ISteamUGC_RemoveItemPreview', 'bool', [
+      'void *',
+      'uint64_t',
+      'uint32_t',
+    ]),
+    CreateQueryUGCDetailsRequest: bind(
+      'ISteamUGC_CreateQueryUGCDetailsRequest',
+      'uint64_t',
+      ['void *', 'void *', 'uint32_t'],
+    ),
+    SetAllowCachedResponse: bind('ISteamUGC_SetAllowCachedResponse', 'bool', [
+      'void *',
+      'uint64_t',
+      'uint32_t',
+    ]),
+    SetReturnAdditionalPreviews: bind(
+      'ISteamUGC_SetReturnAdditionalPreviews',
+      'bool',
+      ['void *', 'uint64_t', 'bool'],
+    ),
+    SendQueryUGCRequest: bind('ISteamUGC_SendQueryUGCRequest', 'uint64_t', [
+      'void *',
+      'uint64_t',
+    ]),
+    GetQueryUGCResult: bind('ISteamUGC_GetQueryUGCResult', 'bool', [
+      'void *',
+      'uint64_t',
+      'uint32_t',
+      'void *',
+    ]),
+    GetQueryUGCNumAdditionalPreviews: bind(
+      'ISteamUGC_GetQueryUGCNumAdditionalPreviews',
+      'uint32_t',
+      ['void *', 'uint64_t', 'uint32_t'],
+    ),
+    GetQueryUGCAdditionalPreview: bind(
+      'ISteamUGC_GetQueryUGCAdditionalPreview',
+      'bool',
+      [
+        'void *',
+        'uint64_t',
+        'uint32_t',
+        'uint32_t',
+        'void *',
+        'uint32_t',
+        'void *',
+        'uint32_t',
+        'void *',
+      ],
+    ),
+    SetReturnChildren: bind('ISteamUGC_SetReturnChildren', 'bool', [
+      'void *',
+      'uint64_t',
+      'bool',
+    ]),
+    GetQueryUGCChildren: bind('ISteamUGC_GetQueryUGCChildren', 'bool', [
+      'void *',
+      'uint64_t',
+      'uint32_t',
+      'void *',
+      'uint32_t',
+    ]),
+    AddDependency: bind('ISteamUGC_AddDependency', 'uint64_t', [
+      'void *',
+      'uint64_t',
+      'uint64_t',
+    ]),
+    RemoveDependency: bind('ISteamUGC_RemoveDependency', 'uint64_t', [
+      'void *',
+      'uint64_t',
+      'uint64_t',
+    ]),
+    ReleaseQueryUGCRequest: bind('ISteamUGC_ReleaseQueryUGCRequest', 'bool', [
+      'void *',
+      'uint64_t',
+    ]),
+  };
+}
+
+type SteamUgcApi = ReturnType<typeof loadSteamUgcApi>;
+
+let steamUgcApi: SteamUgcApi | null = null;
+let steamUgcApiError: string | null = null;
+
+function getSteamUgcApi(): SteamUgcApi {
+  if (!steamUgcApi) {
+    steamUgcApi = loadSteamUgcApi();
+  }
+  return steamUgcApi;
+}
+
+/**
+ * Whether the Steam API library could be loaded with every function used
+ * here. Needs no running Steam, so capabilities can be reported up front.
+ */
+export function isSteamUgcApiAvailable(): boolean {
+  if (steamUgcApiError !== null) return false;
+  try {
+    getSteamUgcApi();
+    return true;
+  } catch (error) {
+    steamUgcApiError = error instanceof Error ? error.message : String(error);
+    console.warn('Could not load the Steam API library:', steamUgcApiError);
+    return false;
+  }
+}
+
+interface SteamInterfaces {
+  api: SteamUgcApi;
+  ugc: unknown;
+  utils: unknown;
+}
+
+function getSteamInterfaces(): SteamInterfaces {
+  const api = getSteamUgcApi();
+  const ugc = api.SteamUGC();
+  const utils = api.SteamUtils();
+  if (!ugc || !utils) {
+    throw new Error('Steam is not initialized');
+  }
+  return { api, ugc, utils };
+}
+
+function checkResult(eResult: number, label: string): void {
+  if (eResult !== E_RESULT_OK) {
+    throw new Error(
+      `${label} failed: ${E_RESULT_MESSAGES[eResult] ?? 'error'} (EResult ${eResult})`,
+    );
+  }
+}
+
+/**
+ * Poll an API call until Steam has its result, then copy the result struct
+ */
+async function waitForCallResult(
+  { api, utils }: SteamInterfaces,
+  call: bigint,
+  expected: { id: number; size: number },
+  label: string,
+): Promise<Buffer> {
+  if (call === 0n) {
+    throw new Error(`${label} failed: Steam did not start the request`);
+  }
+
+  const failed = Buffer.alloc(1);
+  const deadline = Date.now() + config.timeouts.steamCallResult;
+  while (!api.IsAPICallCompleted(utils, call, failed)) {
+    if (Date.now() > deadline) {
+      throw new Error(`${label} timed out`);
+    }
+    await new Promise((resolve) =>
+      setTimeout(resolve, config.timeouts.steamCallResultPoll),
+    );
+  }
+
+  const result = Buffer.alloc(expected.size);
+  if (
+    !api.GetAPICallResult(
+      utils,
+      call,
+      result,
+      expected.size,
+      expected.id,
+      failed,
+    ) ||
+    failed[0]
+  ) {
+    throw new Error(`${label} failed: no result from Steam (network error)`);
+  }
+  return result;
+}
+
+/**
+ * Start an update of an item, apply `configure` to its handle and submit it
+ */
+async function submitItemUpdate(
+  itemId: bigint,
+  label: string,
+  configure: (api: SteamUgcApi, ugc: unknown, handle: bigint) => void,
+): Promise<{ needsToAcceptAgreement: boolean }> {
+  const steam = getSteamInterfaces();
+  const { api, ugc } = steam;
+  const handle = BigInt(api.StartItemUpdate(ugc, config.appId, itemId));
+  if (handle === INVALID_HANDLE) {
+    throw new Error(`${label} failed: Steam did not start the update`);
+  }
+
+  configure(api, ugc, handle);
+
+  const call = BigInt(api.SubmitItemUpdate(ugc, handle, null));
+  const result = await waitForCallResult(
+    steam,
+    call,
+    CALL_RESULTS.submitItemUpdate,
+    label,
+  );
+  checkResult(result.readInt32LE(0), label);
+  return { needsToAcceptAgreement: result.readUInt8(4) !== 0 };
+}
+
+/**
+ * Run a details query for the given items, reading each returned item
+ */
+async function queryItemDetails<T>(
+  itemIds: bigint[],
+  prepare: (api: SteamUgcApi, ugc: unknown, query: bigint) => void,
+  read: (api: SteamUgcApi, ugc: unknown, query: bigint, index: number) => T,
+): Promise<Map<bigint, T>> {
+  const results = new Map<bigint, T>();
+  if (itemIds.length === 0) return results;
+
+  const steam = getSteamInterfaces();
+  const { api, ugc } = steam;
+  const ids = Buffer.alloc(itemIds.length * 8);
+  itemIds.forEach((itemId, index) => ids.writeBigUInt64LE(itemId, index * 8));
+  const query = BigInt(
+    api.CreateQueryUGCDetailsRequest(ugc, ids, itemIds.length),
+  );
+  if (query === INVALID_HANDLE) {
+    throw new Error('Workshop item query failed: Steam did not create it');
+  }
+
+  try {
+    // The uploader just changed these items; don't read them from the cache
+    api.SetAllowCachedResponse(ugc, query, 0);
+    prepare(api, ugc, query);
+    const call = BigInt(api.SendQueryUGCRequest(ugc, query));
+    const completed = await waitForCallResult(
+      steam,
+      call,
+      CALL_RESULTS.queryCompleted,
+      'Workshop item query',
+    );
+    checkResult(completed.readInt32LE(8), 'Workshop item query');
+
+    const details = Buffer.alloc(UGC_DETAILS_SIZE);
+    const returned = completed.readUInt32LE(12);
+    for (let index = 0; index < returned; index++) {
+      if (!api.GetQueryUGCResult(ugc, query, index, details)) continue;
+      results.set(details.readBigUInt64LE(0), read(api, ugc, query, index));
+    }
+    return results;
+  } finally {
+    api.ReleaseQueryUGCRequest(ugc, query);
+  }
+}
+
+function readCString(buffer: Buffer): string {
+  const end = buffer.indexOf(0);
+  return buffer.toString('utf8', 0, end < 0 ? buffer.length : end);
+}
+
+/**
+ * Extra screenshots (by URL) and YouTube videos of each item, in order.
+ * Other preview types (e.g. Sketchfab) can't be edited here and are left out.
+ */
+export async function getAdditionalPreviews(
+  itemIds: bigint[],
+): Promise<Map<bigint, AdditionalPreview[]>> {
+  const { ItemPreviewType } = config.steam;
+  return queryItemDetails(
+    itemIds,
+    (api, ugc, query) => api.SetReturnAdditionalPreviews(ugc, query, true),
+    (api, ugc, query, index) => {
+      const previews: AdditionalPreview[] = [];
+      const count = api.GetQueryUGCNumAdditionalPreviews(ugc, query, index);
+      const url = Buffer.alloc(PREVIEW_URL_SIZE);
+      const fileName = Buffer.alloc(PREVIEW_URL_SIZE);
+      const type = Buffer.alloc(4);
+      for (let previewIndex = 0; previewIndex < count; previewIndex++) {
+        url.fill(0);
+        const found = api.GetQueryUGCAdditionalPreview(
+          ugc,
+          query,
+          index,
+          previewIndex,
+          url,
+          url.length,
+          fileName,
+          fileName.length,
+          type,
+        );
+        if (!found) continue;
+        const value = readCString(url);
+        if (type.readInt32LE(0) === ItemPreviewType.Image) {
+          previews.push({ type: 'image', url: value });
+        } else if (type.readInt32LE(0) === ItemPreviewType.YouTubeVideo) {
+          previews.push({ type: 'video', videoId: value });
+        }
+      }
+      return previews;
+    },
+  );
+}
+
+function isSamePreview(
+  existing: AdditionalPreview,
+  wanted: AdditionalPreview,
+): boolean {
+  if (existing.type === 'video' || wanted.type === 'video') {
+    return (
+      existing.type === 'video' &&
+      wanted.type === 'video' &&
+      existing.videoId === wanted.videoId
+    );
+  }
+  return !wanted.path && existing.url === wanted.url;
+}
+
+/**
+ * Replace an item's extra previews with `previews`. Steam can only remove
+ * and append, so previews already on the item keep their place: the ones
+ * matching from the start stay, the rest are removed and the new ones added.
+ */
+export async function setAdditionalPreviews(
+  itemId: bigint,
+  previews: AdditionalPreview[],
+): Promise<{ needsToAcceptAgreement: boolean }> {
+  const existing = (await getAdditionalPreviews([itemId])).get(itemId);
+  if (!existing) {
+    throw new Error(`Workshop item ${itemId} was not found`);
+  }
+
+  let kept = 0;
+  while (
+    kept < existing.length &&
+    kept < previews.length &&
+    isSamePreview(existing[kept], previews[kept])
+  ) {
+    kept++;
+  }
+  const added = previews.slice(kept);
+  const moved = added.find(
+    (preview) => preview.type === 'image' && !preview.path,
+  );
+  if (moved?.type === 'image') {
+    throw new WorkshopError(
+      'invalid-input',
+      `Steam cannot move a screenshot already on the item (${moved.url}); add it again from a file to change its place`,
+    );
+  }
+  if (kept === existing.length && added.length === 0) {
+    return { needsToAcceptAgreement: false };
+  }
+
+  const { ItemPreviewType } = config.steam;
+  return submitItemUpdate(
+    itemId,
+    `Updating previews of workshop item ${itemId}`,
+    (api, ugc, handle) => {
+      // From the end, so the indices of the ones still to remove hold
+      for (let index = existing.length - 1; index >= kept; index--) {
+        api.RemoveItemPreview(ugc, handle, index);
+      }
+      for (const preview of added) {
+        const accepted =
+          preview.type === 'video'
+            ? api.AddItemPreviewVideo(ugc, handle, preview.videoId)
+            : api.AddItemPreviewFile(
+                ugc,
+                handle,
+                preview.path,
+                ItemPreviewType.Image,
+              );
+        if (!accepted) {
+          throw new WorkshopError(
+            'invalid-input',
+            `Steam rejected the preview ${preview.type === 'video' ? preview.videoId : preview.path}`,
+          );
+        }
+      }
+    },
+  );
+}
+
+/**
+ * Set an item's title and description in other languages. Steam takes one
+ * language per update, so each is submitted on its own.
+ */
+export async function setItemLocalizations(
+  itemId: bigint,
+  localizations: WorkshopLocalizations,
+): Promise<{ needsToAcceptAgreement: boolean }> {
+  let needsToAcceptAgreement = false;
+  for (const [language, text] of Object.entries(localizations)) {
+    const label = `Updating the ${language} text of workshop item ${itemId}`;
+    const result = await submitItemUpdate(itemId, label, (api, ugc, handle) => {
+      const accepted =
+        api.SetItemUpdateLanguage(ugc, handle, language) &&
+        (!text.title || api.SetItemTitle(ugc, handle, text.title)) &&
+        (!text.description ||
+          api.SetItemDescription(ugc, handle, text.description));
+      if (!accepted) {
+        throw new WorkshopError(
+          'invalid-input',
+          `Steam rejected the ${language} title or description`,
+        );
+      }
+    });
+    needsToAcceptAgreement ||= result.needsToAcceptAgreement;
+  }
+  return { needsToAcceptAgreement };
+}
+
+/**
+ * IDs of the items an item requires. `numChildren` comes from an uncached
+ * item query, since Steam only copies as many IDs as it is asked for.
+ */
+export async function getItemChildren(
+  itemId: bigint,
+  numChildren: number,
+): Promise<bigint[]> {
+  if (numChildren === 0) return [];
+  const children = await queryItemDetails(
+    [itemId],
+    (api, ugc, query) => api.SetReturnChildren(ugc, query, true),
+    (api, ugc, query, index) => {
+      const ids = Buffer.alloc(numChildren * 8);
+      if (!api.GetQueryUGCChildren(ugc, query, index, ids, numChildren)) {
+        throw new Error(`Could not read the dependencies of ${itemId}`);
+      }
+      return Array.from({ length: numChildren }, (_, child) =>
+        ids.readBigUInt64LE(child * 8),
+      );
+    },
+  );
+  const ids = children.get(itemId);
+  if (!ids) {
+    throw new Error(`Workshop item ${itemId} was not found`);
+  }
+  return ids;
+}
+
+async function changeDependency(
+  change: 'addDependency' | 'removeDependency',
+  itemId: bigint,
+  dependencyId: bigint,
+  label: string,
+): Promise<void> {
+  const steam = getSteamInterfaces();
+  const call = BigInt(
+    change === 'addDependency'
+      ? steam.api.AddDependency(steam.ugc, itemId, dependencyId)
+      : steam.api.RemoveDependency(steam.ugc, itemId, dependencyId),
+  );
+  const result = await waitForCallResult(
+    steam,
+    call,
+    CALL_RESULTS[change],
+    label,
+  );
+  checkResult(result.readInt32LE(0), label);
+}
+
+export function addItemDependency(
+  itemId: bigint,
+  dependencyId: bigint,
+): Promise<void> {
+  return changeDependency(
+    'addDependency',
+    itemId,
+    dependencyId,
+    `Adding dependency ${dependencyId} to ${itemId}`,
+  );
+}
+
+export function removeItemDependency(
+  itemId: bigint,
+  dependencyId: bigint,
+): Promise<void> {
+  return changeDependency(
+    'removeDependency',
+    itemId,
+    dependencyId,
+    `Removing dependency ${dependencyId} from ${itemId}`,
+  );
+}
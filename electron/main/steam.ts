@@ -177,6 +177,18 @@ export async function openSteamWorkshopPage(
   }
 }
 
+/**
+ * Open the Steam Workshop legal agreement via Steam overlay
+ */
+export async function openWorkshopAgreementPage(): Promise<void> {
+  if (!steamClient || !steamInitialized) {
+    throw new Error('Steam is not initialized');
+  }
+
+  steamClient.overlay.activateToWebPage(config.steam.workshopAgreementUrl);
+  console.log('Opened Steam Workshop legal agreement via overlay');
+}
+
 /**
  * Get the Workshop URL for an item (for fallback browser opening)
  */
@@ -0,0 +1,124 @@
+// Local record of every publish attempt, stored as JSON lines in userData
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
+import {
+  UploadChangedField,
+  UploadHistoryEntry,
+  UploadPlan,
+  WorkshopBackendName,
+} from '../../src/types';
+import { config } from './config';
+import { getGitHead } from './git';
+
+export function getUploadHistoryPath(): string {
+  return path.join(app.getPath('userData'), config.history.fileName);
+}
+
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('error', reject)
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+function getChangedFields(plan: UploadPlan): UploadChangedField[] {
+  const { updateDetails } = plan;
+  const fields: UploadChangedField[] = [];
+  if (updateDetails.title !== undefined) fields.push('title');
+  if (updateDetails.description !== undefined) fields.push('description');
+  if (updateDetails.tags !== undefined) fields.push('tags');
+  if (updateDetails.visibility !== undefined) fields.push('visibility');
+  if (updateDetails.contentPath !== undefined) fields.push('content');
+  if (updateDetails.previewPath !== undefined) fields.push('preview');
+  if (updateDetails.additionalPreviews !== undefined) {
+    fields.push('additional-previews');
+  }
+  if (updateDetails.localizations !== undefined) fields.push('localizations');
+  return fields;
+}
+
+/**
+ * Build the history entry for an upload from its resolved plan
+ */
+export async function createHistoryEntry(
+  plan: UploadPlan,
+  outcome: {
+    backend: WorkshopBackendName;
+    publishedFileId?: string;
+    error?: string;
+  },
+): Promise<UploadHistoryEntry> {
+  const entry: UploadHistoryEntry = {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    workshopId: outcome.publishedFileId ?? plan.workshopId,
+    action: plan.action,
+    backend: outcome.backend,
+    title: plan.updateDetails.title,
+    modVersion: plan.validation?.metadata?.version,
+    contentSha256: plan.contentPackage?.sha256,
+    contentSize: plan.contentSize,
+    changeNotes: plan.updateDetails.changeNote,
+    changedFields: getChangedFields(plan),
+    outcome: outcome.error ? 'failure' : 'success',
+    error: outcome.error,
+  };
+
+  if (plan.contentPath && !entry.contentSha256) {
+    entry.contentSha256 = await hashFile(plan.contentPath).catch(
+      () => undefined,
+    );
+  }
+
+  // Where git change notes for the next upload start from
+  if (plan.contentPath) {
+    entry.gitCommit =
+      (await getGitHead(
+        plan.contentPackage?.directory ?? path.dirname(plan.contentPath),
+      )) ?? undefined;
+  }
+
+  return entry;
+}
+
+export async function appendUploadHistory(
+  entry: UploadHistoryEntry,
+): Promise<void> {
+  const historyPath = getUploadHistoryPath();
+  await fs.promises.mkdir(path.dirname(historyPath), { recursive: true });
+  await fs.promises.appendFile(historyPath, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Read the upload history, newest first, optionally for a single item
+ */
+export async function readUploadHistory(
+  workshopId?: string,
+): Promise<UploadHistoryEntry[]> {
+  let data: string;
+  try {
+    data = await fs.promises.readFile(getUploadHistoryPath(), 'utf8');
+  } catch {
+    return [];
+  }
+
+  const entries: UploadHistoryEntry[] = [];
+  for (const line of data.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line) as UploadHistoryEntry);
+    } catch {
+      // Skip a line left half-written by an interrupted append
+    }
+  }
+
+  return entries
+    .filter((entry) => !workshopId || entry.workshopId === workshopId)
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
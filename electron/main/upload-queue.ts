@@ -0,0 +1,221 @@
+// Sequential upload queue: publishes several mods one after another against
+// a single Workshop backend session, retrying transient failures per job.
+
+import * as path from 'path';
+import type {
+  UploadJob,
+  UploadJobInput,
+  UploadProgressEvent,
+  UploadQueueState,
+} from '../../src/types';
+import { config } from './config';
+import { saveProjectWorkshopId } from './project-manifest';
+import type { WorkshopBackend } from './workshop-backend';
+import { normalizeWorkshopError, toWorkshopErrorInfo } from './workshop-errors';
+import {
+  ensureWorkshopBackendReady,
+  uploadWorkshopItem,
+} from './workshop-service';
+
+export interface UploadQueueOptions {
+  getBackend?: () => Promise<WorkshopBackend>; // Defaults to the selected backend
+  onChange?: (state: UploadQueueState) => void;
+  onJobProgress?: (job: UploadJob, progress: UploadProgressEvent) => void;
+  onJobFinished?: (job: UploadJob) => void;
+  maxAttempts?: number;
+  retryDelay?: number;
+  requireVersionBump?: boolean; // See UploadWorkshopOptions
+}
+
+export interface UploadQueue {
+  enqueue: (inputs: UploadJobInput[]) => UploadJob[];
+  remove: (jobId: string) => void;
+  clearFinished: () => void;
+  getState: () => UploadQueueState;
+  // Process queued jobs until none are left or stop() is called; resolves
+  // with the jobs that ran. Jobs stay queued if the backend is unavailable.
+  run: () => Promise<UploadJob[]>;
+  stop: () => void;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getJobLabel(input: UploadJobInput, id: string): string {
+  const { modData, projectPath } = input;
+  return (
+    input.label ||
+    modData.title ||
+    (projectPath ? path.basename(path.dirname(projectPath)) : '') ||
+    (modData.workshopId ? `Item ${modData.workshopId}` : `Upload ${id}`)
+  );
+}
+
+export function createUploadQueue(
+  options: UploadQueueOptions = {},
+): UploadQueue {
+  const maxAttempts = options.maxAttempts ?? config.uploadQueue.maxAttempts;
+  const retryDelay = options.retryDelay ?? config.uploadQueue.retryDelay;
+  const getBackend =
+    options.getBackend ?? (() => ensureWorkshopBackendReady(null));
+
+  let jobs: UploadJob[] = [];
+  let nextJobId = 1;
+  let activeRun: Promise<UploadJob[]> | null = null;
+  let stopping = false;
+
+  const getState = (): UploadQueueState => ({
+    jobs: jobs.map((job) => ({ ...job })),
+    running: activeRun !== null,
+    stopping,
+  });
+
+  const emit = () => {
+    try {
+      options.onChange?.(getState());
+    } catch (listenerError) {
+      console.warn('Upload queue listener failed:', listenerError);
+    }
+  };
+
+  const runJob = async (job: UploadJob, backend: WorkshopBackend) => {
+    job.status = 'running';
+    job.startedAt = Date.now();
+    job.progress = undefined;
+    job.error = undefined;
+    emit();
+
+    for (let attempt = 1; ; attempt += 1) {
+      job.attempts = attempt;
+      try {
+        job.result = await uploadWorkshopItem(job.modData, {
+          backend,
+          requireVersionBump: options.requireVersionBump,
+          onProgress: (progress) => {
+            job.progress = progress;
+            options.onJobProgress?.(job, progress);
+            emit();
+          },
+          onItemCreated: async (publishedFileId) => {
+            // A retry must update the new item rather than create another
+            job.modData = { ...job.modData, workshopId: publishedFileId };
+            if (job.projectPath) {
+              await saveProjectWorkshopId(job.projectPath, publishedFileId);
+            }
+          },
+        });
+        job.status = 'succeeded';
+        job.error = undefined;
+        break;
+      } catch (error) {
+        // Workshop calls already retry with backoff; this retries the whole
+        // job once those give up on a transient failure
+        const workshopError = normalizeWorkshopError(error);
+        job.error = toWorkshopErrorInfo(workshopError);
+        if (attempt >= maxAttempts || !workshopError.retryable) {
+          job.status = 'failed';
+          break;
+        }
+
+        const delay = retryDelay * attempt;
+        console.warn(
+          `Upload of "${job.label}" failed on attempt ${attempt}/${maxAttempts}, retrying in ${delay / 1000}s: ${workshopError.message}`,
+        );
+        emit();
+        await sleep(delay);
+      }
+    }
+
+    job.finishedAt = Date.now();
+    console.log(
+      job.status === 'succeeded'
+        ? `Queued upload "${job.label}" succeeded: ${job.result?.publishedFileId}`
+        : `Queued upload "${job.label}" failed: ${job.error?.message}`,
+    );
+    emit();
+    try {
+      options.onJobFinished?.(job);
+    } catch (listenerError) {
+      console.warn('Upload queue listener failed:', listenerError);
+    }
+  };
+
+  const processQueue = async (): Promise<UploadJob[]> => {
+    const finished: UploadJob[] = [];
+    if (!jobs.some((job) => job.status === 'queued')) {
+      return finished;
+    }
+
+    // One backend (and so one Steam session) for the whole run
+    const backend = await getBackend();
+    let job: UploadJob | undefined;
+    while (
+      !stopping &&
+      (job = jobs.find((queued) => queued.status === 'queued'))
+    ) {
+      await runJob(job, backend);
+      finished.push(job);
+    }
+    return finished;
+  };
+
+  return {
+    enqueue(inputs) {
+      const added = inputs.map((input): UploadJob => {
+        const id = String(nextJobId++);
+        return {
+          id,
+          label: getJobLabel(input, id),
+          modData: input.modData,
+          projectPath: input.projectPath,
+          status: 'queued',
+          attempts: 0,
+        };
+      });
+      jobs.push(...added);
+      emit();
+      return added;
+    },
+
+    remove(jobId) {
+      const job = jobs.find((candidate) => candidate.id === jobId);
+      if (job?.status === 'running') {
+        throw new Error(
+          `Upload "${job.label}" is running and cannot be removed`,
+        );
+      }
+      jobs = jobs.filter((candidate) => candidate.id !== jobId);
+      emit();
+    },
+
+    clearFinished() {
+      jobs = jobs.filter(
+        (job) => job.status === 'queued' || job.status === 'running',
+      );
+      emit();
+    },
+
+    getState,
+
+    run() {
+      if (!activeRun) {
+        stopping = false;
+        activeRun = processQueue().finally(() => {
+          activeRun = null;
+          stopping = false;
+          emit();
+        });
+        emit();
+      }
+      return activeRun;
+    },
+
+    stop() {
+      if (activeRun) {
+        stopping = true;
+        emit();
+      }
+    },
+  };
+}
@@ -0,0 +1,87 @@
+// Module for checking that each upload raises the mod's version
+
+import { VersionBumpCheck } from '../../src/types';
+import { SEMVER_PATTERN } from './mod-validator';
+import { readUploadHistory } from './upload-history';
+
+function comparePrerelease(a?: string, b?: string): number {
+  if (a === b) return 0;
+  // A release ranks above its pre-releases
+  if (a === undefined) return 1;
+  if (b === undefined) return -1;
+
+  const left = a.split('.');
+  const right = b.split('.');
+  for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+    if (left[index] === undefined) return -1;
+    if (right[index] === undefined) return 1;
+    const leftNumeric = /^\d+$/.test(left[index]);
+    const rightNumeric = /^\d+$/.test(right[index]);
+    if (leftNumeric && rightNumeric) {
+      const difference = Number(left[index]) - Number(right[index]);
+      if (difference !== 0) return Math.sign(difference);
+    } else if (leftNumeric !== rightNumeric) {
+      return leftNumeric ? -1 : 1;
+    } else if (left[index] !== right[index]) {
+      return left[index] < right[index] ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compare versions by semver precedence: negative when a is lower, 0 when
+ * equal (build metadata is ignored), positive when higher; null when either
+ * is not valid semver
+ */
+export function compareSemver(a: string, b: string): number | null {
+  const left = SEMVER_PATTERN.exec(a.trim());
+  const right = SEMVER_PATTERN.exec(b.trim());
+  if (!left || !right) {
+    return null;
+  }
+  for (let part = 1; part <= 3; part += 1) {
+    const difference = Number(left[part]) - Number(right[part]);
+    if (difference !== 0) return Math.sign(difference);
+  }
+  return comparePrerelease(left[4], right[4]);
+}
+
+/**
+ * Compare a package's version with the last version successfully published
+ * to the item, as recorded in the upload history
+ */
+export async function checkVersionBump(
+  workshopId: string,
+  version: string | undefined,
+): Promise<VersionBumpCheck> {
+  const lastUpload = (await readUploadHistory(workshopId)).find(
+    (entry) => entry.outcome === 'success' && entry.modVersion,
+  );
+  if (!lastUpload?.modVersion) {
+    return { status: 'first', version };
+  }
+
+  const publishedVersion = lastUpload.modVersion;
+  const check: VersionBumpCheck = {
+    status: 'unknown',
+    version,
+    publishedVersion,
+    publishedAt: lastUpload.timestamp,
+  };
+  const order = version ? compareSemver(version, publishedVersion) : null;
+  if (order === null) {
+    return check;
+  }
+
+  if (order > 0) {
+    check.status = 'increased';
+  } else if (order === 0) {
+    check.status = 'unchanged';
+    check.message = `Version ${version} was already published to item ${workshopId}; players won't see that anything changed.`;
+  } else {
+    check.status = 'decreased';
+    check.message = `Version ${version} is lower than ${publishedVersion}, the version last published to item ${workshopId}.`;
+  }
+  return check;
+}
@@ -0,0 +1,90 @@
+// Workshop backend interface - the operations the uploader needs from Steam
+
+import type {
+  UploadStage,
+  WorkshopBackendCapabilities,
+  WorkshopBackendName,
+  WorkshopUpdateDetails,
+} from '../../src/types';
+import { config } from './config';
+import type {
+  SteamCreateItemResult,
+  SteamUpdateItemResult,
+  SteamUserItemsResult,
+  SteamWorkshopItemRaw,
+} from './steam-types';
+
+export interface WorkshopLocalPlayer {
+  steamId64: string;
+  accountId: number;
+  name: string;
+}
+
+export interface WorkshopUpdateProgress {
+  stage: UploadStage;
+  bytesProcessed?: number;
+  bytesTotal?: number;
+}
+
+export interface WorkshopBackend extends WorkshopBackendCapabilities {
+  /** Throws when no user session is available */
+  getLocalPlayer(): WorkshopLocalPlayer;
+  createItem(): Promise<SteamCreateItemResult>;
+  updateItem(
+    itemId: bigint,
+    updateDetails: WorkshopUpdateDetails,
+    onProgress?: (progress: WorkshopUpdateProgress) => void,
+  ): Promise<SteamUpdateItemResult>;
+  deleteItem(itemId: bigint): Promise<void>;
+  /** IDs of the items this item requires */
+  getDependencies(itemId: bigint): Promise<bigint[]>;
+  addDependency(itemId: bigint, dependencyId: bigint): Promise<void>;
+  removeDependency(itemId: bigint, dependencyId: bigint): Promise<void>;
+  /** One page of the local player's published items, newest first */
+  getUserItems(page: number): Promise<SteamUserItemsResult>;
+  getItem(itemId: bigint): Promise<SteamWorkshopItemRaw | null>;
+  openWorkshopPage(publishedFileId: string): void;
+}
+
+const BACKEND_NAMES: readonly WorkshopBackendName[] = ['steam', 'fake'];
+
+// Explicit selection (e.g. CLI --backend); otherwise argv/env decide
+let selectedBackendName: WorkshopBackendName | null = null;
+
+export function parseWorkshopBackendName(value: string): WorkshopBackendName {
+  const name = value.trim().toLowerCase();
+  if (!BACKEND_NAMES.includes(name as WorkshopBackendName)) {
+    throw new Error(
+      `Invalid workshop backend "${value}". Expected one of: ${BACKEND_NAMES.join(', ')}.`,
+    );
+  }
+  return name as WorkshopBackendName;
+}
+
+export function setWorkshopBackendName(name: WorkshopBackendName): void {
+  selectedBackendName = name;
+}
+
+/**
+ * Backend to use: explicit selection, then --backend <name>, then the
+ * WORKSHOP_BACKEND environment variable, then Steam.
+ */
+export function getWorkshopBackendName(
+  argv: string[] = process.argv,
+): WorkshopBackendName {
+  if (selectedBackendName) {
+    return selectedBackendName;
+  }
+
+  const flagIndex = argv.indexOf('--backend');
+  if (flagIndex >= 0 && argv[flagIndex + 1]) {
+    return parseWorkshopBackendName(argv[flagIndex + 1]);
+  }
+
+  const envValue = process.env[config.backend.envVar];
+  if (envValue) {
+    return parseWorkshopBackendName(envValue);
+  }
+
+  return 'steam';
+}
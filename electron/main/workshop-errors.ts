@@ -0,0 +1,266 @@
+// Workshop error taxonomy: classifies Steam and uploader failures into stable
+// codes with user-facing remedies, and retries the transient ones.
+
+import type {
+  WorkshopErrorCategory,
+  WorkshopErrorCode,
+  WorkshopErrorInfo,
+} from '../../src/types';
+import { config } from './config';
+
+interface ErrorCodeDetails {
+  category: WorkshopErrorCategory;
+  retryable: boolean;
+  remedy?: string;
+}
+
+const ERROR_CODES: Record<WorkshopErrorCode, ErrorCodeDetails> = {
+  'steam-not-running': {
+    category: 'auth',
+    retryable: false,
+    remedy: 'Start Steam and make sure you are logged in, then retry.',
+  },
+  'not-logged-in': {
+    category: 'auth',
+    retryable: false,
+    remedy:
+      'Open Steam and sign in to the account that owns "Ascend from Nine Mountains", then retry.',
+  },
+  timeout: {
+    category: 'network',
+    retryable: true,
+    remedy:
+      'Check your internet connection and that Steam is online, then retry.',
+  },
+  'network-error': {
+    category: 'network',
+    retryable: true,
+    remedy:
+      'Check your internet connection and that Steam is online, then retry.',
+  },
+  'service-unavailable': {
+    category: 'network',
+    retryable: true,
+    remedy: 'Steam servers are busy or down; try again in a few minutes.',
+  },
+  'rate-limited': {
+    category: 'quota',
+    retryable: true,
+    remedy:
+      'Steam is limiting requests; wait a few minutes before publishing again.',
+  },
+  'file-too-large': {
+    category: 'quota',
+    retryable: false,
+    remedy:
+      'Reduce the size of the mod content or preview image (previews must be under 1 MB).',
+  },
+  'quota-exceeded': {
+    category: 'quota',
+    retryable: false,
+    remedy:
+      'Your Workshop storage quota is full; delete unused items or reduce file sizes.',
+  },
+  'invalid-package': {
+    category: 'validation',
+    retryable: false,
+    remedy: 'Fix the reported package problems and upload again.',
+  },
+  'invalid-input': {
+    category: 'validation',
+    retryable: false,
+  },
+  'version-not-increased': {
+    category: 'validation',
+    retryable: false,
+    remedy:
+      'Raise the version in mod.js or package.json, or pass --allow-same-version to publish it anyway.',
+  },
+  'item-not-found': {
+    category: 'validation',
+    retryable: false,
+    remedy:
+      'Check the workshop ID and that the item belongs to the signed-in Steam account.',
+  },
+  'access-denied': {
+    category: 'permission',
+    retryable: false,
+    remedy:
+      'Sign in to the Steam account that owns the item, and check that the item or account is not locked.',
+  },
+  unknown: {
+    category: 'unknown',
+    retryable: false,
+  },
+};
+
+// First match wins, so the more specific patterns come first
+const ERROR_PATTERNS: [WorkshopErrorCode, RegExp][] = [
+  ['not-logged-in', /user not logged on|not logged in|notloggedon/],
+  [
+    'steam-not-running',
+    /steam is not (connected|initialized)|steam is probably not running/,
+  ],
+  ['item-not-found', /workshop item \d+ was not found/],
+  [
+    'access-denied',
+    /access ?denied|insufficient ?privilege|not the owner|banned/,
+  ],
+  ['rate-limited', /rate ?limit|limit ?exceeded|too many requests/],
+  ['quota-exceeded', /quota/],
+  ['file-too-large', /too ?large|exceeds the maximum/],
+  ['service-unavailable', /busy|service ?unavailable|try again/],
+  ['timeout', /timeout|timed out/],
+  ['network-error', /network|econnreset|econnrefused|enotfound|no ?connection/],
+];
+
+const NOT_LOGGED_IN_MESSAGE = 'Steam user is not logged in.';
+
+export class WorkshopError extends Error {
+  readonly code: WorkshopErrorCode;
+  readonly category: WorkshopErrorCategory;
+  readonly retryable: boolean;
+  readonly remedy?: string;
+
+  constructor(code: WorkshopErrorCode, message: string) {
+    super(message);
+    this.name = 'WorkshopError';
+    this.code = code;
+    const details = ERROR_CODES[code];
+    this.category = details.category;
+    this.retryable = details.retryable;
+    this.remedy = details.remedy;
+  }
+}
+
+export function classifyWorkshopError(errorMessage: string): WorkshopErrorCode {
+  const message = errorMessage.toLowerCase();
+  const match = ERROR_PATTERNS.find(([, pattern]) => pattern.test(message));
+  return match ? match[0] : 'unknown';
+}
+
+/**
+ * Turn anything thrown by Steam, a backend or the uploader into a
+ * WorkshopError, keeping the code of errors that already have one
+ */
+export function normalizeWorkshopError(error: unknown): WorkshopError {
+  if (error instanceof WorkshopError) {
+    return error;
+  }
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const code = classifyWorkshopError(errorMessage);
+  const normalized = new WorkshopError(
+    code,
+    code === 'not-logged-in' ? NOT_LOGGED_IN_MESSAGE : errorMessage,
+  );
+  if (error instanceof Error && error.stack) {
+    normalized.stack = error.stack;
+  }
+  return normalized;
+}
+
+/**
+ * The error message followed by its remedy, for places that show one string
+ */
+export function formatWorkshopError(error: WorkshopError): string {
+  if (!error.remedy) {
+    return error.message;
+  }
+  const message = /[.!?]$/.test(error.message)
+    ? error.message
+    : `${error.message}.`;
+  return `${message} ${error.remedy}`;
+}
+
+/**
+ * Serializable fields for JSON output and IPC results
+ */
+export function toWorkshopErrorInfo(error: WorkshopError): WorkshopErrorInfo {
+  return {
+    code: error.code,
+    category: error.category,
+    message: error.message,
+    retryable: error.retryable,
+    remedy: error.remedy,
+  };
+}
+
+/**
+ * Exponential backoff: baseDelay, 2x, 4x, ... capped at maxDelay
+ */
+export function getRetryDelay(attempt: number): number {
+  return Math.min(
+    config.retry.maxDelay,
+    config.retry.baseDelay * 2 ** (attempt - 1),
+  );
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done);
+  });
+}
+
+export interface WorkshopRetryOptions {
+  maxAttempts?: number;
+  signal?: AbortSignal; // Stops waiting and retrying once aborted
+  // Called before waiting to retry, e.g. so callers watching for
+  // inactivity know the call is still going
+  onRetry?: (retry: WorkshopRetry) => void;
+}
+
+export interface WorkshopRetry {
+  attempt: number; // The attempt that failed
+  maxAttempts: number;
+  delay: number; // ms until the next attempt
+  error: WorkshopError;
+}
+
+/**
+ * Run a Workshop call, retrying retryable failures with exponential backoff.
+ * Throws the last failure as a WorkshopError.
+ */
+export async function withWorkshopRetry<T>(
+  label: string,
+  operation: () => Promise<T>,
+  options: WorkshopRetryOptions = {},
+): Promise<T> {
+  const maxAttempts = options.maxAttempts ?? config.retry.maxAttempts;
+
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await operation();
+    } catch (error) {
+      const workshopError = normalizeWorkshopError(error);
+      if (
+        !workshopError.retryable ||
+        attempt >= maxAttempts ||
+        options.signal?.aborted
+      ) {
+        throw workshopError;
+      }
+
+      const delay = getRetryDelay(attempt);
+      console.warn(
+        `${label} failed (${workshopError.code}, attempt ${attempt}/${maxAttempts}), retrying in ${delay / 1000}s: ${workshopError.message}`,
+      );
+      options.onRetry?.({
+        attempt,
+        maxAttempts,
+        delay,
+        error: workshopError,
+      });
+      await sleep(delay, options.signal);
+      if (options.signal?.aborted) {
+        throw workshopError;
+      }
+    }
+  }
+}
@@ -0,0 +1,395 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yazl from 'yazl';
+import { afterAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  UploadProgressEvent,
+  WorkshopBackendCapabilities,
+} from '../../src/types';
+
+const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workshop-service-'));
+
+vi.mock('electron', () => ({
+  app: { getPath: () => path.join(tempDir, 'userData') },
+}));
+
+import {
+  createFakeWorkshopBackend,
+  FAKE_BACKEND_CAPABILITIES,
+} from './fake-backend';
+import { WorkshopBackend } from './workshop-backend';
+import { WorkshopError } from './workshop-errors';
+import {
+  buildUploadPlan,
+  queryPublishedWorkshopItems,
+  uploadWorkshopItem,
+  WorkshopItemsRetryProgress,
+} from './workshop-service';
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+let zipCount = 0;
+
+async function writeModZip(
+  metadata: Record<string, unknown> = {},
+): Promise<string> {
+  const zipPath = path.join(tempDir, `mod-${++zipCount}.zip`);
+  const zip = new yazl.ZipFile();
+  const getMetadata = JSON.stringify({
+    name: 'test-mod',
+    version: '1.0.0',
+    description: 'A test mod',
+    ...metadata,
+  });
+  zip.addBuffer(
+    Buffer.from(`export function getMetadata() { return ${getMetadata}; }`),
+    'mod.js',
+  );
+  zip.end();
+  await new Promise<void>((resolve, reject) => {
+    zip.outputStream
+      .pipe(fs.createWriteStream(zipPath))
+      .on('close', resolve)
+      .on('error', reject);
+  });
+  return zipPath;
+}
+
+// A backend that can only set the item's own fields
+const LIMITED_BACKEND: WorkshopBackendCapabilities = {
+  name: 'steam',
+  supportsAdditionalPreviews: false,
+  supportsDependencies: false,
+  supportsLocalizations: false,
+};
+
+let backend: WorkshopBackend;
+
+beforeEach(() => {
+  backend = createFakeWorkshopBackend(
+    fs.mkdtempSync(path.join(tempDir, 'items-')),
+  );
+});
+
+describe('buildUploadPlan', () => {
+  it('resolves what a new item is created with', () => {
+    const plan = buildUploadPlan({
+      title: 'My Mod',
+      description: 'About it',
+      tags: 'Items, quests',
+      changeNotes: 'First release',
+    });
+    expect(plan).toMatchObject({
+      action: 'create',
+      tags: ['Items', 'Quests'],
+      visibility: { value: 'public', source: 'default' },
+      updateDetails: {
+        title: 'My Mod',
+        description: 'About it',
+        changeNote: 'First release',
+      },
+    });
+  });
+
+  it('maps aliases and refuses tags the game does not have', () => {
+    const plan = buildUploadPlan({
+      title: 'My Mod',
+      description: '',
+      tags: 'Alternative Start, music',
+    });
+    expect(plan.tags).toEqual(['Character Creation', 'Audio']);
+    expect(plan.warnings).toHaveLength(2);
+
+    expect(() =>
+      buildUploadPlan({
+        title: 'My Mod',
+        description: '',
+        tags: 'Items, Lore',
+      }),
+    ).toThrow(
+      expect.objectContaining({
+        code: 'invalid-input',
+        message: expect.stringContaining('Lore'),
+      }),
+    );
+  });
+
+  it('publishes unknown tags as written when allowed', () => {
+    const plan = buildUploadPlan({
+      title: 'My Mod',
+      description: '',
+      tags: 'Items, Lore',
+      allowUnknownTags: true,
+    });
+    expect(plan.tags).toEqual(['Items', 'Lore']);
+    expect(plan.warnings).toContainEqual(expect.stringContaining('"Lore"'));
+  });
+
+  it('leaves unset fields of an update alone', () => {
+    const plan = buildUploadPlan({
+      title: '',
+      description: '',
+      workshopId: ' 42 ',
+    });
+    expect(plan.action).toBe('update');
+    expect(plan.workshopId).toBe('42');
+    expect(plan.updateDetails).toEqual({});
+    expect(plan.tags).toBeUndefined();
+    expect(plan.visibility).toBeUndefined();
+  });
+
+  it('warns about files that are missing', () => {
+    const plan = buildUploadPlan({
+      title: 'My Mod',
+      description: '',
+      zipPath: path.join(tempDir, 'missing.zip'),
+      previewImagePath: path.join(tempDir, 'missing.png'),
+    });
+    expect(plan.previewPath).toBeUndefined();
+    expect(plan.warnings).toHaveLength(2);
+  });
+
+  it('rejects bad workshop IDs and video links', () => {
+    expect(() =>
+      buildUploadPlan({ title: '', description: '', workshopId: '12a' }),
+    ).toThrow(WorkshopError);
+    expect(() =>
+      buildUploadPlan(
+        {
+          title: 'My Mod',
+          description: '',
+          additionalPreviews: [{ type: 'video', videoId: 'not a video' }],
+        },
+        FAKE_BACKEND_CAPABILITIES,
+      ),
+    ).toThrow(/Invalid YouTube video/);
+  });
+
+  it('refuses changes the backend cannot publish', () => {
+    expect(() =>
+      buildUploadPlan(
+        {
+          title: 'My Mod',
+          description: '',
+          additionalPreviews: [{ type: 'video', videoId: 'dQw4w9WgXcQ' }],
+        },
+        LIMITED_BACKEND,
+      ),
+    ).toThrow(expect.objectContaining({ code: 'invalid-input' }));
+    expect(() =>
+      buildUploadPlan(
+        {
+          title: 'My Mod',
+          description: '',
+          localizations: { german: { title: 'Mein Mod' } },
+        },
+        LIMITED_BACKEND,
+      ),
+    ).toThrow(/German/);
+  });
+});
+
+describe('uploadWorkshopItem with the fake backend', () => {
+  it('creates an item and reports each stage', async () => {
+    const stages: UploadProgressEvent['stage'][] = [];
+    const created: string[] = [];
+    const result = await uploadWorkshopItem(
+      {
+        title: 'My Mod',
+        description: 'About it',
+        tags: 'Items',
+        visibility: 'friends',
+        zipPath: await writeModZip(),
+        changeNotes: 'First release',
+      },
+      {
+        backend,
+        onProgress: (progress) => stages.push(progress.stage),
+        onItemCreated: (id) => {
+          created.push(id);
+        },
+      },
+    );
+
+    expect(result).toMatchObject({ success: true, publishedFileId: '1' });
+    expect(created).toEqual(['1']);
+    expect(stages).toContain('creating-item');
+    expect(stages).toContain('uploading-content');
+    expect(stages[stages.length - 1]).toBe('complete');
+
+    const item = await backend.getItem(1n);
+    expect(item).toMatchObject({
+      title: 'My Mod',
+      description: 'About it',
+      tags: ['Items'],
+      visibility: 1,
+    });
+  });
+
+  it('updates only what is given', async () => {
+    await uploadWorkshopItem(
+      {
+        title: 'My Mod',
+        description: 'About it',
+        tags: 'Items',
+        zipPath: await writeModZip(),
+      },
+      { backend },
+    );
+    await uploadWorkshopItem(
+      {
+        title: 'Renamed',
+        description: '',
+        workshopId: '1',
+        zipPath: await writeModZip({ version: '1.1.0' }),
+      },
+      { backend },
+    );
+
+    const item = await backend.getItem(1n);
+    expect(item).toMatchObject({
+      title: 'Renamed',
+      description: 'About it',
+      tags: ['Items'],
+    });
+  });
+
+  it('plans without touching the backend on a dry run', async () => {
+    const result = await uploadWorkshopItem(
+      {
+        title: 'My Mod',
+        description: '',
+        zipPath: await writeModZip(),
+      },
+      { backend, dryRun: true },
+    );
+
+    expect(result).toMatchObject({ success: true, dryRun: true });
+    expect(result.plan).toMatchObject({
+      action: 'create',
+      validation: { valid: true },
+    });
+    expect((await backend.getUserItems(1)).totalResults).toBe(0);
+  });
+
+  it('fails with a classified error when the item does not exist', async () => {
+    await expect(
+      uploadWorkshopItem(
+        { title: 'My Mod', description: '', workshopId: '99' },
+        { backend },
+      ),
+    ).rejects.toMatchObject({ code: 'item-not-found' });
+  });
+
+  it('refuses packages that fail validation before creating anything', async () => {
+    await expect(
+      uploadWorkshopItem(
+        {
+          title: 'My Mod',
+          description: '',
+          zipPath: await writeModZip({ name: undefined }),
+        },
+        { backend },
+      ),
+    ).rejects.toMatchObject({ code: 'invalid-package' });
+    expect((await backend.getUserItems(1)).totalResults).toBe(0);
+  });
+
+  it('still publishes versions that are not semver, with a warning', async () => {
+    const result = await uploadWorkshopItem(
+      {
+        title: 'My Mod',
+        description: '',
+        zipPath: await writeModZip({ version: 'v2' }),
+      },
+      { backend, dryRun: true },
+    );
+    expect(result.plan?.validation?.valid).toBe(true);
+    expect(result.plan?.warnings).toContainEqual(
+      expect.stringContaining('[invalid-version]'),
+    );
+  });
+
+  it('adds and removes dependencies to match the metadata', async () => {
+    for (const title of ['Core Library', 'Extras']) {
+      await uploadWorkshopItem(
+        { title, description: '', zipPath: await writeModZip() },
+        { backend },
+      );
+    }
+
+    const created = await uploadWorkshopItem(
+      {
+        title: 'My Mod',
+        description: '',
+        zipPath: await writeModZip({ dependencies: ['1', 'Extras'] }),
+      },
+      { backend },
+    );
+    expect(created.publishedFileId).toBe('3');
+    expect(created.dependencySync).toMatchObject({
+      added: ['1', '2'],
+      removed: [],
+    });
+    expect(await backend.getDependencies(3n)).toEqual([1n, 2n]);
+
+    const updated = await uploadWorkshopItem(
+      {
+        title: '',
+        description: '',
+        workshopId: '3',
+        zipPath: await writeModZip({
+          version: '1.1.0',
+          dependencies: ['Extras'],
+        }),
+      },
+      { backend },
+    );
+    expect(updated.dependencySync).toMatchObject({ added: [], removed: ['1'] });
+    expect(await backend.getDependencies(3n)).toEqual([2n]);
+  });
+
+  it('refuses dependencies it cannot resolve before creating anything', async () => {
+    await expect(
+      uploadWorkshopItem(
+        {
+          title: 'My Mod',
+          description: '',
+          zipPath: await writeModZip({ dependencies: ['No Such Mod'] }),
+        },
+        { backend },
+      ),
+    ).rejects.toMatchObject({ code: 'invalid-input' });
+    expect((await backend.getUserItems(1)).totalResults).toBe(0);
+  });
+});
+
+describe('queryPublishedWorkshopItems', () => {
+  it('reports retries of a page before fetching it again', async () => {
+    await uploadWorkshopItem(
+      { title: 'My Mod', description: '', zipPath: await writeModZip() },
+      { backend },
+    );
+    let failures = 1;
+    const flaky: WorkshopBackend = {
+      ...backend,
+      async getUserItems(page) {
+        if (failures-- > 0) throw new Error('Steam is busy, try again');
+        return backend.getUserItems(page);
+      },
+    };
+
+    const retries: WorkshopItemsRetryProgress[] = [];
+    const { items } = await queryPublishedWorkshopItems(flaky, {
+      onRetry: (retry) => retries.push(retry),
+    });
+
+    expect(items.map((item) => item.title)).toEqual(['My Mod']);
+    expect(retries).toEqual([
+      expect.objectContaining({ page: 1, attempt: 1, delay: 1000 }),
+    ]);
+  });
+});
@@ -1,33 +1,69 @@
 import * as fs from 'fs';
+import * as path from 'path';
+import { app } from 'electron';
 import type { BrowserWindow } from 'electron';
-import type { Client } from '@pipelab/steamworks.js';
-import type { ModUploadData, WorkshopUploadResult } from '../../src/types';
+import type {
+  AdditionalPreview,
+  DependencySyncResult,
+  ModPackageResult,
+  ModUploadData,
+  ResolvedDependency,
+  UploadPlan,
+  UploadProgressEvent,
+  UploadStage,
+  WorkshopBackendCapabilities,
+  WorkshopItem,
+  WorkshopLocalizations,
+  WorkshopUploadResult,
+} from '../../src/types';
+import { parseYouTubeVideoId } from '../../src/utils/preview-media';
+import { parseTagList } from '../../src/utils/workshop-diff';
+import { resolveTags } from '../../src/utils/workshop-tags';
+import {
+  getWorkshopLanguageName,
+  isWorkshopLanguage,
+} from '../../src/utils/workshop-languages';
 import { config } from './config';
 import { getSteamClient, initializeSteam, isSteamInitialized } from './steam';
-import { visibilityToUgcVisibility } from './steam-types';
+import {
+  SteamUpdateItemResult,
+  SteamWorkshopItemRaw,
+  ugcVisibilityToString,
+  visibilityToUgcVisibility,
+} from './steam-types';
+import { getWorkshopBackendName, WorkshopBackend } from './workshop-backend';
+import {
+  createSteamWorkshopBackend,
+  getSteamBackendCapabilities,
+} from './steam-backend';
+import {
+  createFakeWorkshopBackend,
+  FAKE_BACKEND_CAPABILITIES,
+} from './fake-backend';
+import { packageModDirectory } from './mod-packager';
+import { formatModName } from './mod-parser';
+import { formatValidationIssues, validateModPackage } from './mod-validator';
+import { checkVersionBump } from './version-guard';
+import { appendUploadHistory, createHistoryEntry } from './upload-history';
+import {
+  normalizeWorkshopError,
+  withWorkshopRetry,
+  WorkshopError,
+} from './workshop-errors';
 
 const WORKSHOP_ID_PATTERN = /^\d+$/;
 
-export function isSteamAuthError(errorMessage: string): boolean {
-  const message = errorMessage.toLowerCase();
-  return (
-    message.includes('user not logged on') ||
-    message.includes('not logged in')
-  );
-}
-
-export function normalizeWorkshopError(error: unknown): Error {
-  const errorMessage =
-    error instanceof Error ? error.message : String(error);
-
-  if (isSteamAuthError(errorMessage)) {
-    return new Error(
-      'Steam user is not logged in. Open Steam and sign in to the account that owns "Ascend from Nine Mountains", then retry.',
-    );
-  }
-
-  return error instanceof Error ? error : new Error(errorMessage);
-}
+const UPLOAD_STAGE_MESSAGES: Record<UploadStage, string> = {
+  packaging: 'Packaging mod folder...',
+  preparing: 'Preparing upload...',
+  'creating-item': 'Creating workshop item...',
+  'preparing-config': 'Preparing item configuration...',
+  'preparing-content': 'Preparing content...',
+  'uploading-content': 'Uploading content...',
+  'uploading-preview': 'Uploading preview image...',
+  committing: 'Committing changes...',
+  complete: 'Upload complete!',
+};
 
 export function parseWorkshopId(
   workshopId: string,
@@ -35,22 +71,64 @@ export function parseWorkshopId(
 ): bigint {
   const normalizedWorkshopId = workshopId.trim();
   if (!WORKSHOP_ID_PATTERN.test(normalizedWorkshopId)) {
-    throw new Error(
+    throw new WorkshopError(
+      'invalid-input',
       `Invalid ${label}. It must be a non-negative integer (digits 0-9 only).`,
     );
   }
   return BigInt(normalizedWorkshopId);
 }
 
-export async function ensureSteamClientReady(
+function getFakeWorkshopDirectory(): string {
+  return (
+    process.env[config.backend.fakeDirectoryEnvVar] ||
+    path.join(app.getPath('userData'), config.backend.fakeDirectoryName)
+  );
+}
+
+/**
+ * What a backend can publish. Without one, the selected backend's - known
+ * without starting Steam, so plans and the editor can refuse changes early.
+ */
+export function getWorkshopBackendCapabilities(
+  backend?: WorkshopBackend,
+): WorkshopBackendCapabilities {
+  if (backend) {
+    const {
+      name,
+      supportsAdditionalPreviews,
+      supportsDependencies,
+      supportsLocalizations,
+    } = backend;
+    return {
+      name,
+      supportsAdditionalPreviews,
+      supportsDependencies,
+      supportsLocalizations,
+    };
+  }
+  return getWorkshopBackendName() === 'fake'
+    ? FAKE_BACKEND_CAPABILITIES
+    : getSteamBackendCapabilities();
+}
+
+/**
+ * Resolve the selected Workshop backend, initializing Steam when needed
+ */
+export async function ensureWorkshopBackendReady(
   mainWindow: BrowserWindow | null,
-): Promise<NonNullable<ReturnType<typeof getSteamClient>>> {
+): Promise<WorkshopBackend> {
+  if (getWorkshopBackendName() === 'fake') {
+    return createFakeWorkshopBackend(getFakeWorkshopDirectory());
+  }
+
   let steamClient = getSteamClient();
 
   if (!steamClient || !isSteamInitialized()) {
     const initialized = await initializeSteam(mainWindow);
     if (!initialized) {
-      throw new Error(
+      throw new WorkshopError(
+        'steam-not-running',
         'Steam is not connected. Please make sure Steam is running and logged in.',
       );
     }
@@ -58,7 +136,8 @@ export async function ensureSteamClientReady(
   }
 
   if (!steamClient || !isSteamInitialized()) {
-    throw new Error(
+    throw new WorkshopError(
+      'steam-not-running',
       'Steam is not connected. Please make sure Steam is running and logged in.',
     );
   }
@@ -70,94 +149,475 @@ export async function ensureSteamClientReady(
     throw normalizeWorkshopError(error);
   }
 
-  return steamClient;
+  return createSteamWorkshopBackend(steamClient);
 }
 
 export interface UploadWorkshopOptions {
   mainWindow?: BrowserWindow | null;
+  backend?: WorkshopBackend; // Defaults to the selected backend
   openWorkshopPage?: boolean;
+  onProgress?: (progress: UploadProgressEvent) => void;
+  // Runs right after createItem, before content is uploaded
+  onItemCreated?: (publishedFileId: string) => void | Promise<void>;
+  dryRun?: boolean;
+  // Fail instead of warning when an update doesn't raise the mod version
+  requireVersionBump?: boolean;
 }
 
-export async function uploadWorkshopItem(
-  modData: ModUploadData,
-  options: UploadWorkshopOptions = {},
-): Promise<WorkshopUploadResult> {
+function getFileSize(filePath: string): number | undefined {
   try {
-    const steamClient = await ensureSteamClientReady(options.mainWindow ?? null);
+    return fs.statSync(filePath).size;
+  } catch {
+    return undefined;
+  }
+}
 
-    const {
-      zipPath,
-      title,
-      description,
-      tags,
-      visibility,
-      previewImagePath,
-    } = modData;
-    const changeNotes = modData.changeNotes || modData.change_note;
-    const workshopItemId =
-      modData.workshopId == null
-        ? undefined
-        : parseWorkshopId(modData.workshopId);
-    const workshopId = workshopItemId?.toString();
+/**
+ * Check extra screenshots and videos, normalizing video links to IDs.
+ * Missing screenshot files are skipped like a missing main preview.
+ */
+function resolveAdditionalPreviews(
+  previews: AdditionalPreview[],
+  warnings: string[],
+): AdditionalPreview[] {
+  const resolved: AdditionalPreview[] = [];
+
+  for (const preview of previews) {
+    if (preview.type === 'video') {
+      const videoId = parseYouTubeVideoId(preview.videoId);
+      if (!videoId) {
+        throw new WorkshopError(
+          'invalid-input',
+          `Invalid YouTube video ID or link: ${preview.videoId}`,
+        );
+      }
+      resolved.push({ type: 'video', videoId });
+    } else if (preview.path) {
+      if (fs.existsSync(preview.path)) {
+        resolved.push({ type: 'image', path: preview.path });
+      } else {
+        warnings.push(
+          `Screenshot not found and will be skipped: ${preview.path}`,
+        );
+      }
+    } else if (preview.url) {
+      resolved.push({ type: 'image', url: preview.url });
+    } else {
+      throw new WorkshopError(
+        'invalid-input',
+        'Screenshot previews need a file path or an existing URL',
+      );
+    }
+  }
 
-    const updateDetails: Parameters<Client['workshop']['updateItem']>[1] = {};
+  return resolved;
+}
+
+/**
+ * Map tags onto the game's Workshop tags (config.tags), warning about the
+ * ones it renames. Unknown tags fail unless allowUnknown is set, in which
+ * case they are published as written with a warning.
+ */
+function resolveWorkshopTags(
+  tags: string[],
+  warnings: string[],
+  allowUnknown = false,
+): string[] {
+  const resolved = resolveTags(tags, config.tags);
+  if (resolved.unknown.length > 0 && !allowUnknown) {
+    throw new WorkshopError(
+      'invalid-input',
+      `Not Workshop tags of the game: ${resolved.unknown.join(', ')}. Use one of: ${config.tags.allowed.join(', ')}`,
+    );
+  }
+  for (const { from, to } of resolved.mapped) {
+    warnings.push(`Tag "${from}" is published as "${to}"`);
+  }
+  for (const tag of resolved.unknown) {
+    warnings.push(
+      `Tag "${tag}" is not one of the game's Workshop tags (config.tags); it is published as written`,
+    );
+  }
+  return resolved.tags;
+}
+
+/**
+ * Check per-language text against Steam's languages and limits, dropping
+ * languages with nothing to set
+ */
+function resolveLocalizations(
+  localizations: WorkshopLocalizations,
+): WorkshopLocalizations | undefined {
+  const resolved: WorkshopLocalizations = {};
 
-    if (title) {
-      updateDetails.title = title;
+  for (const [language, text] of Object.entries(localizations)) {
+    if (!isWorkshopLanguage(language)) {
+      throw new WorkshopError(
+        'invalid-input',
+        `Unknown Steam language code: ${language}`,
+      );
+    }
+    const name = getWorkshopLanguageName(language);
+    if (text.title && text.title.length > config.steam.maxTitleLength) {
+      throw new WorkshopError(
+        'invalid-input',
+        `${name} title is longer than ${config.steam.maxTitleLength} characters`,
+      );
     }
+    if (
+      text.description &&
+      text.description.length > config.steam.maxDescriptionLength
+    ) {
+      throw new WorkshopError(
+        'invalid-input',
+        `${name} description is longer than ${config.steam.maxDescriptionLength} characters`,
+      );
+    }
+    if (text.title || text.description) {
+      resolved[language] = {
+        ...(text.title ? { title: text.title } : {}),
+        ...(text.description ? { description: text.description } : {}),
+      };
+    }
+  }
+
+  return Object.keys(resolved).length > 0 ? resolved : undefined;
+}
+
+/**
+ * Resolve the exact update Steam would receive for modData, without Steam.
+ * Changes the backend cannot publish are refused here, so dry runs fail too.
+ */
+export function buildUploadPlan(
+  modData: ModUploadData,
+  capabilities: WorkshopBackendCapabilities = getWorkshopBackendCapabilities(),
+): UploadPlan {
+  const { zipPath, title, description, tags, visibility, previewImagePath } =
+    modData;
+  const changeNotes = modData.changeNotes || modData.change_note;
+  const workshopItemId =
+    modData.workshopId == null
+      ? undefined
+      : parseWorkshopId(modData.workshopId);
+  const workshopId = workshopItemId?.toString();
+
+  const plan: UploadPlan = {
+    action: workshopId ? 'update' : 'create',
+    workshopId,
+    updateDetails: {},
+    warnings: [],
+  };
+  const { updateDetails } = plan;
+
+  if (title) {
+    updateDetails.title = title;
+  }
+
+  if (description) {
+    updateDetails.description = description;
+  }
+
+  if (tags) {
+    updateDetails.tags = resolveWorkshopTags(
+      parseTagList(tags),
+      plan.warnings,
+      modData.allowUnknownTags,
+    );
+    plan.tags = updateDetails.tags;
+  }
+
+  if (visibility) {
+    updateDetails.visibility = visibilityToUgcVisibility(visibility);
+    plan.visibility = {
+      value: visibility,
+      ugcVisibility: updateDetails.visibility,
+      source: 'explicit',
+    };
+  } else if (!workshopId) {
+    // Keep CLI and GUI creation flows aligned when no visibility is provided.
+    updateDetails.visibility = visibilityToUgcVisibility('public');
+    plan.visibility = {
+      value: 'public',
+      ugcVisibility: updateDetails.visibility,
+      source: 'default',
+    };
+  }
 
-    if (description) {
-      updateDetails.description = description;
+  if (zipPath) {
+    updateDetails.contentPath = zipPath;
+    plan.contentPath = zipPath;
+    plan.contentSize = getFileSize(zipPath);
+    if (plan.contentSize === undefined) {
+      plan.warnings.push(`Content file not found: ${zipPath}`);
     }
+  }
+
+  if (previewImagePath && fs.existsSync(previewImagePath)) {
+    updateDetails.previewPath = previewImagePath;
+    plan.previewPath = previewImagePath;
+    plan.previewSize = getFileSize(previewImagePath);
+  } else if (previewImagePath) {
+    plan.warnings.push(
+      `Preview image not found and will be skipped: ${previewImagePath}`,
+    );
+  }
 
-    if (tags) {
-      updateDetails.tags = tags
-        .split(',')
-        .map((tag) => tag.trim())
-        .filter((tag) => tag.length > 0);
+  if (modData.additionalPreviews && !capabilities.supportsAdditionalPreviews) {
+    throw new WorkshopError(
+      'invalid-input',
+      `The ${capabilities.name} workshop backend cannot change additional screenshots or videos; manage them on the Workshop page`,
+    );
+  }
+  if (modData.additionalPreviews) {
+    updateDetails.additionalPreviews = resolveAdditionalPreviews(
+      modData.additionalPreviews,
+      plan.warnings,
+    );
+  }
+
+  if (modData.localizations) {
+    const localizations = resolveLocalizations(modData.localizations);
+    if (localizations && !capabilities.supportsLocalizations) {
+      const languages = Object.keys(localizations)
+        .map(getWorkshopLanguageName)
+        .join(', ');
+      throw new WorkshopError(
+        'invalid-input',
+        `The ${capabilities.name} workshop backend cannot set per-language text; leave out the ${languages} title and description and add them on the Workshop page`,
+      );
     }
+    if (localizations) {
+      updateDetails.localizations = localizations;
+    }
+  }
+
+  if (changeNotes) {
+    updateDetails.changeNote = changeNotes;
+  }
+
+  return plan;
+}
 
-    if (visibility) {
-      updateDetails.visibility = visibilityToUgcVisibility(visibility);
-    } else if (!workshopId) {
-      // Keep CLI and GUI creation flows aligned when no visibility is provided.
-      updateDetails.visibility = visibilityToUgcVisibility('public');
+function createProgressEvent(
+  stage: UploadStage,
+  bytesProcessed?: number,
+  bytesTotal?: number,
+): UploadProgressEvent {
+  const event: UploadProgressEvent = {
+    stage,
+    message: UPLOAD_STAGE_MESSAGES[stage],
+  };
+  if (bytesTotal && bytesTotal > 0) {
+    event.bytesProcessed = bytesProcessed ?? 0;
+    event.bytesTotal = bytesTotal;
+    event.percent = Math.min(
+      100,
+      Math.round((event.bytesProcessed / bytesTotal) * 100),
+    );
+  }
+  return event;
+}
+
+/**
+ * Update an item through the backend, forwarding only progress changes
+ * (Steam polls its status on an interval and repeats itself). Transient
+ * failures are retried; an update sends the whole item again, so that is safe.
+ */
+function updateItemWithProgress(
+  backend: WorkshopBackend,
+  itemId: bigint,
+  updateDetails: UploadPlan['updateDetails'],
+  onProgress: (progress: UploadProgressEvent) => void,
+): Promise<SteamUpdateItemResult> {
+  return withWorkshopRetry(`Updating workshop item ${itemId}`, () => {
+    let lastEvent = '';
+    return backend.updateItem(itemId, updateDetails, (progress) => {
+      const event = createProgressEvent(
+        progress.stage,
+        progress.bytesProcessed,
+        progress.bytesTotal,
+      );
+      const key = `${event.stage}:${event.bytesProcessed ?? ''}`;
+      if (key !== lastEvent) {
+        lastEvent = key;
+        onProgress(event);
+      }
+    });
+  });
+}
+
+export async function uploadWorkshopItem(
+  modData: ModUploadData,
+  options: UploadWorkshopOptions = {},
+): Promise<WorkshopUploadResult> {
+  const reportProgress = (progress: UploadProgressEvent) => {
+    try {
+      options.onProgress?.(progress);
+    } catch (listenerError) {
+      console.warn('Upload progress listener failed:', listenerError);
     }
+  };
 
-    if (zipPath) {
-      updateDetails.contentPath = zipPath;
+  let plan: UploadPlan | undefined;
+  let backend: WorkshopBackend | undefined;
+  let publishedFileId: string | undefined;
+  let needsToAcceptAgreement = false;
+
+  // Every real attempt that got as far as a plan is kept in the local history
+  const recordHistory = async (error?: string) => {
+    if (!plan || options.dryRun) return;
+    try {
+      const entry = await createHistoryEntry(plan, {
+        backend: backend?.name ?? getWorkshopBackendName(),
+        publishedFileId,
+        error,
+      });
+      await appendUploadHistory(entry);
+    } catch (historyError) {
+      console.warn('Could not record upload history:', historyError);
+    }
+  };
+
+  try {
+    let contentPackage: ModPackageResult | undefined;
+    if (modData.modDirectory && !modData.zipPath) {
+      reportProgress(createProgressEvent('packaging'));
+      contentPackage = await packageModDirectory(
+        modData.modDirectory,
+        modData.packageOptions,
+      );
+      modData = { ...modData, zipPath: contentPackage.zipPath };
+    }
+
+    const capabilities = getWorkshopBackendCapabilities(options.backend);
+    plan = buildUploadPlan(modData, capabilities);
+    plan.contentPackage = contentPackage;
+
+    if (plan.contentPath) {
+      const validation = await validateModPackage(plan.contentPath);
+      if (!validation.valid) {
+        throw new WorkshopError(
+          'invalid-package',
+          [
+            'Mod package failed validation:',
+            ...formatValidationIssues(validation.issues),
+          ].join('\n'),
+        );
+      }
+      plan.validation = validation;
+      plan.dependencies = validation.metadata?.dependencies;
+      plan.warnings.push(...formatValidationIssues(validation.issues));
+
+      if (plan.workshopId) {
+        plan.versionCheck = await checkVersionBump(
+          plan.workshopId,
+          validation.metadata?.version,
+        );
+        const { message } = plan.versionCheck;
+        if (message && options.requireVersionBump) {
+          throw new WorkshopError('version-not-increased', message);
+        }
+        if (message) {
+          plan.warnings.push(message);
+        }
+      }
     }
 
-    if (previewImagePath && fs.existsSync(previewImagePath)) {
-      updateDetails.previewPath = previewImagePath;
+    // Nothing to resolve them for when the backend can't set them
+    if (plan.dependencies?.length && !capabilities.supportsDependencies) {
+      const warning = `The ${capabilities.name} workshop backend cannot set required items; add ${plan.dependencies.join(', ')} on the Workshop page`;
+      console.warn(warning);
+      plan.warnings.push(warning);
     }
 
-    if (changeNotes) {
-      updateDetails.changeNote = changeNotes;
+    if (options.dryRun) {
+      console.log('Dry run - resolved upload plan:', plan);
+      return {
+        success: true,
+        publishedFileId: plan.workshopId,
+        dryRun: true,
+        plan,
+      };
     }
 
-    let publishedFileId: string;
+    reportProgress(createProgressEvent('preparing'));
+    backend =
+      options.backend ??
+      (await ensureWorkshopBackendReady(options.mainWindow ?? null));
+    const { updateDetails } = plan;
+    // Resolve dependencies before publishing so a bad reference fails early
+    let dependencies: ResolvedDependency[] | undefined;
+    if (plan.dependencies && backend.supportsDependencies) {
+      dependencies = await resolveModDependencies(backend, plan.dependencies);
+      const unresolved = dependencies.filter((dependency) => dependency.error);
+      if (unresolved.length > 0) {
+        throw new WorkshopError(
+          'invalid-input',
+          [
+            'Could not resolve mod dependencies:',
+            ...unresolved.map(
+              (dependency) => `${dependency.reference}: ${dependency.error}`,
+            ),
+          ].join('\n'),
+        );
+      }
+
+      const dependencyWarnings = dependencies
+        .filter((dependency) => dependency.visibility === 'private')
+        .map(
+          (dependency) =>
+            `Dependency "${dependency.title}" (${dependency.publishedFileId}) is private, so subscribers cannot download it`,
+        );
+      for (const warning of dependencyWarnings) {
+        console.warn(warning);
+      }
+      plan.warnings.push(...dependencyWarnings);
+    }
+    const workshopItemId =
+      plan.workshopId === undefined ? undefined : BigInt(plan.workshopId);
 
-    if (!workshopId) {
+    if (workshopItemId === undefined) {
       console.log('Creating new workshop item...');
-      const createResult = await steamClient.workshop.createItem(config.appId);
+      reportProgress(createProgressEvent('creating-item'));
+      // Not retried: a create that timed out may still have made an item
+      const createResult = await backend.createItem();
 
       publishedFileId = createResult.itemId.toString();
+      needsToAcceptAgreement = createResult.needsToAcceptAgreement;
       console.log('Workshop item created successfully:', publishedFileId);
 
+      try {
+        await options.onItemCreated?.(publishedFileId);
+      } catch (listenerError) {
+        console.warn('Could not record created workshop item:', listenerError);
+      }
+
       console.log('Updating workshop item with content...');
-      await steamClient.workshop.updateItem(
+      const updateResult = await updateItemWithProgress(
+        backend,
         createResult.itemId,
         updateDetails,
-        config.appId,
+        (progress) => reportProgress({ ...progress, publishedFileId }),
       );
+      needsToAcceptAgreement ||= updateResult.needsToAcceptAgreement;
     } else {
-      publishedFileId = workshopId;
+      publishedFileId = workshopItemId.toString();
       console.log('Updating existing workshop item:', publishedFileId);
-      await steamClient.workshop.updateItem(
+      const updateResult = await updateItemWithProgress(
+        backend,
         workshopItemId,
         updateDetails,
-        config.appId,
+        (progress) => reportProgress({ ...progress, publishedFileId }),
+      );
+      needsToAcceptAgreement = updateResult.needsToAcceptAgreement;
+    }
+
+    let dependencySync: DependencySyncResult | undefined;
+    if (dependencies) {
+      dependencySync = await syncItemDependencies(
+        backend,
+        BigInt(publishedFileId),
+        dependencies,
       );
     }
 
@@ -165,15 +625,24 @@ export async function uploadWorkshopItem(
       success: true,
       publishedFileId,
       error: undefined,
+      contentPackage,
+      needsToAcceptAgreement,
+      dependencySync,
     };
 
     console.log('Workshop upload completed successfully:', publishedFileId);
+    if (needsToAcceptAgreement) {
+      // Steam accepts the upload but keeps the item hidden from everyone else
+      console.warn(
+        `Workshop item ${publishedFileId} stays hidden until the Steam Workshop legal agreement is accepted: ${config.steam.workshopAgreementUrl}`,
+      );
+    }
+    reportProgress({ ...createProgressEvent('complete'), publishedFileId });
+    await recordHistory();
 
     if (options.openWorkshopPage) {
       try {
-        steamClient.overlay.activateToWebPage(
-          `steam://url/CommunityFilePage/${publishedFileId}`,
-        );
+        backend.openWorkshopPage(publishedFileId);
         console.log('Opened Steam Workshop page for item:', publishedFileId);
       } catch (overlayError) {
         console.warn(
@@ -187,6 +656,252 @@ export async function uploadWorkshopItem(
   } catch (error) {
     const normalizedError = normalizeWorkshopError(error);
     console.error('Workshop upload error:', normalizedError);
+    await recordHistory(normalizedError.message);
     throw normalizedError;
   }
 }
+
+export function toWorkshopItem(item: SteamWorkshopItemRaw): WorkshopItem {
+  return {
+    publishedFileId: item.publishedFileId.toString(),
+    title: item.title,
+    description: item.description,
+    tags: item.tags || [],
+    visibility: ugcVisibilityToString(item.visibility),
+    createdDate: item.timeCreated,
+    updatedDate: item.timeUpdated,
+    subscriptions: Number(item.statistics?.numSubscriptions || 0),
+    favorited: Number(item.statistics?.numFavorites || 0),
+    views: Number(item.statistics?.numUniqueWebsiteViews || 0),
+    additionalPreviews: item.additionalPreviews,
+  };
+}
+
+export interface WorkshopItemsPageProgress {
+  page: number;
+  items: WorkshopItem[];
+  loaded: number;
+  totalResults: number;
+}
+
+export interface WorkshopItemsRetryProgress {
+  page: number;
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  message: string;
+}
+
+export interface QueryWorkshopItemsOptions {
+  signal?: AbortSignal;
+  onPage?: (progress: WorkshopItemsPageProgress) => void;
+  onRetry?: (retry: WorkshopItemsRetryProgress) => void;
+}
+
+/**
+ * Fetch every page of the user's published items until totalResults is reached
+ */
+export async function queryPublishedWorkshopItems(
+  backend: WorkshopBackend,
+  options: QueryWorkshopItemsOptions = {},
+): Promise<{ items: WorkshopItem[]; totalResults: number }> {
+  const items: WorkshopItem[] = [];
+  let loaded = 0;
+  let totalResults = 0;
+
+  for (let page = 1; page <= config.workshopItems.maxPages; page++) {
+    if (options.signal?.aborted) {
+      throw new Error('Workshop items query was cancelled');
+    }
+
+    const result = await withWorkshopRetry(
+      `Loading workshop items page ${page}`,
+      () => backend.getUserItems(page),
+      {
+        signal: options.signal,
+        onRetry: ({ attempt, maxAttempts, delay, error }) =>
+          options.onRetry?.({
+            page,
+            attempt,
+            maxAttempts,
+            delay,
+            message: error.message,
+          }),
+      },
+    );
+    if (options.signal?.aborted) {
+      throw new Error('Workshop items query was cancelled');
+    }
+
+    const pageItems = result.items
+      .filter((item) => item != null)
+      .map(toWorkshopItem);
+    items.push(...pageItems);
+    loaded += result.numReturned;
+    totalResults = result.totalResults;
+
+    console.log(
+      `Loaded workshop items page ${page}: ${loaded}/${totalResults}`,
+    );
+    options.onPage?.({ page, items: pageItems, loaded, totalResults });
+
+    if (result.numReturned === 0 || loaded >= totalResults) {
+      break;
+    }
+  }
+
+  return { items, totalResults };
+}
+
+/**
+ * Fetch a single published item (with its full description) by ID
+ */
+export async function getWorkshopItem(
+  workshopId: string,
+  mainWindow: BrowserWindow | null = null,
+): Promise<WorkshopItem> {
+  const itemId = parseWorkshopId(workshopId);
+
+  try {
+    const backend = await ensureWorkshopBackendReady(mainWindow);
+    const item = await withWorkshopRetry(
+      `Loading workshop item ${workshopId}`,
+      () => backend.getItem(itemId),
+    );
+    if (!item) {
+      throw new WorkshopError(
+        'item-not-found',
+        `Workshop item ${workshopId} was not found`,
+      );
+    }
+    return toWorkshopItem(item);
+  } catch (error) {
+    throw normalizeWorkshopError(error);
+  }
+}
+
+/**
+ * Permanently delete a published item by ID
+ */
+export async function deleteWorkshopItem(
+  workshopId: string,
+  mainWindow: BrowserWindow | null = null,
+): Promise<void> {
+  const itemId = parseWorkshopId(workshopId);
+
+  try {
+    const backend = await ensureWorkshopBackendReady(mainWindow);
+    console.log('Deleting workshop item:', workshopId);
+    await backend.deleteItem(itemId);
+    console.log('Workshop item deleted successfully');
+  } catch (error) {
+    throw normalizeWorkshopError(error);
+  }
+}
+
+/**
+ * Match declared dependencies to Workshop items: workshop IDs are looked up
+ * directly, anything else by title among the user's published items
+ */
+export async function resolveModDependencies(
+  backend: WorkshopBackend,
+  references: string[],
+): Promise<ResolvedDependency[]> {
+  let publishedItems: WorkshopItem[] | null = null;
+  const resolved: ResolvedDependency[] = [];
+
+  for (const reference of references) {
+    if (/^\d+$/.test(reference)) {
+      const item = await withWorkshopRetry(
+        `Loading dependency ${reference}`,
+        () => backend.getItem(BigInt(reference)),
+      );
+      resolved.push(
+        item
+          ? toResolvedDependency(reference, toWorkshopItem(item))
+          : {
+              reference,
+              publishedFileId: reference,
+              error: 'Workshop item not found',
+            },
+      );
+      continue;
+    }
+
+    publishedItems ??= (await queryPublishedWorkshopItems(backend)).items;
+    const names = [
+      reference.toLowerCase(),
+      formatModName(reference).toLowerCase(),
+    ];
+    const matches = publishedItems.filter((item) =>
+      names.includes(item.title.toLowerCase()),
+    );
+    if (matches.length === 1) {
+      resolved.push(toResolvedDependency(reference, matches[0]));
+    } else {
+      resolved.push({
+        reference,
+        error:
+          matches.length === 0
+            ? 'None of your published items has this title'
+            : `${matches.length} of your published items have this title; use the workshop ID`,
+      });
+    }
+  }
+
+  return resolved;
+}
+
+function toResolvedDependency(
+  reference: string,
+  item: WorkshopItem,
+): ResolvedDependency {
+  return {
+    reference,
+    publishedFileId: item.publishedFileId,
+    title: item.title,
+    visibility: item.visibility,
+  };
+}
+
+/**
+ * Add and remove required items so the live item depends on exactly these
+ */
+async function syncItemDependencies(
+  backend: WorkshopBackend,
+  itemId: bigint,
+  dependencies: ResolvedDependency[],
+): Promise<DependencySyncResult> {
+  const wanted = new Set(
+    dependencies
+      .map((dependency) => dependency.publishedFileId)
+      .filter((id): id is string => id !== undefined),
+  );
+  const current = new Set(
+    (
+      await withWorkshopRetry(`Loading dependencies of ${itemId}`, () =>
+        backend.getDependencies(itemId),
+      )
+    ).map((id) => id.toString()),
+  );
+  const added = [...wanted].filter((id) => !current.has(id));
+  const removed = [...current].filter((id) => !wanted.has(id));
+
+  for (const id of added) {
+    await withWorkshopRetry(`Adding dependency ${id} to ${itemId}`, () =>
+      backend.addDependency(itemId, BigInt(id)),
+    );
+  }
+  for (const id of removed) {
+    await withWorkshopRetry(`Removing dependency ${id} from ${itemId}`, () =>
+      backend.removeDependency(itemId, BigInt(id)),
+    );
+  }
+  if (added.length > 0 || removed.length > 0) {
+    console.log(
+      `Updated dependencies of ${itemId}: added [${added.join(', ')}], removed [${removed.join(', ')}]`,
+    );
+  }
+
+  return { dependencies, added, removed };
+}
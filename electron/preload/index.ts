@@ -1,17 +1,88 @@
 import { contextBridge, ipcRenderer } from 'electron';
-import type { ElectronAPI, ModUploadData } from '../../src/types';
+import type {
+  CatalogueExportOptions,
+  ChangeNoteRequest,
+  ElectronAPI,
+  ModPackageOptions,
+  ModUploadData,
+  UploadJobInput,
+  UploadProgressEvent,
+  UploadQueueState,
+  UploadRequestOptions,
+  WorkshopItem,
+  WorkshopItemsPage,
+  WorkshopItemsRetry,
+  WorkshopItemsQueryOptions,
+} from '../../src/types';
 
 const electronAPI: ElectronAPI = {
   selectZip: () => ipcRenderer.invoke('select-zip'),
+  selectModFolder: () => ipcRenderer.invoke('select-mod-folder'),
+  packageModFolder: (directory: string, options?: ModPackageOptions) =>
+    ipcRenderer.invoke('package-mod-folder', directory, options),
   selectPreviewImage: () => ipcRenderer.invoke('select-preview-image'),
   extractPackageInfo: (zipPath: string) =>
     ipcRenderer.invoke('extract-package-info', zipPath),
-  uploadToWorkshop: (modData: ModUploadData) =>
-    ipcRenderer.invoke('upload-to-workshop', modData),
-  getWorkshopItems: () => ipcRenderer.invoke('get-workshop-items'),
+  validateModPackage: (zipPath: string) =>
+    ipcRenderer.invoke('validate-mod-package', zipPath),
+  resolveDependencies: (references: string[]) =>
+    ipcRenderer.invoke('resolve-dependencies', references),
+  openProject: () => ipcRenderer.invoke('open-project'),
+  composeChangeNotes: (request: ChangeNoteRequest) =>
+    ipcRenderer.invoke('compose-change-notes', request),
+  checkVersionBump: (workshopId: string, version?: string) =>
+    ipcRenderer.invoke('check-version-bump', workshopId, version),
+  getTagVocabulary: () => ipcRenderer.invoke('get-tag-vocabulary'),
+  getWorkshopCapabilities: () =>
+    ipcRenderer.invoke('get-workshop-capabilities'),
+  getUploadHistory: (workshopId?: string) =>
+    ipcRenderer.invoke('get-upload-history', workshopId),
+  getItemStatsHistory: (workshopId: string) =>
+    ipcRenderer.invoke('get-item-stats-history', workshopId),
+  exportWorkshopCatalogue: (
+    items: WorkshopItem[],
+    options: CatalogueExportOptions,
+  ) => ipcRenderer.invoke('export-workshop-catalogue', items, options),
+  uploadToWorkshop: (modData: ModUploadData, options?: UploadRequestOptions) =>
+    ipcRenderer.invoke('upload-to-workshop', modData, options),
+  onUploadProgress: (callback: (progress: UploadProgressEvent) => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      progress: UploadProgressEvent,
+    ) => callback(progress);
+    ipcRenderer.on('upload-progress', listener);
+    return () => {
+      ipcRenderer.removeListener('upload-progress', listener);
+    };
+  },
+  getWorkshopItems: (options?: WorkshopItemsQueryOptions) =>
+    ipcRenderer.invoke('get-workshop-items', options),
+  cancelWorkshopItemsQuery: () =>
+    ipcRenderer.invoke('cancel-workshop-items-query'),
+  onWorkshopItemsPage: (callback: (page: WorkshopItemsPage) => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      page: WorkshopItemsPage,
+    ) => callback(page);
+    ipcRenderer.on('workshop-items-page', listener);
+    return () => {
+      ipcRenderer.removeListener('workshop-items-page', listener);
+    };
+  },
+  onWorkshopItemsRetrying: (callback: (retry: WorkshopItemsRetry) => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      retry: WorkshopItemsRetry,
+    ) => callback(retry);
+    ipcRenderer.on('workshop-items-retrying', listener);
+    return () => {
+      ipcRenderer.removeListener('workshop-items-retrying', listener);
+    };
+  },
   openUrl: (url: string) => ipcRenderer.invoke('open-url', url),
   openSteamWorkshop: (publishedFileId: string) =>
     ipcRenderer.invoke('open-steam-workshop', publishedFileId),
+  openWorkshopAgreement: () => ipcRenderer.invoke('open-workshop-agreement'),
   readFileBase64: (filePath: string) =>
     ipcRenderer.invoke('read-file-base64', filePath),
   deleteWorkshopItem: (publishedFileId: string) =>
@@ -27,26 +98,67 @@ const electronAPI: ElectronAPI = {
   compressPreviewImage: (imagePath: string) =>
     ipcRenderer.invoke('compress-preview-image', imagePath),
 
+  // Upload queue
+  getUploadQueue: () => ipcRenderer.invoke('get-upload-queue'),
+  addToUploadQueue: (jobs: UploadJobInput[]) =>
+    ipcRenderer.invoke('add-to-upload-queue', jobs),
+  addProjectsToUploadQueue: (changeNotes?: string) =>
+    ipcRenderer.invoke('add-projects-to-upload-queue', changeNotes),
+  removeUploadJob: (jobId: string) =>
+    ipcRenderer.invoke('remove-upload-job', jobId),
+  clearFinishedUploads: () => ipcRenderer.invoke('clear-finished-uploads'),
+  startUploadQueue: () => ipcRenderer.invoke('start-upload-queue'),
+  stopUploadQueue: () => ipcRenderer.invoke('stop-upload-queue'),
+  onUploadQueueChanged: (callback: (state: UploadQueueState) => void) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      state: UploadQueueState,
+    ) => callback(state);
+    ipcRenderer.on('upload-queue-changed', listener);
+    return () => {
+      ipcRenderer.removeListener('upload-queue-changed', listener);
+    };
+  },
+
   // Auto-updater
-  onUpdateAvailable: (callback: (info: { version: string; releaseNotes?: string }) => void) => {
-    const listener = (_event: Electron.IpcRendererEvent, info: { version: string; releaseNotes?: string }) => callback(info);
+  onUpdateAvailable: (
+    callback: (info: { version: string; releaseNotes?: string }) => void,
+  ) => {
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      info: { version: string; releaseNotes?: string },
+    ) => callback(info);
     ipcRenderer.on('update-available', listener);
-    return () => { ipcRenderer.removeListener('update-available', listener); };
+    return () => {
+      ipcRenderer.removeListener('update-available', listener);
+    };
   },
   onUpdateDownloadProgress: (callback: (info: { percent: number }) => void) => {
-    const listener = (_event: Electron.IpcRendererEvent, info: { percent: number }) => callback(info);
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      info: { percent: number },
+    ) => callback(info);
     ipcRenderer.on('update-download-progress', listener);
-    return () => { ipcRenderer.removeListener('update-download-progress', listener); };
+    return () => {
+      ipcRenderer.removeListener('update-download-progress', listener);
+    };
   },
   onUpdateDownloaded: (callback: () => void) => {
     const listener = () => callback();
     ipcRenderer.on('update-downloaded', listener);
-    return () => { ipcRenderer.removeListener('update-downloaded', listener); };
+    return () => {
+      ipcRenderer.removeListener('update-downloaded', listener);
+    };
   },
   onUpdateError: (callback: (info: { message: string }) => void) => {
-    const listener = (_event: Electron.IpcRendererEvent, info: { message: string }) => callback(info);
+    const listener = (
+      _event: Electron.IpcRendererEvent,
+      info: { message: string },
+    ) => callback(info);
     ipcRenderer.on('update-error', listener);
-    return () => { ipcRenderer.removeListener('update-error', listener); };
+    return () => {
+      ipcRenderer.removeListener('update-error', listener);
+    };
   },
   checkForUpdates: () => ipcRenderer.invoke('check-for-updates'),
   downloadUpdate: () => ipcRenderer.invoke('download-update'),
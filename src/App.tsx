@@ -2,14 +2,22 @@ import React, { useState, useCallback } from 'react';
 import { ModList } from './components/ModList';
 import { ModEditor } from './components/ModEditor';
 import { StatusMessage } from './components/StatusMessage';
+import { UploadQueuePanel } from './components/UploadQueuePanel';
+import { WorkshopItemDetails } from './components/WorkshopItemDetails';
 import { UpdateNotification } from './components/UpdateNotification';
 import { useDebugLog } from './hooks/useDebugLog';
-import { ModUploadData, WorkshopItem, WorkshopUploadResult } from './types';
+import {
+  ModUploadData,
+  UploadRequestOptions,
+  WorkshopItem,
+  WorkshopUploadResult,
+} from './types';
 import { NavigationState } from './types/navigation';
 
 interface StatusMsg {
-  type: 'success' | 'error' | 'info';
+  type: 'success' | 'error' | 'info' | 'warning';
   text: string;
+  action?: { label: string; onClick: () => void };
 }
 
 const App: React.FC = () => {
@@ -35,20 +43,57 @@ const App: React.FC = () => {
     setNavigationState({ screen: 'edit', item });
   }, []);
 
+  const handleViewDetails = useCallback((item: WorkshopItem) => {
+    setNavigationState({ screen: 'details', item });
+  }, []);
+
+  const handleOpenQueue = useCallback(() => {
+    setNavigationState({ screen: 'queue' });
+  }, []);
+
   const handleBack = useCallback(() => {
     setNavigationState({ screen: 'list' });
   }, []);
 
   const handleUpload = useCallback(
-    async (uploadData: ModUploadData): Promise<WorkshopUploadResult> => {
+    async (
+      uploadData: ModUploadData,
+      options?: UploadRequestOptions,
+    ): Promise<WorkshopUploadResult> => {
       try {
-        const result = await window.electronAPI.uploadToWorkshop(uploadData);
+        const result = await window.electronAPI.uploadToWorkshop(
+          uploadData,
+          options,
+        );
 
-        if (result.success) {
+        if (result.success && result.needsToAcceptAgreement) {
+          log(
+            'info',
+            `Warning: workshop item ${result.publishedFileId} stays hidden until you accept the Steam Workshop legal agreement`,
+          );
+          showStatus({
+            type: 'warning',
+            text: `Uploaded ${result.publishedFileId}, but Steam keeps it hidden until you accept the Workshop legal agreement.`,
+            action: {
+              label: 'Open Agreement',
+              onClick: () => {
+                window.electronAPI.openWorkshopAgreement().catch(() => {});
+              },
+            },
+          });
+          return result;
+        } else if (result.success) {
           log(
             'success',
             `Upload successful! Workshop ID: ${result.publishedFileId}`,
           );
+          const { added = [], removed = [] } = result.dependencySync ?? {};
+          if (added.length > 0 || removed.length > 0) {
+            log(
+              'info',
+              `Dependencies updated: added [${added.join(', ')}], removed [${removed.join(', ')}]`,
+            );
+          }
           showStatus({
             type: 'success',
             text: `Successfully uploaded to Workshop! ID: ${result.publishedFileId}`,
@@ -101,6 +146,8 @@ const App: React.FC = () => {
           <ModList
             onCreateNew={handleCreateNew}
             onEditItem={handleEditItem}
+            onViewDetails={handleViewDetails}
+            onOpenQueue={handleOpenQueue}
             onLog={log}
             debugMessages={messages}
             onClearDebug={clear}
@@ -132,6 +179,29 @@ const App: React.FC = () => {
           />
         );
 
+      case 'details':
+        return (
+          <WorkshopItemDetails
+            item={navigationState.item}
+            onBack={handleBack}
+            onEdit={handleEditItem}
+            onLog={log}
+            debugMessages={messages}
+            onClearDebug={clear}
+          />
+        );
+
+      case 'queue':
+        return (
+          <UploadQueuePanel
+            onBack={handleBack}
+            onLog={log}
+            onShowStatus={showStatus}
+            debugMessages={messages}
+            onClearDebug={clear}
+          />
+        );
+
       default:
         return null;
     }
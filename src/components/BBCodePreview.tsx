@@ -0,0 +1,150 @@
+import React from 'react';
+import { BBCodeNode, BBCodeTagName, getBBCodeText } from '../utils/bbcode';
+
+interface BBCodePreviewProps {
+  nodes: BBCodeNode[];
+}
+
+type TagNode = Extract<BBCodeNode, { type: 'tag' }>;
+
+// Steam drops the line break right before and after these, like block HTML
+const BLOCK_TAGS = new Set<BBCodeTagName>([
+  'h1',
+  'h2',
+  'h3',
+  'hr',
+  'list',
+  'olist',
+  '*',
+  'quote',
+  'code',
+  'table',
+  'tr',
+  'th',
+  'td',
+]);
+
+// Only tags are meaningful directly inside these
+const STRUCTURE_TAGS = new Set<BBCodeTagName>(['list', 'olist', 'table', 'tr']);
+
+const isBlock = (node: BBCodeNode | undefined) =>
+  node?.type === 'tag' && BLOCK_TAGS.has(node.name);
+
+const isWebUrl = (value: string) => /^https?:\/\//i.test(value.trim());
+
+const openLink = (url: string) => (e: React.MouseEvent) => {
+  e.preventDefault();
+  if (isWebUrl(url)) {
+    window.electronAPI.openUrl(url.trim()).catch(() => {});
+  }
+};
+
+function renderChildren(node: TagNode | null, nodes: BBCodeNode[]) {
+  const inBlock = node !== null && BLOCK_TAGS.has(node.name);
+  return nodes.map((child, index) => {
+    if (child.type === 'tag') {
+      return <BBCodeElement key={index} node={child} />;
+    }
+    if (node && STRUCTURE_TAGS.has(node.name) && !child.text.trim()) {
+      return null;
+    }
+    let text = child.text;
+    if (isBlock(nodes[index - 1]) || (index === 0 && inBlock)) {
+      text = text.replace(/^\n/, '');
+    }
+    if (isBlock(nodes[index + 1]) || (index === nodes.length - 1 && inBlock)) {
+      text = text.replace(/\n$/, '');
+    }
+    return <React.Fragment key={index}>{text}</React.Fragment>;
+  });
+}
+
+const BBCodeElement: React.FC<{ node: TagNode }> = ({ node }) => {
+  const children = renderChildren(node, node.children);
+
+  switch (node.name) {
+    case 'h1':
+      return <div className="bb-h1">{children}</div>;
+    case 'h2':
+      return <div className="bb-h2">{children}</div>;
+    case 'h3':
+      return <div className="bb-h3">{children}</div>;
+    case 'b':
+      return <strong>{children}</strong>;
+    case 'i':
+      return <em>{children}</em>;
+    case 'u':
+      return <u>{children}</u>;
+    case 'strike':
+      return <s>{children}</s>;
+    case 'spoiler':
+      return <span className="bb-spoiler">{children}</span>;
+    case 'noparse':
+      return <>{children}</>;
+    case 'hr':
+      return <hr className="bb-hr" />;
+    case 'url': {
+      const href = node.value ?? getBBCodeText(node.children);
+      return (
+        <a
+          href={href}
+          className="bb-link"
+          title={href}
+          onClick={openLink(href)}
+        >
+          {children}
+        </a>
+      );
+    }
+    case 'img': {
+      const src = getBBCodeText(node.children).trim();
+      return isWebUrl(src) ? (
+        <img src={src} alt="" className="bb-img" />
+      ) : (
+        <span className="bb-img-missing">[image: {src || 'no link'}]</span>
+      );
+    }
+    case 'list':
+      return <ul className="bb-list">{children}</ul>;
+    case 'olist':
+      return <ol className="bb-list">{children}</ol>;
+    case '*':
+      return <li>{children}</li>;
+    case 'quote':
+      return (
+        <blockquote className="bb-quote">
+          {node.value && (
+            <div className="bb-quote-author">
+              Originally posted by <strong>{node.value}</strong>:
+            </div>
+          )}
+          {children}
+        </blockquote>
+      );
+    case 'code':
+      return <pre className="bb-code">{children}</pre>;
+    case 'table':
+      return (
+        <table
+          className={`bb-table ${node.attributes.noborder === '1' ? 'noborder' : ''}`}
+        >
+          <tbody>{children}</tbody>
+        </table>
+      );
+    case 'tr':
+      return <tr>{children}</tr>;
+    case 'th':
+      return <th>{children}</th>;
+    case 'td':
+      return <td>{children}</td>;
+    default:
+      return <>{children}</>;
+  }
+};
+
+/**
+ * Approximates how the Steam Workshop page renders a BBCode description
+ */
+export const BBCodePreview: React.FC<BBCodePreviewProps> = ({ nodes }) => {
+  return <div className="bbcode-preview">{renderChildren(null, nodes)}</div>;
+};
@@ -10,6 +10,7 @@ interface ConfirmDialogProps {
   disabled?: boolean;
   onConfirm: () => void;
   onCancel: () => void;
+  children?: React.ReactNode; // Extra content shown below the message
 }
 
 export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
@@ -22,6 +23,7 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
   disabled = false,
   onConfirm,
   onCancel,
+  children,
 }) => {
   if (!isOpen) return null;
 
@@ -30,8 +32,14 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({
       <div className="dialog-content" onClick={(e) => e.stopPropagation()}>
         <h3 className="dialog-title">{title}</h3>
         <p className="dialog-message">{message}</p>
+        {children}
         <div className="dialog-actions">
-          <button type="button" className="game-button" onClick={onCancel} disabled={disabled}>
+          <button
+            type="button"
+            className="game-button"
+            onClick={onCancel}
+            disabled={disabled}
+          >
             {cancelText}
           </button>
           <button
@@ -0,0 +1,55 @@
+import React from 'react';
+import { ResolvedDependency, WorkshopBackendName } from '../types';
+
+interface DependencyListProps {
+  dependencies: ResolvedDependency[] | null;
+  // Set when the backend can't publish required items
+  unsupportedBy?: WorkshopBackendName;
+}
+
+export const DependencyList: React.FC<DependencyListProps> = ({
+  dependencies,
+  unsupportedBy,
+}) => {
+  if (!dependencies || dependencies.length === 0) return null;
+
+  return (
+    <div className="dependency-list">
+      <div className="dependency-list-title">
+        Required items (from mod metadata)
+      </div>
+      {unsupportedBy && (
+        <div className="form-help">
+          The {unsupportedBy} backend cannot set required items. Add these on
+          the item&apos;s Workshop page after uploading.
+        </div>
+      )}
+      <ul>
+        {dependencies.map((dependency) => (
+          <li
+            key={dependency.reference}
+            className={`dependency ${dependency.error ? 'unresolved' : ''}`}
+          >
+            {dependency.error ? (
+              <>
+                <code>{dependency.reference}</code>: {dependency.error}
+              </>
+            ) : (
+              <>
+                {dependency.title}{' '}
+                <span className="dependency-id">
+                  ({dependency.publishedFileId})
+                </span>
+                {dependency.visibility === 'private' && (
+                  <span className="dependency-warning">
+                    ⚠ Private - subscribers won't be able to download it
+                  </span>
+                )}
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
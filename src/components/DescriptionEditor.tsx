@@ -0,0 +1,220 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { parseBBCode } from '../utils/bbcode';
+import { markdownToBBCode } from '../utils/markdown-to-bbcode';
+import { BBCodePreview } from './BBCodePreview';
+import { ConfirmDialog } from './ConfirmDialog';
+
+interface DescriptionEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  maxLength: number;
+  error?: string;
+  disabled?: boolean;
+}
+
+interface FormatAction {
+  label: string;
+  title: string;
+  // Text around the selection, and what to select after inserting
+  apply: (selected: string) => { text: string; select?: [number, number] };
+}
+
+const wrap =
+  (open: string, close: string, placeholder = ''): FormatAction['apply'] =>
+  (selected) => {
+    const inner = selected || placeholder;
+    return {
+      text: `${open}${inner}${close}`,
+      select: [open.length, open.length + inner.length],
+    };
+  };
+
+const listOf =
+  (tag: 'list' | 'olist'): FormatAction['apply'] =>
+  (selected) => {
+    const lines = selected.split('\n').filter((line) => line.trim());
+    const items = (lines.length > 0 ? lines : ['Item']).map(
+      (line) => `[*]${line.replace(/^\s*([-*+]|\d+[.)])\s+/, '')}`,
+    );
+    return { text: `[${tag}]\n${items.join('\n')}\n[/${tag}]` };
+  };
+
+const FORMAT_ACTIONS: FormatAction[] = [
+  { label: 'H1', title: 'Heading', apply: wrap('[h1]', '[/h1]', 'Heading') },
+  {
+    label: 'H2',
+    title: 'Subheading',
+    apply: wrap('[h2]', '[/h2]', 'Subheading'),
+  },
+  {
+    label: 'H3',
+    title: 'Section heading',
+    apply: wrap('[h3]', '[/h3]', 'Section'),
+  },
+  { label: 'B', title: 'Bold', apply: wrap('[b]', '[/b]') },
+  { label: 'I', title: 'Italic', apply: wrap('[i]', '[/i]') },
+  { label: 'U', title: 'Underline', apply: wrap('[u]', '[/u]') },
+  { label: 'S', title: 'Strikethrough', apply: wrap('[strike]', '[/strike]') },
+  {
+    label: 'Spoiler',
+    title: 'Spoiler',
+    apply: wrap('[spoiler]', '[/spoiler]'),
+  },
+  {
+    label: 'Link',
+    title: 'Link (replace https:// with the address)',
+    apply: (selected) => ({
+      text: `[url=https://]${selected || 'link text'}[/url]`,
+      select: [5, 13],
+    }),
+  },
+  {
+    label: 'Image',
+    title: 'Image from a web address',
+    apply: wrap('[img]', '[/img]', 'https://'),
+  },
+  {
+    label: '• List',
+    title: 'Bulleted list, one item per line',
+    apply: listOf('list'),
+  },
+  {
+    label: '1. List',
+    title: 'Numbered list, one item per line',
+    apply: listOf('olist'),
+  },
+  { label: 'Quote', title: 'Quote', apply: wrap('[quote]', '[/quote]') },
+  {
+    label: 'Code',
+    title: 'Code (shown as typed)',
+    apply: wrap('[code]', '[/code]'),
+  },
+  {
+    label: 'Table',
+    title: 'Table',
+    apply: () => ({
+      text: '[table]\n[tr]\n[th]Header[/th]\n[th]Header[/th]\n[/tr]\n[tr]\n[td]Cell[/td]\n[td]Cell[/td]\n[/tr]\n[/table]',
+    }),
+  },
+  {
+    label: '―',
+    title: 'Horizontal rule',
+    apply: () => ({ text: '[hr][/hr]' }),
+  },
+];
+
+export const DescriptionEditor: React.FC<DescriptionEditorProps> = ({
+  value,
+  onChange,
+  maxLength,
+  error,
+  disabled = false,
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [markdownOpen, setMarkdownOpen] = useState(false);
+  const [markdown, setMarkdown] = useState('');
+  const { nodes, issues } = useMemo(() => parseBBCode(value), [value]);
+
+  const applyFormat = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const { selectionStart, selectionEnd } = textarea;
+    const { text, select } = action.apply(
+      value.slice(selectionStart, selectionEnd),
+    );
+    onChange(value.slice(0, selectionStart) + text + value.slice(selectionEnd));
+
+    // Restore focus and selection once the new value is rendered
+    requestAnimationFrame(() => {
+      textarea.focus();
+      const [start, end] = select ?? [text.length, text.length];
+      textarea.setSelectionRange(selectionStart + start, selectionStart + end);
+    });
+  };
+
+  const handleConvertMarkdown = () => {
+    if (markdown.trim()) {
+      onChange(markdownToBBCode(markdown));
+    }
+    setMarkdown('');
+    setMarkdownOpen(false);
+  };
+
+  return (
+    <div className="description-editor">
+      <div className="bbcode-toolbar">
+        {FORMAT_ACTIONS.map((action) => (
+          <button
+            key={action.label}
+            type="button"
+            className="game-button small"
+            title={action.title}
+            onClick={() => applyFormat(action)}
+            disabled={disabled}
+          >
+            {action.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          className="game-button small"
+          title="Convert Markdown (e.g. your README) to BBCode"
+          onClick={() => setMarkdownOpen(true)}
+          disabled={disabled}
+        >
+          From Markdown...
+        </button>
+      </div>
+
+      <div className="description-editor-panes">
+        <textarea
+          ref={textareaRef}
+          className={`game-input ${error ? 'error' : ''}`}
+          rows={14}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="Describe your mod... Steam BBCode such as [b]bold[/b] is supported."
+          disabled={disabled}
+        />
+        <BBCodePreview nodes={nodes} />
+      </div>
+
+      {error && <div className="form-error">{error}</div>}
+      {issues.length > 0 && (
+        <ul className="validation-issues bbcode-issues">
+          {issues.map((issue, index) => (
+            <li key={index} className={`validation-issue ${issue.severity}`}>
+              <span className="validation-severity">
+                {issue.severity === 'error' ? '✕' : '!'}
+              </span>
+              <span>
+                Line {issue.line}: {issue.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="form-hint">
+        {value.length}/{maxLength} characters · The preview approximates the
+        Workshop page
+      </div>
+
+      <ConfirmDialog
+        isOpen={markdownOpen}
+        title="Convert from Markdown"
+        message="Paste Markdown, such as your README. It replaces the current description."
+        confirmText="Convert and Replace"
+        onConfirm={handleConvertMarkdown}
+        onCancel={() => setMarkdownOpen(false)}
+      >
+        <textarea
+          className="game-input description-editor-markdown"
+          rows={12}
+          value={markdown}
+          onChange={(e) => setMarkdown(e.target.value)}
+          placeholder={'# My Mod\n\n- Feature one\n- Feature two'}
+        />
+      </ConfirmDialog>
+    </div>
+  );
+};
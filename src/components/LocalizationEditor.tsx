@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { LocalizedText, WorkshopLocalizations } from '../types';
+import {
+  getWorkshopLanguageName,
+  WORKSHOP_LANGUAGES,
+} from '../utils/workshop-languages';
+import { DescriptionEditor } from './DescriptionEditor';
+
+interface LocalizationEditorProps {
+  localizations: WorkshopLocalizations;
+  onChange: (localizations: WorkshopLocalizations) => void;
+  // Languages mod.js translates itself into (addTranslation calls)
+  suggestedLanguages?: string[];
+  disabled?: boolean;
+}
+
+export const LocalizationEditor: React.FC<LocalizationEditorProps> = ({
+  localizations,
+  onChange,
+  suggestedLanguages = [],
+  disabled,
+}) => {
+  const [activeLanguage, setActiveLanguage] = useState<string | null>(null);
+
+  const languages = Object.keys(localizations);
+  const active =
+    activeLanguage && languages.includes(activeLanguage)
+      ? activeLanguage
+      : languages[0];
+  const missingSuggestions = suggestedLanguages.filter(
+    (language) => !languages.includes(language),
+  );
+  const otherLanguages = WORKSHOP_LANGUAGES.filter(
+    (language) =>
+      !languages.includes(language.code) &&
+      !suggestedLanguages.includes(language.code),
+  );
+
+  const addLanguage = (language: string) => {
+    if (!language || languages.includes(language)) return;
+    onChange({ ...localizations, [language]: {} });
+    setActiveLanguage(language);
+  };
+
+  const updateLanguage = (language: string, text: LocalizedText) => {
+    onChange({ ...localizations, [language]: text });
+  };
+
+  const removeLanguage = (language: string) => {
+    const { [language]: _removed, ...rest } = localizations;
+    onChange(rest);
+  };
+
+  return (
+    <div className="localization-editor">
+      <div className="localization-tabs">
+        {languages.map((language) => (
+          <button
+            key={language}
+            type="button"
+            className={`localization-tab ${language === active ? 'active' : ''}`}
+            onClick={() => setActiveLanguage(language)}
+          >
+            {getWorkshopLanguageName(language)}
+          </button>
+        ))}
+        <select
+          className="game-input localization-add"
+          value=""
+          onChange={(event) => addLanguage(event.target.value)}
+          disabled={disabled}
+        >
+          <option value="">+ Add language</option>
+          {missingSuggestions.length > 0 && (
+            <optgroup label="Translated in mod.js">
+              {missingSuggestions.map((language) => (
+                <option key={language} value={language}>
+                  {getWorkshopLanguageName(language)}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <optgroup label="Other languages">
+            {otherLanguages.map((language) => (
+              <option key={language.code} value={language.code}>
+                {language.name}
+              </option>
+            ))}
+          </optgroup>
+        </select>
+      </div>
+
+      {missingSuggestions.length > 0 && (
+        <div className="form-help">
+          mod.js adds translations for{' '}
+          {missingSuggestions.map(getWorkshopLanguageName).join(', ')}; add
+          their Workshop title and description too.
+        </div>
+      )}
+
+      {active ? (
+        <div className="localization-panel">
+          <input
+            type="text"
+            className="game-input"
+            value={localizations[active].title ?? ''}
+            onChange={(event) =>
+              updateLanguage(active, {
+                ...localizations[active],
+                title: event.target.value,
+              })
+            }
+            placeholder={`${getWorkshopLanguageName(active)} title (defaults to the main title)`}
+            maxLength={128}
+            disabled={disabled}
+          />
+          <DescriptionEditor
+            value={localizations[active].description ?? ''}
+            onChange={(description) =>
+              updateLanguage(active, { ...localizations[active], description })
+            }
+            maxLength={8000}
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            className="game-button small danger"
+            onClick={() => removeLanguage(active)}
+            disabled={disabled}
+          >
+            Remove {getWorkshopLanguageName(active)}
+          </button>
+        </div>
+      ) : (
+        <div className="form-help">
+          Players whose Steam language has no translation see the main title and
+          description.
+        </div>
+      )}
+    </div>
+  );
+};
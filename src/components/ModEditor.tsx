@@ -1,14 +1,48 @@
 import React, { useState, useEffect } from 'react';
-import { ModUploadData, WorkshopItem, WorkshopUploadResult } from '../types';
+import {
+  AdditionalPreview,
+  ChangeNoteRequest,
+  ChangeNoteSource,
+  DetectedTag,
+  ModPackageResult,
+  ModUploadData,
+  ModValidationReport,
+  ReadmeDescription,
+  ResolvedDependency,
+  TagVocabulary,
+  UploadProgressEvent,
+  UploadRequestOptions,
+  VersionBumpCheck,
+  WorkshopBackendCapabilities,
+  WorkshopItem,
+  WorkshopLocalizations,
+  WorkshopProject,
+  WorkshopUploadResult,
+} from '../types';
 import { DebugMessage } from '../hooks/useDebugLog';
 import { GameTitle } from './GameTitle';
 import { DebugConsole } from './DebugConsole';
 import { ImagePreview } from './ImagePreview';
+import { PreviewGallery } from './PreviewGallery';
 import { ConfirmDialog } from './ConfirmDialog';
+import { DependencyList } from './DependencyList';
+import { DescriptionEditor } from './DescriptionEditor';
+import { UploadProgressBar } from './UploadProgressBar';
+import { UploadHistoryTimeline } from './UploadHistoryTimeline';
+import { ValidationReportView } from './ValidationReportView';
+import { LocalizationEditor } from './LocalizationEditor';
+import { TagPicker } from './TagPicker';
+import { WorkshopItemDiffView } from './WorkshopItemDiffView';
+import { diffWorkshopItem, parseTagList } from '../utils/workshop-diff';
+import { getWorkshopLanguageName } from '../utils/workshop-languages';
+import { resolveTags } from '../utils/workshop-tags';
 
 interface ModEditorProps {
   onBack: () => void;
-  onUpload: (data: ModUploadData) => Promise<WorkshopUploadResult>;
+  onUpload: (
+    data: ModUploadData,
+    options?: UploadRequestOptions,
+  ) => Promise<WorkshopUploadResult>;
   onLog: (type: 'error' | 'info' | 'success', message: string) => void;
   onShowStatus: (message: {
     type: 'success' | 'error' | 'info';
@@ -22,6 +56,7 @@ interface ModEditorProps {
 interface FormErrors {
   title?: string;
   description?: string;
+  tags?: string;
   zipPath?: string;
   changeNotes?: string;
 }
@@ -43,6 +78,17 @@ export const ModEditor: React.FC<ModEditorProps> = ({
     changeNotes: '',
   });
   const [selectedZipPath, setSelectedZipPath] = useState<string | null>(null);
+  const [selectedPackage, setSelectedPackage] =
+    useState<ModPackageResult | null>(null);
+  const [isPackaging, setIsPackaging] = useState(false);
+  const [validationReport, setValidationReport] =
+    useState<ModValidationReport | null>(null);
+  const [dependencies, setDependencies] = useState<ResolvedDependency[] | null>(
+    null,
+  );
+  const [loadedProject, setLoadedProject] = useState<WorkshopProject | null>(
+    null,
+  );
   const [selectedPreviewPath, setSelectedPreviewPath] = useState<string | null>(
     null,
   );
@@ -51,10 +97,50 @@ export const ModEditor: React.FC<ModEditorProps> = ({
     compressedSize?: string;
     wasCompressed?: boolean;
   } | null>(null);
+  const [additionalPreviews, setAdditionalPreviews] = useState<
+    AdditionalPreview[]
+  >([]);
+  // Only send the gallery when it was edited, so untouched items keep theirs
+  const [previewsChanged, setPreviewsChanged] = useState(false);
+  // What the selected backend can publish; null while loading
+  const [capabilities, setCapabilities] =
+    useState<WorkshopBackendCapabilities | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<string | null>(null);
+  const [uploadProgressEvent, setUploadProgressEvent] =
+    useState<UploadProgressEvent | null>(null);
   const [errors, setErrors] = useState<FormErrors>({});
+  const [allowUnknownTags, setAllowUnknownTags] = useState(false);
   const [confirmUpload, setConfirmUpload] = useState(false);
+  // README found in the selected package, converted to BBCode
+  const [packageReadme, setPackageReadme] = useState<ReadmeDescription | null>(
+    null,
+  );
+  const [confirmReadme, setConfirmReadme] = useState(false);
+  const [composingNotes, setComposingNotes] = useState<ChangeNoteSource | null>(
+    null,
+  );
+  // Where the current change notes were generated from, if they were
+  const [changeNoteSummary, setChangeNoteSummary] = useState<string | null>(
+    null,
+  );
+  // Titles and descriptions for other languages, by Steam language code
+  const [localizations, setLocalizations] = useState<WorkshopLocalizations>({});
+  // Languages the package's mod.js adds translations for
+  const [translationLanguages, setTranslationLanguages] = useState<string[]>(
+    [],
+  );
+  // The game's Workshop tags, and the ones mod.js suggests
+  const [tagVocabulary, setTagVocabulary] = useState<TagVocabulary | null>(
+    null,
+  );
+  const [detectedTags, setDetectedTags] = useState<DetectedTag[]>([]);
+  // The package's version against the one last published to the item
+  const [versionCheck, setVersionCheck] = useState<VersionBumpCheck | null>(
+    null,
+  );
+  // Published item that Steam keeps hidden until the agreement is accepted
+  const [agreementItemId, setAgreementItemId] = useState<string | null>(null);
 
   // Initialize form data based on whether we're editing or creating
   useEffect(() => {
@@ -76,11 +162,85 @@ export const ModEditor: React.FC<ModEditorProps> = ({
       });
     }
     setSelectedZipPath(null);
+    setSelectedPackage(null);
     setSelectedPreviewPath(null);
     setPreviewImageInfo(null);
+    setAdditionalPreviews(editingItem?.additionalPreviews ?? []);
+    setPreviewsChanged(false);
+    setValidationReport(null);
+    setDependencies(null);
+    setPackageReadme(null);
+    setChangeNoteSummary(null);
+    setLocalizations({});
+    setTranslationLanguages([]);
+    setDetectedTags([]);
+    setLoadedProject(null);
+    setAgreementItemId(null);
     setErrors({});
   }, [editingItem]);
 
+  useEffect(() => {
+    window.electronAPI
+      .getWorkshopCapabilities()
+      .then(setCapabilities)
+      .catch((error) => {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        onLog('error', `Failed to load the backend capabilities: ${errorMsg}`);
+      });
+  }, []);
+
+  useEffect(() => {
+    window.electronAPI
+      .getTagVocabulary()
+      .then(setTagVocabulary)
+      .catch((error) => {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        onLog('error', `Failed to load the Workshop tags: ${errorMsg}`);
+      });
+  }, []);
+
+  // Warn when an update doesn't raise the mod's version
+  const targetWorkshopId =
+    editingItem?.publishedFileId ?? loadedProject?.manifest.workshopId;
+  useEffect(() => {
+    setVersionCheck(null);
+    if (!targetWorkshopId || !validationReport?.metadata) {
+      return;
+    }
+    let cancelled = false;
+    window.electronAPI
+      .checkVersionBump(targetWorkshopId, validationReport.metadata.version)
+      .then((check) => {
+        if (cancelled) return;
+        setVersionCheck(check);
+        if (check.message) {
+          onLog('info', `Warning: ${check.message}`);
+        }
+      })
+      .catch((error) => {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        onLog('error', `Failed to check the mod version: ${errorMsg}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [validationReport, targetWorkshopId]);
+
+  // Follow Steam's upload stages while an upload is running
+  useEffect(() => {
+    return window.electronAPI.onUploadProgress((progress) => {
+      setUploadProgressEvent(progress);
+      setUploadProgress(
+        progress.percent !== undefined
+          ? `${progress.message} ${progress.percent}%`
+          : progress.message,
+      );
+    });
+  }, []);
+
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
 
@@ -96,8 +256,15 @@ export const ModEditor: React.FC<ModEditorProps> = ({
       newErrors.description = 'Description must be 8000 characters or less';
     }
 
+    const unknownTags = tagVocabulary
+      ? resolveTags(parseTagList(formData.tags), tagVocabulary).unknown
+      : [];
+    if (unknownTags.length > 0 && !allowUnknownTags) {
+      newErrors.tags = `Not Workshop tags of the game: ${unknownTags.join(', ')}`;
+    }
+
     if (!editingItem && !selectedZipPath) {
-      newErrors.zipPath = 'Please select a ZIP file';
+      newErrors.zipPath = 'Please select a ZIP file or mod folder';
     }
 
     if (editingItem && selectedZipPath && !formData.changeNotes.trim()) {
@@ -109,175 +276,438 @@ export const ModEditor: React.FC<ModEditorProps> = ({
     return Object.keys(newErrors).length === 0;
   };
 
+  // Show the package's declared dependencies with their Workshop titles
+  const loadDependencies = async (references: string[]) => {
+    try {
+      const resolved = await window.electronAPI.resolveDependencies(references);
+      setDependencies(resolved);
+      for (const dependency of resolved) {
+        if (dependency.error) {
+          onLog(
+            'error',
+            `Dependency "${dependency.reference}": ${dependency.error}`,
+          );
+        } else if (dependency.visibility === 'private') {
+          onLog(
+            'info',
+            `Warning: dependency "${dependency.title}" (${dependency.publishedFileId}) is private`,
+          );
+        }
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to look up dependencies: ${errorMsg}`);
+      setDependencies(
+        references.map((reference) => ({
+          reference,
+          error: 'Could not look up Workshop items',
+        })),
+      );
+    }
+  };
+
+  // Extract mod.js information to pre-populate form fields
+  const loadPackageMetadata = async (zipPath: string) => {
+    setDependencies(null);
+    setPackageReadme(null);
+    setTranslationLanguages([]);
+    setDetectedTags([]);
+    try {
+      onLog('info', 'Extracting mod information from ZIP...');
+      const packageInfo = await window.electronAPI.extractPackageInfo(zipPath);
+
+      if (packageInfo) {
+        onLog('success', 'Successfully extracted mod information');
+
+        setFormData((prev) => ({
+          ...prev,
+          title:
+            prev.title || packageInfo.title || packageInfo.name || prev.title,
+          description:
+            prev.description ||
+            packageInfo.readme?.description ||
+            packageInfo.description ||
+            prev.description,
+          tags:
+            prev.tags ||
+            (packageInfo.tags ? packageInfo.tags.join(', ') : prev.tags),
+        }));
+
+        if (packageInfo.title || packageInfo.name) {
+          onLog(
+            'info',
+            `Found mod title: ${packageInfo.title || packageInfo.name}`,
+          );
+        }
+        if (packageInfo.description) {
+          onLog(
+            'info',
+            `Found mod description: ${packageInfo.description.substring(0, 100)}${packageInfo.description.length > 100 ? '...' : ''}`,
+          );
+        }
+        if (packageInfo.readme) {
+          setPackageReadme(packageInfo.readme);
+          onLog('info', `Found README: ${packageInfo.readme.file}`);
+        }
+        if (packageInfo.tags && packageInfo.tags.length > 0) {
+          onLog('info', `Found tags: ${packageInfo.tags.join(', ')}`);
+        }
+        if (packageInfo.translationLanguages?.length) {
+          setTranslationLanguages(packageInfo.translationLanguages);
+          onLog(
+            'info',
+            `Found translations: ${packageInfo.translationLanguages.join(', ')}`,
+          );
+        }
+        if (packageInfo.detectedTags?.length) {
+          setDetectedTags(packageInfo.detectedTags);
+        }
+        if (packageInfo.version) {
+          onLog('info', `Found mod version: ${packageInfo.version}`);
+        }
+        if (packageInfo.author) {
+          onLog('info', `Found mod author: ${packageInfo.author}`);
+        }
+        if (packageInfo.dependencies && packageInfo.dependencies.length > 0) {
+          onLog(
+            'info',
+            `Found dependencies: ${packageInfo.dependencies.join(', ')}`,
+          );
+          await loadDependencies(packageInfo.dependencies);
+        }
+        if (packageInfo.source) {
+          const { strategy, file, line, column } = packageInfo.source;
+          onLog(
+            'info',
+            `Metadata source: ${strategy} (${file}${line ? `:${line}:${column}` : ''})`,
+          );
+        }
+      } else {
+        onLog(
+          'info',
+          'No mod.js found in package or could not extract metadata',
+        );
+      }
+    } catch (extractError) {
+      const errorMsg =
+        extractError instanceof Error ? extractError.message : 'Unknown error';
+      onLog('error', `Failed to extract mod information: ${errorMsg}`);
+    }
+  };
+
+  // Check the selected package and log what was found
+  const runPackageValidation = async (zipPath: string) => {
+    onLog('info', 'Checking mod package...');
+    const report = await window.electronAPI.validateModPackage(zipPath);
+    setValidationReport(report);
+    for (const issue of report.issues) {
+      onLog(
+        issue.severity === 'error' ? 'error' : 'info',
+        `${issue.severity === 'warning' ? 'Warning: ' : ''}${issue.message}${issue.path ? ` (${issue.path})` : ''}`,
+      );
+    }
+    if (report.issues.length === 0) {
+      onLog('success', 'Package checks passed');
+    }
+    return report;
+  };
+
   const handleSelectZip = async () => {
     try {
       onLog('info', 'Opening file selector for ZIP...');
       const path = await window.electronAPI.selectZip();
       if (path) {
         setSelectedZipPath(path);
+        setSelectedPackage(null);
         setErrors((prev) => ({ ...prev, zipPath: undefined }));
         const filename = path.split(/[\\/]/).pop();
         onLog('success', `Selected ZIP: ${filename}`);
         onShowStatus({ type: 'info', text: `Selected: ${filename}` });
 
-        // Extract mod.js information to pre-populate form fields
-        try {
-          onLog('info', 'Extracting mod information from ZIP...');
-          const packageInfo =
-            await window.electronAPI.extractPackageInfo(path);
-
-          if (packageInfo) {
-            onLog('success', 'Successfully extracted mod information');
-
-            setFormData((prev) => ({
-              ...prev,
-              title:
-                prev.title ||
-                packageInfo.title ||
-                packageInfo.name ||
-                prev.title,
-              description:
-                prev.description || packageInfo.description || prev.description,
-              tags:
-                prev.tags ||
-                (packageInfo.tags ? packageInfo.tags.join(', ') : prev.tags),
-            }));
-
-            if (packageInfo.title || packageInfo.name) {
-              onLog(
-                'info',
-                `Found mod title: ${packageInfo.title || packageInfo.name}`,
-              );
-            }
-            if (packageInfo.description) {
-              onLog(
-                'info',
-                `Found mod description: ${packageInfo.description.substring(0, 100)}${packageInfo.description.length > 100 ? '...' : ''}`,
-              );
-            }
-            if (packageInfo.tags && packageInfo.tags.length > 0) {
-              onLog('info', `Found tags: ${packageInfo.tags.join(', ')}`);
-            }
-            if (packageInfo.version) {
-              onLog('info', `Found mod version: ${packageInfo.version}`);
-            }
-            if (packageInfo.author) {
-              onLog('info', `Found mod author: ${packageInfo.author}`);
-            }
-          } else {
-            onLog(
-              'info',
-              'No mod.js found in ZIP file or could not extract metadata',
-            );
-          }
-        } catch (extractError) {
-          const errorMsg =
-            extractError instanceof Error
-              ? extractError.message
-              : 'Unknown error';
-          onLog('error', `Failed to extract mod information: ${errorMsg}`);
-        }
+        await loadPackageMetadata(path);
+        await runPackageValidation(path);
       } else {
         onLog('info', 'File selection cancelled');
       }
     } catch (error) {
-      const errorMsg =
-        error instanceof Error ? error.message : 'Unknown error';
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       onLog('error', `Failed to select zip file: ${errorMsg}`);
       onShowStatus({ type: 'error', text: 'Failed to select zip file' });
     }
   };
 
+  // Package a mod build folder and use the ZIP as the mod package
+  const packageFolder = async (directory: string) => {
+    const folderName = directory.split(/[\\/]/).pop();
+    setIsPackaging(true);
+    try {
+      onLog('info', `Packaging ${folderName}...`);
+      const modPackage = await window.electronAPI.packageModFolder(directory);
+      setSelectedZipPath(modPackage.zipPath);
+      setSelectedPackage(modPackage);
+      setErrors((prev) => ({ ...prev, zipPath: undefined }));
+      onLog(
+        'success',
+        `Packaged ${modPackage.files.length} files from ${folderName} (sha256 ${modPackage.sha256})`,
+      );
+      onShowStatus({ type: 'info', text: `Packaged: ${folderName}` });
+
+      await loadPackageMetadata(modPackage.zipPath);
+      await runPackageValidation(modPackage.zipPath);
+      return modPackage;
+    } finally {
+      setIsPackaging(false);
+    }
+  };
+
+  const handleSelectFolder = async () => {
+    try {
+      onLog('info', 'Opening folder selector for mod build...');
+      const directory = await window.electronAPI.selectModFolder();
+      if (directory) {
+        await packageFolder(directory);
+      } else {
+        onLog('info', 'Folder selection cancelled');
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to package mod folder: ${errorMsg}`);
+      onShowStatus({ type: 'error', text: 'Failed to package mod folder' });
+    }
+  };
+
+  // Compress (if needed) and use an image as the preview
+  const applyPreviewImage = async (path: string) => {
+    const filename = path.split(/[\\/]/).pop();
+    onLog('info', `Selected image: ${filename}, checking size...`);
+
+    // Compress the image if needed
+    const compressionResult =
+      await window.electronAPI.compressPreviewImage(path);
+
+    if (!compressionResult.success) {
+      onLog('error', `Failed to process image: ${compressionResult.error}`);
+      onShowStatus({
+        type: 'error',
+        text: compressionResult.error || 'Failed to process image',
+      });
+      return;
+    }
+
+    // Use the compressed path (or original if no compression needed)
+    setSelectedPreviewPath(compressionResult.compressedPath || path);
+
+    // Format sizes for display
+    const formatSize = (bytes: number) => {
+      if (bytes >= 1024 * 1024) {
+        return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+      }
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    };
+
+    setPreviewImageInfo({
+      originalSize: formatSize(compressionResult.originalSize),
+      compressedSize: compressionResult.compressedSize
+        ? formatSize(compressionResult.compressedSize)
+        : undefined,
+      wasCompressed: compressionResult.wasCompressed,
+    });
+
+    if (compressionResult.wasCompressed) {
+      const savings = (
+        (1 -
+          (compressionResult.compressedSize || 0) /
+            compressionResult.originalSize) *
+        100
+      ).toFixed(1);
+      onLog(
+        'success',
+        `Image compressed: ${formatSize(compressionResult.originalSize)} → ${formatSize(compressionResult.compressedSize || 0)} (${savings}% reduction, quality: ${compressionResult.quality}%)`,
+      );
+      onShowStatus({
+        type: 'success',
+        text: `Image compressed to ${formatSize(compressionResult.compressedSize || 0)}`,
+      });
+    } else {
+      onLog(
+        'success',
+        `Image OK: ${formatSize(compressionResult.originalSize)} (under 1MB limit)`,
+      );
+      onShowStatus({ type: 'info', text: `Selected: ${filename}` });
+    }
+  };
+
   const handleSelectPreview = async () => {
     try {
       onLog('info', 'Opening file selector for preview image...');
       const path = await window.electronAPI.selectPreviewImage();
       if (path) {
-        const filename = path.split(/[\\/]/).pop();
-        onLog('info', `Selected image: ${filename}, checking size...`);
+        await applyPreviewImage(path);
+      } else {
+        onLog('info', 'Image selection cancelled');
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to select preview image: ${errorMsg}`);
+      onShowStatus({ type: 'error', text: 'Failed to select preview image' });
+    }
+  };
 
-        // Compress the image if needed
-        const compressionResult =
-          await window.electronAPI.compressPreviewImage(path);
+  const updateAdditionalPreviews = (previews: AdditionalPreview[]) => {
+    setAdditionalPreviews(previews);
+    setPreviewsChanged(true);
+  };
 
-        if (!compressionResult.success) {
-          onLog('error', `Failed to process image: ${compressionResult.error}`);
-          onShowStatus({
-            type: 'error',
-            text: compressionResult.error || 'Failed to process image',
-          });
-          return;
-        }
+  const handleAddScreenshot = async () => {
+    try {
+      onLog('info', 'Opening file selector for screenshot...');
+      const path = await window.electronAPI.selectPreviewImage();
+      if (!path) {
+        onLog('info', 'Screenshot selection cancelled');
+        return;
+      }
 
-        // Use the compressed path (or original if no compression needed)
-        setSelectedPreviewPath(compressionResult.compressedPath || path);
-
-        // Format sizes for display
-        const formatSize = (bytes: number) => {
-          if (bytes >= 1024 * 1024) {
-            return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
-          }
-          return `${(bytes / 1024).toFixed(1)} KB`;
-        };
-
-        setPreviewImageInfo({
-          originalSize: formatSize(compressionResult.originalSize),
-          compressedSize: compressionResult.compressedSize
-            ? formatSize(compressionResult.compressedSize)
-            : undefined,
-          wasCompressed: compressionResult.wasCompressed,
+      // Screenshots share the 1MB limit of the main preview
+      const compressionResult =
+        await window.electronAPI.compressPreviewImage(path);
+      if (!compressionResult.success) {
+        onLog('error', `Failed to process image: ${compressionResult.error}`);
+        onShowStatus({
+          type: 'error',
+          text: compressionResult.error || 'Failed to process image',
         });
+        return;
+      }
 
-        if (compressionResult.wasCompressed) {
-          const savings = (
-            (1 -
-              (compressionResult.compressedSize || 0) /
-                compressionResult.originalSize) *
-            100
-          ).toFixed(1);
-          onLog(
-            'success',
-            `Image compressed: ${formatSize(compressionResult.originalSize)} → ${formatSize(compressionResult.compressedSize || 0)} (${savings}% reduction, quality: ${compressionResult.quality}%)`,
-          );
+      updateAdditionalPreviews([
+        ...additionalPreviews,
+        { type: 'image', path: compressionResult.compressedPath || path },
+      ]);
+      onLog(
+        'success',
+        `Added screenshot: ${path.split(/[\\/]/).pop()}${compressionResult.wasCompressed ? ' (compressed)' : ''}`,
+      );
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to add screenshot: ${errorMsg}`);
+      onShowStatus({ type: 'error', text: 'Failed to add screenshot' });
+    }
+  };
+
+  const handleOpenProject = async () => {
+    try {
+      onLog('info', 'Opening project file selector...');
+      const project = await window.electronAPI.openProject();
+      if (!project) {
+        onLog('info', 'Project selection cancelled');
+        return;
+      }
+
+      const { manifest } = project;
+      setLoadedProject(project);
+      setFormData((prev) => ({
+        ...prev,
+        title: manifest.title ?? prev.title,
+        description:
+          project.description ??
+          (prev.description || project.readme?.description || ''),
+        tags: manifest.tags ? manifest.tags.join(', ') : prev.tags,
+        visibility: manifest.visibility ?? prev.visibility,
+      }));
+      if (project.localizations) {
+        setLocalizations(project.localizations);
+      }
+      onLog('success', `Opened project: ${project.projectPath}`);
+      if (manifest.workshopId && !editingItem) {
+        onLog(
+          'info',
+          `Project publishes to workshop item ${manifest.workshopId}`,
+        );
+      }
+
+      let zipPath: string | undefined;
+      if (project.contentType === 'directory' && project.contentPath) {
+        zipPath = (await packageFolder(project.contentPath)).zipPath;
+      } else if (project.contentPath) {
+        zipPath = project.contentPath;
+        setSelectedZipPath(project.contentPath);
+        setSelectedPackage(null);
+        setErrors((prev) => ({ ...prev, zipPath: undefined }));
+        await loadPackageMetadata(project.contentPath);
+        await runPackageValidation(project.contentPath);
+      }
+
+      if (manifest.changeNoteFrom && zipPath) {
+        await composeChangeNotes(
+          manifest.changeNoteFrom,
+          {
+            zipPath,
+            modDirectory:
+              project.contentType === 'directory'
+                ? project.contentPath
+                : undefined,
+            projectPath: project.projectPath,
+            workshopId: editingItem?.publishedFileId ?? manifest.workshopId,
+          },
+          false,
+        );
+      }
+
+      if (project.previewPath) {
+        await applyPreviewImage(project.previewPath);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to open project: ${errorMsg}`);
+      onShowStatus({ type: 'error', text: 'Failed to open project' });
+    }
+  };
+
+  // Form and package checks shared by Upload and Add to Queue
+  const checkReadyToUpload = async (): Promise<boolean> => {
+    if (!validateForm()) {
+      onShowStatus({ type: 'error', text: 'Please fix the form errors' });
+      return false;
+    }
+
+    if (selectedZipPath) {
+      try {
+        const report = await runPackageValidation(selectedZipPath);
+        if (!report.valid) {
           onShowStatus({
-            type: 'success',
-            text: `Image compressed to ${formatSize(compressionResult.compressedSize || 0)}`,
+            type: 'error',
+            text: 'Fix the mod package errors before uploading',
           });
-        } else {
-          onLog(
-            'success',
-            `Image OK: ${formatSize(compressionResult.originalSize)} (under 1MB limit)`,
-          );
-          onShowStatus({ type: 'info', text: `Selected: ${filename}` });
+          return false;
         }
-      } else {
-        onLog('info', 'Image selection cancelled');
+      } catch (error) {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        onLog('error', `Failed to check mod package: ${errorMsg}`);
+        onShowStatus({ type: 'error', text: 'Failed to check mod package' });
+        return false;
       }
-    } catch (error) {
-      const errorMsg =
-        error instanceof Error ? error.message : 'Unknown error';
-      onLog('error', `Failed to select preview image: ${errorMsg}`);
-      onShowStatus({ type: 'error', text: 'Failed to select preview image' });
     }
+
+    return true;
   };
 
-  const handleSubmitClick = (e: React.FormEvent) => {
+  const handleSubmitClick = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!validateForm()) {
-      onShowStatus({ type: 'error', text: 'Please fix the form errors' });
-      return;
+    if (await checkReadyToUpload()) {
+      // Show confirmation dialog
+      setConfirmUpload(true);
     }
-
-    // Show confirmation dialog
-    setConfirmUpload(true);
   };
 
-  const handleConfirmUpload = async () => {
-    setConfirmUpload(false);
-    setIsUploading(true);
-    setUploadProgress('Preparing upload...');
+  // Translations the backend can't publish, from the project or mod.js
+  const unpublishedLanguages = capabilities?.supportsLocalizations
+    ? []
+    : [...new Set([...Object.keys(localizations), ...translationLanguages])];
 
+  // Assemble the upload exactly as it will be sent (also used for the diff)
+  const buildUploadData = (): ModUploadData => {
     // Generate automatic change notes for trivial updates (no ZIP)
     let changeNotes = formData.changeNotes;
     if (editingItem && !selectedZipPath) {
@@ -298,6 +728,9 @@ export const ModEditor: React.FC<ModEditorProps> = ({
           `Changed visibility from ${editingItem.visibility} to ${formData.visibility}`,
         );
       }
+      if (previewsChanged) {
+        changes.push('Updated screenshots and videos');
+      }
       if (changes.length > 0) {
         changeNotes = `Minor update: ${changes.join(', ')}.`;
       } else {
@@ -309,9 +742,18 @@ export const ModEditor: React.FC<ModEditorProps> = ({
       title: formData.title,
       description: formData.description,
       tags: formData.tags,
+      allowUnknownTags: allowUnknownTags || undefined,
       visibility: formData.visibility,
       previewImagePath: selectedPreviewPath || undefined,
-      workshopId: editingItem?.publishedFileId,
+      additionalPreviews: previewsChanged ? additionalPreviews : undefined,
+      // Left out when the backend can't set them; the editor says so
+      localizations:
+        capabilities?.supportsLocalizations !== false &&
+        Object.keys(localizations).length > 0
+          ? localizations
+          : undefined,
+      workshopId:
+        editingItem?.publishedFileId ?? loadedProject?.manifest.workshopId,
       changeNotes: changeNotes || (editingItem ? 'Updated mod.' : undefined),
       change_note: changeNotes || (editingItem ? 'Updated mod.' : undefined),
     };
@@ -320,13 +762,33 @@ export const ModEditor: React.FC<ModEditorProps> = ({
       uploadData.zipPath = selectedZipPath;
     }
 
+    return uploadData;
+  };
+
+  const handleConfirmUpload = async () => {
+    setConfirmUpload(false);
+    setIsUploading(true);
+    setUploadProgress('Preparing upload...');
+    setUploadProgressEvent(null);
+
+    const uploadData = buildUploadData();
+
     try {
       setUploadProgress(
-        editingItem ? 'Updating workshop item...' : 'Uploading to Steam Workshop...',
+        editingItem
+          ? 'Updating workshop item...'
+          : 'Uploading to Steam Workshop...',
       );
-      const result = await onUpload(uploadData);
-      
-      if (result.success) {
+      const result = await onUpload(uploadData, {
+        projectPath: loadedProject?.projectPath,
+      });
+
+      if (result.success && result.needsToAcceptAgreement) {
+        // Stay here so the author sees why the item is not visible yet
+        setUploadProgress(null);
+        setUploadProgressEvent(null);
+        setAgreementItemId(result.publishedFileId ?? '');
+      } else if (result.success) {
         setUploadProgress('Upload complete!');
         // Small delay to show success before navigating back
         setTimeout(() => {
@@ -335,11 +797,41 @@ export const ModEditor: React.FC<ModEditorProps> = ({
       }
     } catch {
       setUploadProgress(null);
+      setUploadProgressEvent(null);
     } finally {
       setIsUploading(false);
     }
   };
 
+  // Queue this upload to publish later with other mods (see UploadQueuePanel)
+  const handleAddToQueue = async () => {
+    if (!(await checkReadyToUpload())) {
+      return;
+    }
+
+    try {
+      await window.electronAPI.addToUploadQueue([
+        {
+          modData: buildUploadData(),
+          projectPath: loadedProject?.projectPath,
+        },
+      ]);
+      onLog('info', `Added "${formData.title}" to the upload queue`);
+      onShowStatus({
+        type: 'success',
+        text: `Added "${formData.title}" to the upload queue`,
+      });
+      onBack();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to add to the upload queue: ${errorMsg}`);
+      onShowStatus({
+        type: 'error',
+        text: 'Failed to add to the upload queue',
+      });
+    }
+  };
+
   const handleCancelUpload = () => {
     setConfirmUpload(false);
   };
@@ -361,6 +853,83 @@ export const ModEditor: React.FC<ModEditorProps> = ({
       }
     };
 
+  const handleTagsChange = (tags: string[]) => {
+    setFormData((prev) => ({ ...prev, tags: tags.join(', ') }));
+    setErrors((prev) => ({ ...prev, tags: undefined }));
+  };
+
+  // Fill the change notes from the CHANGELOG or git; without replace, notes
+  // the user already typed are kept
+  const composeChangeNotes = async (
+    source: ChangeNoteSource,
+    request: Omit<ChangeNoteRequest, 'source'>,
+    replace = true,
+  ) => {
+    setComposingNotes(source);
+    try {
+      const draft = await window.electronAPI.composeChangeNotes({
+        source,
+        ...request,
+      });
+      setFormData((prev) =>
+        replace || !prev.changeNotes.trim()
+          ? { ...prev, changeNotes: draft.changeNotes }
+          : prev,
+      );
+      setChangeNoteSummary(draft.summary);
+      setErrors((prev) => ({ ...prev, changeNotes: undefined }));
+      onLog('info', `Change notes generated from ${draft.summary}`);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Could not generate change notes: ${errorMsg}`);
+      if (replace) {
+        onShowStatus({ type: 'error', text: errorMsg });
+      }
+    } finally {
+      setComposingNotes(null);
+    }
+  };
+
+  const handleComposeChangeNotes = (source: ChangeNoteSource) => {
+    if (!selectedZipPath) return;
+    composeChangeNotes(source, {
+      zipPath: selectedZipPath,
+      modDirectory: selectedPackage?.directory,
+      projectPath: loadedProject?.projectPath,
+      workshopId:
+        editingItem?.publishedFileId ?? loadedProject?.manifest.workshopId,
+    });
+  };
+
+  // The package's README wins over one beside workshop.json
+  const readme = packageReadme ?? loadedProject?.readme ?? null;
+
+  const handleUseReadme = () => {
+    if (!readme) return;
+    if (formData.description.trim()) {
+      setConfirmReadme(true);
+    } else {
+      handleDescriptionChange(readme.description);
+    }
+  };
+
+  const handleDescriptionChange = (description: string) => {
+    setFormData((prev) => ({ ...prev, description }));
+    if (errors.description) {
+      setErrors((prev) => ({ ...prev, description: undefined }));
+    }
+  };
+
+  const handleOpenAgreement = async () => {
+    onLog('info', 'Opening Steam Workshop legal agreement');
+    try {
+      await window.electronAPI.openWorkshopAgreement();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to open Workshop legal agreement: ${errorMsg}`);
+    }
+  };
+
   const handleOpenInSteam = async () => {
     if (editingItem) {
       onLog('info', `Opening workshop item in Steam: ${editingItem.title}`);
@@ -394,11 +963,29 @@ export const ModEditor: React.FC<ModEditorProps> = ({
               ← Back to Workshop Items
             </button>
             <div className="header-actions">
+              <button
+                className="game-button"
+                onClick={handleOpenProject}
+                disabled={isUploading || isPackaging}
+                title={loadedProject?.projectPath}
+              >
+                📂{' '}
+                {loadedProject
+                  ? loadedProject.projectPath.split(/[\\/]/).slice(-2).join('/')
+                  : 'Open Project'}
+              </button>
               {editingItem && (
                 <button className="game-button" onClick={handleOpenInSteam}>
                   🔗 Open in Steam
                 </button>
               )}
+              <button
+                className="game-button"
+                onClick={handleAddToQueue}
+                disabled={isUploading || isPackaging}
+              >
+                ➕ Add to Queue
+              </button>
               <button
                 type="submit"
                 form="mod-form"
@@ -416,32 +1003,86 @@ export const ModEditor: React.FC<ModEditorProps> = ({
             </div>
           </div>
 
+          {isUploading && <UploadProgressBar progress={uploadProgressEvent} />}
+
+          {agreementItemId !== null && (
+            <div className="agreement-warning">
+              <div className="agreement-warning-text">
+                <strong>Accept the Steam Workshop legal agreement</strong>
+                <p>
+                  Workshop item {agreementItemId} was uploaded, but Steam keeps
+                  it hidden from everyone else until you accept the agreement.
+                </p>
+              </div>
+              <div className="agreement-warning-actions">
+                <button
+                  className="game-button primary"
+                  onClick={handleOpenAgreement}
+                >
+                  Open Agreement
+                </button>
+                <button className="game-button" onClick={onBack}>
+                  Back to List
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="form-container">
             <form id="mod-form" onSubmit={handleSubmitClick}>
               <div className="form-group">
                 <label>
-                  {editingItem ? 'New Mod Package (.zip)' : 'Mod Package (.zip)*'}
+                  {editingItem
+                    ? 'New Mod Package (.zip or folder)'
+                    : 'Mod Package (.zip or folder)*'}
                 </label>
                 <div className="file-input-wrapper">
                   <button
                     type="button"
                     className="game-button"
                     onClick={handleSelectZip}
-                    disabled={isUploading}
+                    disabled={isUploading || isPackaging}
                   >
                     Select ZIP File
                   </button>
+                  <button
+                    type="button"
+                    className="game-button"
+                    onClick={handleSelectFolder}
+                    disabled={isUploading || isPackaging}
+                  >
+                    {isPackaging ? 'Packaging...' : 'Select Mod Folder'}
+                  </button>
                   <span className="file-path">
-                    {selectedZipPath
-                      ? selectedZipPath.split(/[\\/]/).pop()
-                      : editingItem
-                        ? 'No new file selected (will keep existing)'
-                        : 'No file selected'}
+                    {selectedPackage
+                      ? `${selectedPackage.directory.split(/[\\/]/).pop()} (${selectedPackage.files.length} files, sha256 ${selectedPackage.sha256.slice(0, 12)})`
+                      : selectedZipPath
+                        ? selectedZipPath.split(/[\\/]/).pop()
+                        : editingItem
+                          ? 'No new file selected (will keep existing)'
+                          : 'No file selected'}
                   </span>
                 </div>
                 {errors.zipPath && (
                   <div className="form-error">{errors.zipPath}</div>
                 )}
+                <ValidationReportView report={validationReport} />
+                {versionCheck?.message && (
+                  <div className="validation-report warnings">
+                    <div className="validation-summary">
+                      Mod version not raised
+                    </div>
+                    {versionCheck.message}
+                  </div>
+                )}
+                <DependencyList
+                  dependencies={dependencies}
+                  unsupportedBy={
+                    capabilities?.supportsDependencies === false
+                      ? capabilities.name
+                      : undefined
+                  }
+                />
               </div>
 
               <div className="form-group">
@@ -464,22 +1105,75 @@ export const ModEditor: React.FC<ModEditorProps> = ({
 
               <div className="form-group">
                 <label>Description*</label>
-                <textarea
-                  className={`game-input ${errors.description ? 'error' : ''}`}
-                  rows={6}
+                {readme && (
+                  <div className="readme-offer">
+                    <div className="readme-offer-header">
+                      <span title={readme.file}>
+                        📄 Found {readme.file.split(/[\\/]/).pop()}
+                      </span>
+                      <button
+                        type="button"
+                        className="game-button small"
+                        onClick={handleUseReadme}
+                        disabled={
+                          isUploading ||
+                          formData.description === readme.description
+                        }
+                      >
+                        {formData.description === readme.description
+                          ? 'Using README'
+                          : 'Use README as Description'}
+                      </button>
+                    </div>
+                    {readme.relativeImages.length > 0 && (
+                      <ul className="validation-issues">
+                        {readme.relativeImages.map((image) => (
+                          <li key={image} className="validation-issue warning">
+                            <span className="validation-severity">!</span>
+                            <span>
+                              Image <code>{image}</code> is a relative path.
+                              Steam only shows images from an https:// address,
+                              so upload it elsewhere and update the link.
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+                <DescriptionEditor
                   value={formData.description}
-                  onChange={handleInputChange('description')}
-                  placeholder="Describe your mod..."
+                  onChange={handleDescriptionChange}
+                  maxLength={8000}
+                  error={errors.description}
                   disabled={isUploading}
                 />
-                {errors.description && (
-                  <div className="form-error">{errors.description}</div>
-                )}
-                <div className="form-hint">
-                  {formData.description.length}/8000 characters
-                </div>
               </div>
 
+              {capabilities && (
+                <div className="form-group">
+                  <label>Translations</label>
+                  {capabilities.supportsLocalizations ? (
+                    <LocalizationEditor
+                      localizations={localizations}
+                      onChange={setLocalizations}
+                      suggestedLanguages={translationLanguages}
+                      disabled={isUploading}
+                    />
+                  ) : (
+                    <div className="validation-report warnings">
+                      <div className="validation-summary">
+                        Translations must be added on the Workshop page
+                      </div>
+                      The {capabilities.name} backend cannot publish
+                      per-language titles and descriptions.
+                      {unpublishedLanguages.length > 0 &&
+                        ` Add the ${unpublishedLanguages.map(getWorkshopLanguageName).join(', ')} text on the item's Workshop page after uploading.`}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="form-group">
                 <label>
                   {editingItem ? 'New Preview Image' : 'Preview Image'}
@@ -511,7 +1205,9 @@ export const ModEditor: React.FC<ModEditorProps> = ({
                         {previewImageInfo.compressedSize} (Steam limit: 1MB)
                       </>
                     ) : (
-                      <>Size: {previewImageInfo.originalSize} (under 1MB limit)</>
+                      <>
+                        Size: {previewImageInfo.originalSize} (under 1MB limit)
+                      </>
                     )}
                   </div>
                 )}
@@ -522,16 +1218,45 @@ export const ModEditor: React.FC<ModEditorProps> = ({
                 />
               </div>
 
+              {capabilities && (
+                <div className="form-group">
+                  <label>Screenshots & Videos</label>
+                  {capabilities.supportsAdditionalPreviews ? (
+                    <PreviewGallery
+                      previews={additionalPreviews}
+                      onChange={updateAdditionalPreviews}
+                      onAddScreenshot={handleAddScreenshot}
+                      disabled={isUploading}
+                      existingUnknown={
+                        Boolean(editingItem) && !editingItem?.additionalPreviews
+                      }
+                    />
+                  ) : (
+                    <div className="form-help">
+                      The {capabilities.name} backend cannot change extra
+                      screenshots or videos here; manage them on the item&apos;s
+                      Workshop page.
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div className="form-group">
-                <label>Tags (comma-separated)</label>
-                <input
-                  type="text"
-                  className="game-input"
-                  value={formData.tags}
-                  onChange={handleInputChange('tags')}
-                  placeholder="e.g., cultivation, items, balance"
+                <label>Tags</label>
+                <TagPicker
+                  value={parseTagList(formData.tags)}
+                  onChange={handleTagsChange}
+                  vocabulary={tagVocabulary}
+                  suggestions={detectedTags}
+                  liveTags={editingItem?.tags}
+                  allowUnknown={allowUnknownTags}
+                  onAllowUnknownChange={(allow) => {
+                    setAllowUnknownTags(allow);
+                    setErrors((prev) => ({ ...prev, tags: undefined }));
+                  }}
                   disabled={isUploading}
                 />
+                {errors.tags && <div className="form-error">{errors.tags}</div>}
               </div>
 
               <div className="form-group">
@@ -549,28 +1274,63 @@ export const ModEditor: React.FC<ModEditorProps> = ({
                 </select>
               </div>
 
-              {editingItem && selectedZipPath && (
-                <div className="form-group">
-                  <label>Change Notes*</label>
-                  <textarea
-                    className={`game-input ${errors.changeNotes ? 'error' : ''}`}
-                    rows={4}
-                    value={formData.changeNotes}
-                    onChange={handleInputChange('changeNotes')}
-                    placeholder="Describe what's new in this version..."
-                    disabled={isUploading}
-                  />
-                  {errors.changeNotes && (
-                    <div className="form-error">{errors.changeNotes}</div>
-                  )}
-                  <div className="form-help">
-                    Required when updating an existing mod. Describe what's
-                    changed or improved.
+              {selectedZipPath &&
+                (editingItem || loadedProject?.manifest.workshopId) && (
+                  <div className="form-group">
+                    <label>Change Notes{editingItem && '*'}</label>
+                    <div className="change-notes-sources">
+                      <button
+                        type="button"
+                        className="game-button small"
+                        onClick={() => handleComposeChangeNotes('changelog')}
+                        disabled={isUploading || composingNotes !== null}
+                        title="Use the CHANGELOG.md section for this version"
+                      >
+                        {composingNotes === 'changelog'
+                          ? 'Reading...'
+                          : '📋 From CHANGELOG'}
+                      </button>
+                      <button
+                        type="button"
+                        className="game-button small"
+                        onClick={() => handleComposeChangeNotes('git')}
+                        disabled={isUploading || composingNotes !== null}
+                        title="List the git commits since this item's last upload"
+                      >
+                        {composingNotes === 'git'
+                          ? 'Reading...'
+                          : '🌿 From Git'}
+                      </button>
+                    </div>
+                    <textarea
+                      className={`game-input ${errors.changeNotes ? 'error' : ''}`}
+                      rows={6}
+                      value={formData.changeNotes}
+                      onChange={handleInputChange('changeNotes')}
+                      placeholder="Describe what's new in this version..."
+                      disabled={isUploading}
+                    />
+                    {errors.changeNotes && (
+                      <div className="form-error">{errors.changeNotes}</div>
+                    )}
+                    {changeNoteSummary && (
+                      <div className="form-hint">
+                        Generated from {changeNoteSummary}; edit before
+                        publishing
+                      </div>
+                    )}
+                    <div className="form-help">
+                      Required when updating an existing mod. Describe what's
+                      changed or improved; Steam BBCode is supported.
+                    </div>
                   </div>
-                </div>
-              )}
+                )}
             </form>
           </div>
+
+          {editingItem && (
+            <UploadHistoryTimeline workshopId={editingItem.publishedFileId} />
+          )}
         </div>
 
         <DebugConsole messages={debugMessages} onClear={onClearDebug} />
@@ -578,10 +1338,12 @@ export const ModEditor: React.FC<ModEditorProps> = ({
 
       <ConfirmDialog
         isOpen={confirmUpload}
-        title={editingItem ? 'Update Workshop Item?' : 'Upload to Steam Workshop?'}
+        title={
+          editingItem ? 'Update Workshop Item?' : 'Upload to Steam Workshop?'
+        }
         message={
           editingItem
-            ? `Are you sure you want to update "${formData.title}"? This will publish the changes to Steam Workshop.`
+            ? `Review what will change on "${editingItem.title}" before publishing to Steam Workshop.`
             : `Are you sure you want to upload "${formData.title}" to Steam Workshop?`
         }
         confirmText={editingItem ? 'Update' : 'Upload'}
@@ -589,6 +1351,31 @@ export const ModEditor: React.FC<ModEditorProps> = ({
         confirmType="primary"
         onConfirm={handleConfirmUpload}
         onCancel={handleCancelUpload}
+      >
+        {confirmUpload && versionCheck?.message && (
+          <div className="form-error">⚠ {versionCheck.message}</div>
+        )}
+        {confirmUpload && editingItem && (
+          <WorkshopItemDiffView
+            diff={diffWorkshopItem(
+              editingItem,
+              buildUploadData(),
+              tagVocabulary ?? undefined,
+            )}
+          />
+        )}
+      </ConfirmDialog>
+
+      <ConfirmDialog
+        isOpen={confirmReadme}
+        title="Replace Description?"
+        message="Replace the current description with the README, converted to BBCode?"
+        confirmText="Replace"
+        onConfirm={() => {
+          if (readme) handleDescriptionChange(readme.description);
+          setConfirmReadme(false);
+        }}
+        onCancel={() => setConfirmReadme(false)}
       />
     </div>
   );
@@ -1,14 +1,37 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { WorkshopItem, WorkshopItemsResult } from '../types';
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from 'react';
+import {
+  CatalogueExportFormat,
+  WorkshopItem,
+  WorkshopItemsResult,
+} from '../types';
 import { DebugMessage } from '../hooks/useDebugLog';
+import { useWorkshopItemListView } from '../hooks/useWorkshopItemListView';
+import {
+  DEFAULT_LIST_VIEW,
+  applyListView,
+  collectItemTags,
+} from '../utils/workshop-item-filter';
 import { GameTitle } from './GameTitle';
 import { DebugConsole } from './DebugConsole';
 import { ConfirmDialog } from './ConfirmDialog';
 import { SteamStatus } from './SteamStatus';
+import { ModListToolbar } from './ModListToolbar';
+
+// Give up once Steam has sent nothing for this long; a retry extends it by
+// the retry's delay (see onWorkshopItemsRetrying)
+const ITEMS_INACTIVITY_TIMEOUT = 5000;
 
 interface ModListProps {
   onCreateNew: () => void;
   onEditItem?: (item: WorkshopItem) => void;
+  onViewDetails: (item: WorkshopItem) => void;
+  onOpenQueue: () => void;
   onLog: (type: 'error' | 'info' | 'success', message: string) => void;
   debugMessages: DebugMessage[];
   onClearDebug: () => void;
@@ -17,6 +40,8 @@ interface ModListProps {
 export const ModList: React.FC<ModListProps> = ({
   onCreateNew,
   onEditItem,
+  onViewDetails,
+  onOpenQueue,
   onLog,
   debugMessages,
   onClearDebug,
@@ -24,71 +49,164 @@ export const ModList: React.FC<ModListProps> = ({
   const [workshopItems, setWorkshopItems] = useState<WorkshopItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [statusMessage, setStatusMessage] = useState<string>('');
-  const [status, setStatus] = useState<
-    'success' | 'steam_not_connected' | 'error'
-  >('success');
+  const [status, setStatus] =
+    useState<WorkshopItemsResult['status']>('success');
   const [deleteConfirm, setDeleteConfirm] = useState<{
     isOpen: boolean;
     item: WorkshopItem | null;
   }>({ isOpen: false, item: null });
   const [deleting, setDeleting] = useState(false);
+  const [refreshing, setRefreshing] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<{
+    loaded: number;
+    total: number;
+  } | null>(null);
+  // Items streamed so far for the current query, and the inactivity timer reset hook
+  const streamedItemsRef = useRef<{ queryId: number; items: WorkshopItem[] }>({
+    queryId: 0,
+    items: [],
+  });
+  const resetTimeoutRef = useRef<((extraDelay?: number) => void) | null>(null);
+  const loadRequestRef = useRef(0);
+  const { view, updateView } = useWorkshopItemListView();
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportFormat, setExportFormat] =
+    useState<CatalogueExportFormat>('csv');
+  const [exportHistory, setExportHistory] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
-  const loadWorkshopItems = useCallback(async () => {
-    setLoading(true);
-    let timeoutId: NodeJS.Timeout | null = null;
+  const visibleItems = useMemo(
+    () => applyListView(workshopItems, view),
+    [workshopItems, view],
+  );
+  const itemTags = useMemo(
+    () => collectItemTags(workshopItems),
+    [workshopItems],
+  );
 
-    try {
-      onLog('info', 'Loading your Steam Workshop items...');
-
-      // Add timeout to prevent hanging
-      const timeoutPromise = new Promise<WorkshopItemsResult>((resolve) => {
-        timeoutId = setTimeout(
-          () =>
-            resolve({
-              items: [],
-              status: 'error',
-              message: 'Request timed out - Steam may not be responding',
-            }),
-          5000,
-        );
-      });
+  const handleClearFilters = () => {
+    updateView({
+      search: DEFAULT_LIST_VIEW.search,
+      visibility: DEFAULT_LIST_VIEW.visibility,
+      tag: DEFAULT_LIST_VIEW.tag,
+    });
+  };
 
-      const result = await Promise.race([
-        window.electronAPI.getWorkshopItems(),
-        timeoutPromise,
-      ]);
+  const loadWorkshopItems = useCallback(
+    async (forceRefresh = false) => {
+      const loadRequest = ++loadRequestRef.current;
+      setRefreshing(true);
+      setLoadProgress(null);
+      let timeoutId: NodeJS.Timeout | null = null;
 
-      // Clear timeout if the request completed first
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-      }
+      try {
+        onLog('info', 'Loading your Steam Workshop items...');
 
-      setWorkshopItems(Array.isArray(result.items) ? result.items : []);
-      setStatus(result.status);
-      setStatusMessage(result.message || '');
+        // Time out if Steam stops sending pages, rather than on total duration
+        const timeoutPromise = new Promise<WorkshopItemsResult>((resolve) => {
+          const armTimeout = (extraDelay = 0) => {
+            if (timeoutId) {
+              clearTimeout(timeoutId);
+            }
+            timeoutId = setTimeout(() => {
+              window.electronAPI.cancelWorkshopItemsQuery();
+              resolve({
+                items: streamedItemsRef.current.items,
+                status: 'error',
+                message: 'Request timed out - Steam may not be responding',
+              });
+            }, ITEMS_INACTIVITY_TIMEOUT + extraDelay);
+          };
+          resetTimeoutRef.current = armTimeout;
+          armTimeout();
+        });
 
-      if (result.status === 'success') {
-        if (result.items && result.items.length > 0) {
-          onLog('success', `Loaded ${result.items.length} workshop items`);
+        const result = await Promise.race([
+          window.electronAPI.getWorkshopItems({ forceRefresh }),
+          timeoutPromise,
+        ]);
+
+        if (result.status === 'cancelled') {
+          onLog('info', 'Workshop items query cancelled');
+          return;
+        }
+
+        setWorkshopItems(Array.isArray(result.items) ? result.items : []);
+        setStatus(result.status);
+        setStatusMessage(result.message || '');
+
+        if (result.status === 'success') {
+          if (result.items && result.items.length > 0) {
+            onLog(
+              'success',
+              `Loaded ${result.items.length} workshop items${result.fromCache ? ' (cached)' : ''}`,
+            );
+          } else {
+            onLog('info', result.message || 'No workshop items found');
+          }
+        } else if (result.status === 'steam_not_connected') {
+          onLog('error', result.message || 'Steam is not connected');
         } else {
-          onLog('info', result.message || 'No workshop items found');
+          onLog('error', result.message || 'Failed to load workshop items');
+        }
+      } catch (error) {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        onLog('error', `Failed to load workshop items: ${errorMsg}`);
+        setWorkshopItems([]);
+        setStatus('error');
+        setStatusMessage(`Failed to load workshop items: ${errorMsg}`);
+      } finally {
+        // Clear timeout if the request completed first
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+        // A newer load superseded this one; leave its state alone
+        if (loadRequest === loadRequestRef.current) {
+          resetTimeoutRef.current = null;
+          setLoadProgress(null);
+          setRefreshing(false);
+          setLoading(false);
         }
-      } else if (result.status === 'steam_not_connected') {
-        onLog('error', result.message || 'Steam is not connected');
-      } else {
-        onLog('error', result.message || 'Failed to load workshop items');
       }
-    } catch (error) {
-      const errorMsg =
-        error instanceof Error ? error.message : 'Unknown error';
-      onLog('error', `Failed to load workshop items: ${errorMsg}`);
-      setWorkshopItems([]);
-      setStatus('error');
-      setStatusMessage(`Failed to load workshop items: ${errorMsg}`);
-    } finally {
+    },
+    [onLog],
+  );
+
+  // Show pages as they arrive so large catalogues appear progressively
+  useEffect(() => {
+    const unsubscribe = window.electronAPI.onWorkshopItemsPage((page) => {
+      const streamed = streamedItemsRef.current;
+      const items =
+        page.queryId === streamed.queryId
+          ? [...streamed.items, ...page.items]
+          : page.items;
+      streamedItemsRef.current = { queryId: page.queryId, items };
+
+      resetTimeoutRef.current?.();
+      setWorkshopItems(items);
+      setLoadProgress({ loaded: page.loaded, total: page.totalResults });
       setLoading(false);
-    }
-  }, [onLog]);
+    });
+
+    return () => {
+      unsubscribe();
+      window.electronAPI.cancelWorkshopItemsQuery();
+    };
+  }, []);
+
+  // Main is waiting to fetch a page again, not stuck
+  useEffect(
+    () =>
+      window.electronAPI.onWorkshopItemsRetrying((retry) => {
+        resetTimeoutRef.current?.(retry.delay);
+        onLog(
+          'info',
+          `Loading page ${retry.page} failed (${retry.message}), retrying in ${retry.delay / 1000}s (attempt ${retry.attempt + 1}/${retry.maxAttempts})`,
+        );
+      }),
+    [onLog],
+  );
 
   useEffect(() => {
     // Wait for Steam to initialize
@@ -108,7 +226,30 @@ export const ModList: React.FC<ModListProps> = ({
   }, [loadWorkshopItems]);
 
   const handleRefresh = () => {
-    loadWorkshopItems();
+    loadWorkshopItems(true);
+  };
+
+  // Exports every loaded item, regardless of the search and filters
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const filePath = await window.electronAPI.exportWorkshopCatalogue(
+        workshopItems,
+        { format: exportFormat, includeHistory: exportHistory },
+      );
+      if (filePath) {
+        onLog(
+          'success',
+          `Exported ${workshopItems.length} workshop items to ${filePath}`,
+        );
+        setExportOpen(false);
+      }
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to export workshop items: ${errorMsg}`);
+    } finally {
+      setExporting(false);
+    }
   };
 
   const handleDeleteClick = (item: WorkshopItem, e: React.MouseEvent) => {
@@ -139,8 +280,7 @@ export const ModList: React.FC<ModListProps> = ({
         onLog('error', `Failed to delete: ${result.error}`);
       }
     } catch (error) {
-      const errorMsg =
-        error instanceof Error ? error.message : 'Unknown error';
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
       onLog('error', `Failed to delete: ${errorMsg}`);
     } finally {
       setDeleting(false);
@@ -178,15 +318,77 @@ export const ModList: React.FC<ModListProps> = ({
         <div className="section">
           <div className="section-header">
             <SteamStatus onRetry={handleRefresh} />
-            <button
-              className="game-button small"
-              onClick={handleRefresh}
-              disabled={loading}
-            >
-              {loading ? 'Refreshing...' : '🔄 Refresh'}
-            </button>
+            <div className="header-actions">
+              <button className="game-button small" onClick={onOpenQueue}>
+                📦 Upload Queue
+              </button>
+              <button
+                className="game-button small"
+                onClick={() => setExportOpen((open) => !open)}
+                disabled={workshopItems.length === 0}
+              >
+                📤 Export
+              </button>
+              <button
+                className="game-button small"
+                onClick={handleRefresh}
+                disabled={refreshing}
+              >
+                {refreshing ? 'Refreshing...' : '🔄 Refresh'}
+              </button>
+            </div>
           </div>
 
+          {exportOpen && (
+            <div className="mod-list-export">
+              <select
+                className="game-input mod-list-select"
+                value={exportFormat}
+                onChange={(e) =>
+                  setExportFormat(e.target.value as CatalogueExportFormat)
+                }
+                disabled={exporting}
+              >
+                <option value="csv">CSV</option>
+                <option value="json">JSON</option>
+              </select>
+              <label className="mod-list-export-option">
+                <input
+                  type="checkbox"
+                  checked={exportHistory}
+                  onChange={(e) => setExportHistory(e.target.checked)}
+                  disabled={exporting}
+                />
+                Include stats history
+              </label>
+              <button
+                className="game-button small primary"
+                onClick={handleExport}
+                disabled={exporting}
+              >
+                {exporting
+                  ? 'Exporting...'
+                  : `Export ${workshopItems.length} Items`}
+              </button>
+            </div>
+          )}
+
+          {loadProgress && loadProgress.loaded < loadProgress.total && (
+            <div className="mod-list-progress">
+              Loaded {loadProgress.loaded} of {loadProgress.total} items...
+            </div>
+          )}
+
+          {workshopItems.length > 0 && (
+            <ModListToolbar
+              view={view}
+              onChange={updateView}
+              tags={itemTags}
+              shownCount={visibleItems.length}
+              totalCount={workshopItems.length}
+            />
+          )}
+
           <div className="mod-list-container">
             <div className="mod-list">
               {/* Create New Mod - Always at top */}
@@ -220,12 +422,28 @@ export const ModList: React.FC<ModListProps> = ({
                     </button>
                   )}
                 </div>
+              ) : visibleItems.length === 0 ? (
+                <div className="no-mods">
+                  <p>🔍 No Matching Items</p>
+                  <p>
+                    None of your {workshopItems.length} workshop items match the
+                    current search and filters.
+                  </p>
+                  <button
+                    className="game-button small"
+                    onClick={handleClearFilters}
+                    style={{ marginTop: '10px' }}
+                  >
+                    Clear Filters
+                  </button>
+                </div>
               ) : (
-                workshopItems.map((item) => (
+                visibleItems.map((item) => (
                   <WorkshopItemCard
                     key={item.publishedFileId}
                     item={item}
                     onEdit={onEditItem}
+                    onViewDetails={onViewDetails}
                     onDelete={handleDeleteClick}
                     onLog={onLog}
                   />
@@ -256,6 +474,7 @@ export const ModList: React.FC<ModListProps> = ({
 interface WorkshopItemCardProps {
   item: WorkshopItem;
   onEdit?: (item: WorkshopItem) => void;
+  onViewDetails: (item: WorkshopItem) => void;
   onDelete: (item: WorkshopItem, e: React.MouseEvent) => void;
   onLog: (type: 'error' | 'info' | 'success', message: string) => void;
 }
@@ -263,6 +482,7 @@ interface WorkshopItemCardProps {
 const WorkshopItemCard: React.FC<WorkshopItemCardProps> = ({
   item,
   onEdit,
+  onViewDetails,
   onDelete,
   onLog,
 }) => {
@@ -290,10 +510,22 @@ const WorkshopItemCard: React.FC<WorkshopItemCardProps> = ({
             <span className="stat-icon">👁</span>
             {item.views || 0}
           </span>
-          <span className="mod-visibility-badge-compact">{item.visibility}</span>
+          <span className="mod-visibility-badge-compact">
+            {item.visibility}
+          </span>
         </div>
       </div>
       <div className="mod-item-actions">
+        <button
+          className="game-button small"
+          onClick={(e) => {
+            e.stopPropagation();
+            onViewDetails(item);
+          }}
+          title="Stats history and details"
+        >
+          📈
+        </button>
         <button
           className="game-button small danger"
           onClick={(e) => onDelete(item, e)}
@@ -0,0 +1,107 @@
+import React from 'react';
+import { WorkshopItemListView, WorkshopItemSortKey } from '../types';
+import {
+  SORT_OPTIONS,
+  VISIBILITY_OPTIONS,
+  getDefaultSortDirection,
+} from '../utils/workshop-item-filter';
+
+interface ModListToolbarProps {
+  view: WorkshopItemListView;
+  onChange: (changes: Partial<WorkshopItemListView>) => void;
+  tags: string[];
+  shownCount: number;
+  totalCount: number;
+}
+
+export const ModListToolbar: React.FC<ModListToolbarProps> = ({
+  view,
+  onChange,
+  tags,
+  shownCount,
+  totalCount,
+}) => {
+  // A remembered tag that no item uses any more stays selectable, so the
+  // empty result can be explained and cleared
+  const selectedTag = tags.find(
+    (tag) => tag.toLowerCase() === view.tag.toLowerCase(),
+  );
+  const tagOptions = view.tag && !selectedTag ? [view.tag, ...tags] : tags;
+
+  const handleSortChange = (sortBy: WorkshopItemSortKey) => {
+    onChange({ sortBy, sortDirection: getDefaultSortDirection(sortBy) });
+  };
+
+  return (
+    <div className="mod-list-toolbar">
+      <input
+        type="search"
+        className="game-input mod-list-search"
+        value={view.search}
+        onChange={(e) => onChange({ search: e.target.value })}
+        placeholder="Search titles, descriptions and tags"
+      />
+      <select
+        className="game-input mod-list-select"
+        value={view.sortBy}
+        onChange={(e) =>
+          handleSortChange(e.target.value as WorkshopItemSortKey)
+        }
+        title="Sort by"
+      >
+        {SORT_OPTIONS.map((option) => (
+          <option key={option.key} value={option.key}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className="game-button small"
+        onClick={() =>
+          onChange({
+            sortDirection: view.sortDirection === 'asc' ? 'desc' : 'asc',
+          })
+        }
+        title={view.sortDirection === 'asc' ? 'Ascending' : 'Descending'}
+      >
+        {view.sortDirection === 'asc' ? '▲' : '▼'}
+      </button>
+      <select
+        className="game-input mod-list-select"
+        value={view.visibility}
+        onChange={(e) =>
+          onChange({
+            visibility: e.target.value as WorkshopItemListView['visibility'],
+          })
+        }
+        title="Visibility"
+      >
+        <option value="all">Any visibility</option>
+        {VISIBILITY_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <select
+        className="game-input mod-list-select"
+        value={selectedTag ?? view.tag}
+        onChange={(e) => onChange({ tag: e.target.value })}
+        title="Tag"
+      >
+        <option value="">Any tag</option>
+        {tagOptions.map((tag) => (
+          <option key={tag} value={tag}>
+            {tag}
+          </option>
+        ))}
+      </select>
+      {shownCount !== totalCount && (
+        <span className="mod-list-count">
+          {shownCount} of {totalCount}
+        </span>
+      )}
+    </div>
+  );
+};
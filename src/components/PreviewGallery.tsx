@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { AdditionalPreview } from '../types';
+import {
+  getYouTubeThumbnailUrl,
+  parseYouTubeVideoId,
+} from '../utils/preview-media';
+import { ImagePreview } from './ImagePreview';
+
+interface PreviewGalleryProps {
+  previews: AdditionalPreview[];
+  onChange: (previews: AdditionalPreview[]) => void;
+  onAddScreenshot: () => void;
+  disabled?: boolean;
+  // Editing an item whose existing extra previews the backend can't report
+  existingUnknown?: boolean;
+}
+
+const PreviewThumbnail: React.FC<{ preview: AdditionalPreview }> = ({
+  preview,
+}) => {
+  if (preview.type === 'video') {
+    return (
+      <div className="image-preview gallery-thumbnail">
+        <img
+          src={getYouTubeThumbnailUrl(preview.videoId)}
+          alt={`YouTube video ${preview.videoId}`}
+          className="image-preview-img"
+        />
+        <span className="gallery-video-badge">▶ {preview.videoId}</span>
+      </div>
+    );
+  }
+
+  if (preview.path) {
+    return (
+      <ImagePreview
+        filePath={preview.path}
+        alt="Screenshot"
+        className="gallery-thumbnail"
+      />
+    );
+  }
+
+  return (
+    <div className="image-preview gallery-thumbnail">
+      <img src={preview.url} alt="Screenshot" className="image-preview-img" />
+    </div>
+  );
+};
+
+export const PreviewGallery: React.FC<PreviewGalleryProps> = ({
+  previews,
+  onChange,
+  onAddScreenshot,
+  disabled = false,
+  existingUnknown = false,
+}) => {
+  const [videoInput, setVideoInput] = useState('');
+  const [videoError, setVideoError] = useState<string | null>(null);
+
+  const move = (index: number, offset: number) => {
+    const next = [...previews];
+    const [preview] = next.splice(index, 1);
+    next.splice(index + offset, 0, preview);
+    onChange(next);
+  };
+
+  const remove = (index: number) => {
+    onChange(previews.filter((_, i) => i !== index));
+  };
+
+  const handleAddVideo = () => {
+    const videoId = parseYouTubeVideoId(videoInput);
+    if (!videoId) {
+      setVideoError('Enter a YouTube video ID or link');
+      return;
+    }
+    onChange([...previews, { type: 'video', videoId }]);
+    setVideoInput('');
+    setVideoError(null);
+  };
+
+  return (
+    <div className="preview-gallery">
+      {existingUnknown && (
+        <div className="form-hint">
+          Existing screenshots and videos can't be loaded for this item;
+          changing the gallery replaces them.
+        </div>
+      )}
+      {previews.length > 0 && (
+        <ol className="preview-gallery-list">
+          {previews.map((preview, index) => (
+            <li
+              key={`${index}-${preview.type === 'video' ? preview.videoId : (preview.path ?? preview.url)}`}
+              className="preview-gallery-item"
+            >
+              <PreviewThumbnail preview={preview} />
+              <div className="preview-gallery-controls">
+                <button
+                  type="button"
+                  className="game-button small"
+                  onClick={() => move(index, -1)}
+                  disabled={disabled || index === 0}
+                  title="Move earlier"
+                >
+                  ◀
+                </button>
+                <button
+                  type="button"
+                  className="game-button small"
+                  onClick={() => move(index, 1)}
+                  disabled={disabled || index === previews.length - 1}
+                  title="Move later"
+                >
+                  ▶
+                </button>
+                <button
+                  type="button"
+                  className="game-button small danger"
+                  onClick={() => remove(index)}
+                  disabled={disabled}
+                  title="Remove"
+                >
+                  ✕
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+      <div className="file-input-wrapper">
+        <button
+          type="button"
+          className="game-button"
+          onClick={onAddScreenshot}
+          disabled={disabled}
+        >
+          Add Screenshot
+        </button>
+        <input
+          type="text"
+          className="game-input"
+          value={videoInput}
+          onChange={(e) => {
+            setVideoInput(e.target.value);
+            setVideoError(null);
+          }}
+          placeholder="YouTube video ID or link"
+          disabled={disabled}
+        />
+        <button
+          type="button"
+          className="game-button"
+          onClick={handleAddVideo}
+          disabled={disabled || !videoInput.trim()}
+        >
+          Add Video
+        </button>
+      </div>
+      {videoError && <div className="form-error">{videoError}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { StatPoint } from '../utils/item-stats';
+
+interface StatsChartMarker {
+  timestamp: number;
+  label: string;
+}
+
+interface StatsChartProps {
+  points: StatPoint[]; // Oldest first; each value holds until the next point
+  markers?: StatsChartMarker[];
+}
+
+const WIDTH = 600;
+const HEIGHT = 120;
+const PADDING = 6;
+
+export const StatsChart: React.FC<StatsChartProps> = ({
+  points,
+  markers = [],
+}) => {
+  const start = points[0].timestamp;
+  const end = points[points.length - 1].timestamp;
+  const values = points.map((point) => point.value);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+
+  const x = (timestamp: number) =>
+    end === start
+      ? WIDTH / 2
+      : PADDING + ((timestamp - start) / (end - start)) * (WIDTH - 2 * PADDING);
+  const y = (value: number) =>
+    max === min
+      ? HEIGHT / 2
+      : HEIGHT -
+        PADDING -
+        ((value - min) / (max - min)) * (HEIGHT - 2 * PADDING);
+
+  // Step line: horizontal to the next point's time, then up or down to its value
+  const path = points
+    .map((point, index) => {
+      const previous = points[index - 1];
+      return previous
+        ? `H ${x(point.timestamp)} V ${y(point.value)}`
+        : `M ${x(point.timestamp)} ${y(point.value)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="stats-chart">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className="stats-chart-svg"
+      >
+        {markers
+          .filter(
+            (marker) => marker.timestamp >= start && marker.timestamp <= end,
+          )
+          .map((marker) => (
+            <line
+              key={`${marker.timestamp}-${marker.label}`}
+              className="stats-chart-marker"
+              x1={x(marker.timestamp)}
+              x2={x(marker.timestamp)}
+              y1={0}
+              y2={HEIGHT}
+            >
+              <title>{marker.label}</title>
+            </line>
+          ))}
+        <path className="stats-chart-line" d={path} />
+      </svg>
+      <div className="stats-chart-axis">
+        <span>{new Date(start).toLocaleDateString()}</span>
+        <span>{min === max ? min : `${min} – ${max}`}</span>
+        <span>{new Date(end).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+};
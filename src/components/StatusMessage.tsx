@@ -2,15 +2,20 @@ import React, { useEffect } from 'react';
 
 interface StatusMessageProps {
   message: {
-    type: 'success' | 'error' | 'info';
+    type: 'success' | 'error' | 'info' | 'warning';
     text: string;
+    action?: { label: string; onClick: () => void };
   } | null;
   onDismiss: () => void;
 }
 
-export const StatusMessage: React.FC<StatusMessageProps> = ({ message, onDismiss }) => {
+export const StatusMessage: React.FC<StatusMessageProps> = ({
+  message,
+  onDismiss,
+}) => {
   useEffect(() => {
-    if (message) {
+    // Messages with an action stay until the user deals with them
+    if (message && !message.action) {
       const timer = setTimeout(onDismiss, 5000);
       return () => clearTimeout(timer);
     }
@@ -21,6 +26,19 @@ export const StatusMessage: React.FC<StatusMessageProps> = ({ message, onDismiss
   return (
     <div className={`status-message ${message.type}`}>
       {message.text}
+      {message.action && (
+        <div className="status-message-actions">
+          <button
+            className="game-button small"
+            onClick={message.action.onClick}
+          >
+            {message.action.label}
+          </button>
+          <button className="game-button small" onClick={onDismiss}>
+            Dismiss
+          </button>
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -62,6 +62,7 @@ export const SteamStatus: React.FC<SteamStatusProps> = ({ onRetry }) => {
       <span className="steam-status-icon">✓</span>
       <span className="steam-status-text">
         Connected as <strong>{status.userName}</strong>
+        {status.backend === 'fake' && ' (offline fake backend)'}
       </span>
     </div>
   );
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { DetectedTag, TagVocabulary } from '../types';
+import { resolveTags, toAllowedTag } from '../utils/workshop-tags';
+
+interface TagPickerProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  vocabulary: TagVocabulary | null; // Null while loading
+  // Tags suggested by the package's ModAPI calls
+  suggestions?: DetectedTag[];
+  // Tags already on the published item
+  liveTags?: string[];
+  // Publish tags outside the vocabulary as written instead of refusing them
+  allowUnknown?: boolean;
+  onAllowUnknownChange?: (allow: boolean) => void;
+  disabled?: boolean;
+}
+
+const ANY_TAG: TagVocabulary = { allowed: [], aliases: {} };
+
+function describeCalls(calls: string[]): string {
+  return `Detected from ${calls.map((call) => `${call}()`).join(', ')} in mod.js`;
+}
+
+export const TagPicker: React.FC<TagPickerProps> = ({
+  value,
+  onChange,
+  vocabulary,
+  suggestions = [],
+  liveTags = [],
+  allowUnknown = false,
+  onAllowUnknownChange,
+  disabled,
+}) => {
+  const [customTag, setCustomTag] = useState('');
+
+  const { allowed } = vocabulary ?? ANY_TAG;
+  const resolved = resolveTags(value, vocabulary ?? ANY_TAG);
+  // Tags outside the vocabulary stay pickable, so live ones can be restored
+  const otherTags = [...new Set([...liveTags, ...value])].filter(
+    (tag) => toAllowedTag(tag, vocabulary ?? ANY_TAG) === null,
+  );
+  const detectedCalls = new Map(
+    suggestions.map((suggestion) => [suggestion.tag, suggestion.calls]),
+  );
+  const pendingSuggestions = suggestions.filter(
+    (suggestion) => !resolved.tags.includes(suggestion.tag),
+  );
+  // Without a vocabulary, the selected tags are the only ones to show
+  const chips = allowed.length > 0 ? [...allowed, ...otherTags] : resolved.tags;
+
+  const toggleTag = (tag: string) => {
+    onChange(
+      value.includes(tag)
+        ? value.filter((selected) => selected !== tag)
+        : [...value, tag],
+    );
+  };
+
+  const replaceTag = (from: string, to: string) => {
+    const replaced = value.map((tag) => (tag === from ? to : tag));
+    onChange(replaced.filter((tag, index) => replaced.indexOf(tag) === index));
+  };
+
+  const addCustomTag = () => {
+    const tag = customTag.trim();
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setCustomTag('');
+  };
+
+  return (
+    <div className="tag-picker">
+      {(resolved.mapped.length > 0 || resolved.unknown.length > 0) && (
+        <ul className="validation-issues">
+          {resolved.mapped.map(({ from, to }) => (
+            <li key={from} className="validation-issue warning">
+              <span className="validation-severity">!</span>
+              <span>
+                &quot;{from}&quot; will be published as &quot;{to}&quot;
+              </span>
+              <button
+                type="button"
+                className="game-button small"
+                onClick={() => replaceTag(from, to)}
+                disabled={disabled}
+              >
+                Use {to}
+              </button>
+            </li>
+          ))}
+          {resolved.unknown.map((tag) => (
+            <li
+              key={tag}
+              className={`validation-issue ${allowUnknown ? 'warning' : 'error'}`}
+            >
+              <span className="validation-severity">
+                {allowUnknown ? '!' : '✕'}
+              </span>
+              <span>
+                &quot;{tag}&quot;
+                {liveTags.includes(tag)
+                  ? ' is on the published item but'
+                  : ''}{' '}
+                is not one of the game&apos;s Workshop tags;{' '}
+                {allowUnknown
+                  ? 'it will be published as written'
+                  : 'remove it or allow tags outside the list'}
+              </span>
+              <button
+                type="button"
+                className="game-button small"
+                onClick={() => toggleTag(tag)}
+                disabled={disabled}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {resolved.unknown.length > 0 && onAllowUnknownChange && (
+        <label className="tag-picker-allow-unknown">
+          <input
+            type="checkbox"
+            checked={allowUnknown}
+            onChange={(event) => onAllowUnknownChange(event.target.checked)}
+            disabled={disabled}
+          />
+          Publish tags outside the list as written
+        </label>
+      )}
+
+      {pendingSuggestions.length > 0 && (
+        <div className="tag-suggestions">
+          <span className="tag-suggestions-label">Suggested from mod.js:</span>
+          {pendingSuggestions.map((suggestion) => (
+            <button
+              key={suggestion.tag}
+              type="button"
+              className="tag-chip suggested"
+              title={describeCalls(suggestion.calls)}
+              onClick={() => toggleTag(suggestion.tag)}
+              disabled={disabled}
+            >
+              + {suggestion.tag}
+              <span className="tag-chip-reason">
+                {suggestion.calls.join(', ')}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="tag-picker-chips">
+        {chips.map((tag) => {
+          const calls = detectedCalls.get(tag);
+          const selected = value.includes(tag);
+          const other = otherTags.includes(tag);
+          return (
+            <button
+              key={tag}
+              type="button"
+              className={`tag-chip ${selected ? 'selected' : ''} ${calls ? 'detected' : ''} ${other ? 'unknown' : ''}`}
+              title={
+                calls
+                  ? describeCalls(calls)
+                  : other && liveTags.includes(tag)
+                    ? 'Already on the published item'
+                    : undefined
+              }
+              aria-pressed={selected}
+              onClick={() => toggleTag(tag)}
+              disabled={disabled}
+            >
+              {selected ? '✓ ' : ''}
+              {tag}
+            </button>
+          );
+        })}
+      </div>
+
+      {vocabulary && (
+        <div className="tag-picker-custom">
+          <input
+            type="text"
+            className="game-input"
+            value={customTag}
+            onChange={(event) => setCustomTag(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                event.preventDefault();
+                addCustomTag();
+              }
+            }}
+            placeholder="Add a tag"
+            disabled={disabled}
+          />
+          <button
+            type="button"
+            className="game-button small"
+            onClick={addCustomTag}
+            disabled={disabled || !customTag.trim()}
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
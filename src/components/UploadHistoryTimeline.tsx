@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { UploadHistoryEntry } from '../types';
+
+interface UploadHistoryTimelineProps {
+  workshopId: string;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  }
+  return `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+export const UploadHistoryTimeline: React.FC<UploadHistoryTimelineProps> = ({
+  workshopId,
+}) => {
+  const [entries, setEntries] = useState<UploadHistoryEntry[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI
+      .getUploadHistory(workshopId)
+      .then((history) => {
+        if (!cancelled) setEntries(history);
+      })
+      .catch(() => {
+        if (!cancelled) setEntries([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [workshopId]);
+
+  if (entries === null) return null;
+
+  return (
+    <div className="upload-history">
+      <h3>Upload History</h3>
+      {entries.length === 0 ? (
+        <div className="upload-history-empty">
+          No uploads of this item have been recorded on this computer.
+        </div>
+      ) : (
+        <ol className="upload-history-timeline">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className={`upload-history-entry ${entry.outcome}`}
+            >
+              <div className="upload-history-header">
+                <span className="upload-history-date">
+                  {new Date(entry.timestamp).toLocaleString()}
+                </span>
+                {entry.modVersion && (
+                  <span className="upload-history-version">
+                    v{entry.modVersion}
+                  </span>
+                )}
+                <span className={`upload-history-outcome ${entry.outcome}`}>
+                  {entry.outcome === 'success'
+                    ? entry.action === 'create'
+                      ? 'Created'
+                      : 'Updated'
+                    : 'Failed'}
+                </span>
+              </div>
+              <div className="upload-history-details">
+                {entry.changedFields.length > 0
+                  ? `Sent: ${entry.changedFields.join(', ')}`
+                  : 'No fields sent'}
+                {entry.contentSha256 &&
+                  ` · sha256 ${entry.contentSha256.slice(0, 12)}`}
+                {entry.contentSize !== undefined &&
+                  ` · ${formatSize(entry.contentSize)}`}
+              </div>
+              {entry.changeNotes && (
+                <div className="upload-history-notes">{entry.changeNotes}</div>
+              )}
+              {entry.error && <div className="form-error">{entry.error}</div>}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { UploadProgressEvent } from '../types';
+
+interface UploadProgressBarProps {
+  progress: UploadProgressEvent | null;
+}
+
+const formatSize = (bytes: number) => {
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+  }
+  return `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+export const UploadProgressBar: React.FC<UploadProgressBarProps> = ({
+  progress,
+}) => {
+  if (!progress) return null;
+
+  // Stages without byte counts show an indeterminate (animated) bar
+  const hasBytes = progress.bytesTotal !== undefined;
+  const percent = progress.stage === 'complete' ? 100 : progress.percent;
+
+  return (
+    <div className="upload-progress">
+      <div className="upload-progress-header">
+        <span>{progress.message}</span>
+        {percent !== undefined && <span>{percent}%</span>}
+      </div>
+      <div className="upload-progress-container">
+        <div
+          className={`upload-progress-bar ${percent === undefined ? 'indeterminate' : ''}`}
+          style={percent === undefined ? undefined : { width: `${percent}%` }}
+        />
+      </div>
+      {hasBytes && (
+        <div className="form-hint">
+          {formatSize(progress.bytesProcessed ?? 0)} /{' '}
+          {formatSize(progress.bytesTotal ?? 0)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,249 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { UploadJob, UploadJobStatus, UploadQueueState } from '../types';
+import { DebugMessage } from '../hooks/useDebugLog';
+import { GameTitle } from './GameTitle';
+import { DebugConsole } from './DebugConsole';
+import { UploadProgressBar } from './UploadProgressBar';
+
+interface UploadQueuePanelProps {
+  onBack: () => void;
+  onLog: (type: 'error' | 'info' | 'success', message: string) => void;
+  onShowStatus: (message: {
+    type: 'success' | 'error' | 'info' | 'warning';
+    text: string;
+  }) => void;
+  debugMessages: DebugMessage[];
+  onClearDebug: () => void;
+}
+
+const STATUS_LABELS: Record<UploadJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Uploading',
+  succeeded: 'Done',
+  failed: 'Failed',
+};
+
+const isFinished = (job: UploadJob) =>
+  job.status === 'succeeded' || job.status === 'failed';
+
+export const UploadQueuePanel: React.FC<UploadQueuePanelProps> = ({
+  onBack,
+  onLog,
+  onShowStatus,
+  debugMessages,
+  onClearDebug,
+}) => {
+  const [queue, setQueue] = useState<UploadQueueState>({
+    jobs: [],
+    running: false,
+    stopping: false,
+  });
+  const [changeNotes, setChangeNotes] = useState('');
+  // Last seen status per job, to log each job once when it finishes
+  const statusesRef = useRef<Map<string, UploadJobStatus>>(new Map());
+
+  useEffect(() => {
+    const applyState = (state: UploadQueueState) => {
+      for (const job of state.jobs) {
+        const previous = statusesRef.current.get(job.id);
+        if (previous && previous !== job.status && isFinished(job)) {
+          if (job.status === 'succeeded') {
+            onLog(
+              'success',
+              `Queued upload "${job.label}" finished: ${job.result?.publishedFileId}`,
+            );
+          } else {
+            onLog(
+              'error',
+              `Queued upload "${job.label}" failed: ${job.error?.message}`,
+            );
+          }
+        }
+        statusesRef.current.set(job.id, job.status);
+      }
+      setQueue(state);
+    };
+
+    window.electronAPI
+      .getUploadQueue()
+      .then(applyState)
+      .catch(() => {});
+    return window.electronAPI.onUploadQueueChanged(applyState);
+  }, [onLog]);
+
+  const runAction = async (
+    description: string,
+    action: () => Promise<UploadQueueState>,
+  ) => {
+    try {
+      setQueue(await action());
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Failed to ${description}: ${errorMsg}`);
+      onShowStatus({ type: 'error', text: `Failed to ${description}` });
+    }
+  };
+
+  const handleAddProjects = () =>
+    runAction('add projects to the queue', () =>
+      window.electronAPI.addProjectsToUploadQueue(changeNotes.trim()),
+    );
+
+  const handleStart = async () => {
+    onLog('info', 'Starting upload queue...');
+    try {
+      const state = await window.electronAPI.startUploadQueue();
+      setQueue(state);
+      const failed = state.jobs.filter((job) => job.status === 'failed');
+      const succeeded = state.jobs.filter((job) => job.status === 'succeeded');
+      onShowStatus({
+        type: failed.length > 0 ? 'error' : 'success',
+        text: `Upload queue finished: ${succeeded.length} succeeded, ${failed.length} failed`,
+      });
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Unknown error';
+      onLog('error', `Upload queue could not start: ${errorMsg}`);
+      onShowStatus({
+        type: 'error',
+        text: `Upload queue could not start: ${errorMsg}`,
+      });
+    }
+  };
+
+  const queuedCount = queue.jobs.filter(
+    (job) => job.status === 'queued',
+  ).length;
+  const hasFinished = queue.jobs.some(isFinished);
+
+  return (
+    <div className="container">
+      <GameTitle subtitle="Steam Workshop Manager" />
+
+      <main>
+        <div className="section">
+          <div className="editor-header">
+            <button className="game-button" onClick={onBack}>
+              ← Back to Workshop Items
+            </button>
+            <div className="header-actions">
+              <button
+                className="game-button"
+                onClick={() =>
+                  runAction('clear finished uploads', () =>
+                    window.electronAPI.clearFinishedUploads(),
+                  )
+                }
+                disabled={!hasFinished}
+              >
+                Clear Finished
+              </button>
+              {queue.running ? (
+                <button
+                  className="game-button"
+                  onClick={() =>
+                    runAction('stop the queue', () =>
+                      window.electronAPI.stopUploadQueue(),
+                    )
+                  }
+                  disabled={queue.stopping}
+                >
+                  {queue.stopping ? 'Stopping...' : 'Stop After Current'}
+                </button>
+              ) : (
+                <button
+                  className="game-button primary"
+                  onClick={handleStart}
+                  disabled={queuedCount === 0}
+                >
+                  <span className="button-text">
+                    Publish {queuedCount} Queued
+                  </span>
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Add workshop.json projects</label>
+            <div className="file-input-wrapper">
+              <input
+                type="text"
+                className="game-input"
+                value={changeNotes}
+                onChange={(e) => setChangeNotes(e.target.value)}
+                placeholder="Change notes for the added projects (optional)"
+              />
+              <button className="game-button" onClick={handleAddProjects}>
+                📂 Add Projects
+              </button>
+            </div>
+            <div className="form-help">
+              Mods can also be queued from the editor with Add to Queue. Jobs
+              run one at a time; brief Steam or network failures are retried.
+            </div>
+          </div>
+
+          {queue.jobs.length === 0 ? (
+            <div className="upload-history-empty">
+              The upload queue is empty.
+            </div>
+          ) : (
+            <ol className="upload-queue-list">
+              {queue.jobs.map((job) => (
+                <li key={job.id} className={`upload-queue-job ${job.status}`}>
+                  <div className="upload-queue-job-header">
+                    <span className="upload-queue-job-label">{job.label}</span>
+                    <span className={`upload-queue-status ${job.status}`}>
+                      {STATUS_LABELS[job.status]}
+                      {job.attempts > 1 && ` · attempt ${job.attempts}`}
+                    </span>
+                    {job.status === 'queued' && (
+                      <button
+                        className="game-button small danger"
+                        onClick={() =>
+                          runAction('remove the upload', () =>
+                            window.electronAPI.removeUploadJob(job.id),
+                          )
+                        }
+                        title="Remove from queue"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                  <div className="upload-history-details">
+                    {job.modData.workshopId
+                      ? `Updates ${job.modData.workshopId}`
+                      : 'Creates a new item'}
+                    {job.projectPath && ` · ${job.projectPath}`}
+                  </div>
+                  {job.status === 'running' && (
+                    <UploadProgressBar progress={job.progress ?? null} />
+                  )}
+                  {job.status === 'succeeded' &&
+                    job.result?.publishedFileId && (
+                      <div className="upload-history-details">
+                        Published {job.result.publishedFileId}
+                        {job.result.needsToAcceptAgreement &&
+                          ' · hidden until the Workshop legal agreement is accepted'}
+                      </div>
+                    )}
+                  {job.error && (
+                    <div className="form-error">
+                      {job.error.message}
+                      {job.error.remedy && (
+                        <div className="form-help">{job.error.remedy}</div>
+                      )}
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <DebugConsole messages={debugMessages} onClear={onClearDebug} />
+      </main>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { ModValidationReport } from '../types';
+
+interface ValidationReportViewProps {
+  report: ModValidationReport | null;
+}
+
+export const ValidationReportView: React.FC<ValidationReportViewProps> = ({
+  report,
+}) => {
+  if (!report) return null;
+
+  if (report.issues.length === 0) {
+    return (
+      <div className="validation-report valid">
+        ✓ Package checks passed ({report.fileCount} files)
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={`validation-report ${report.valid ? 'warnings' : 'invalid'}`}
+    >
+      <div className="validation-summary">
+        {report.errorCount > 0
+          ? `${report.errorCount} error${report.errorCount === 1 ? '' : 's'} must be fixed before uploading`
+          : 'Package checks passed with warnings'}
+        {report.warningCount > 0 &&
+          report.errorCount > 0 &&
+          `, ${report.warningCount} warning${report.warningCount === 1 ? '' : 's'}`}
+      </div>
+      <ul className="validation-issues">
+        {report.issues.map((issue, index) => (
+          <li key={index} className={`validation-issue ${issue.severity}`}>
+            <span className="validation-severity">
+              {issue.severity === 'error' ? '✕' : '!'}
+            </span>
+            <span>
+              {issue.message}
+              {issue.path && <code>{issue.path}</code>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,178 @@
+import React, { useEffect, useState } from 'react';
+import { ItemStatsSnapshot, UploadHistoryEntry, WorkshopItem } from '../types';
+import { DebugMessage } from '../hooks/useDebugLog';
+import { STAT_FIELDS, getSnapshotAt, getStatSeries } from '../utils/item-stats';
+import { GameTitle } from './GameTitle';
+import { DebugConsole } from './DebugConsole';
+import { StatsChart } from './StatsChart';
+import { UploadHistoryTimeline } from './UploadHistoryTimeline';
+
+interface WorkshopItemDetailsProps {
+  item: WorkshopItem;
+  onBack: () => void;
+  onEdit: (item: WorkshopItem) => void;
+  onLog: (type: 'error' | 'info' | 'success', message: string) => void;
+  debugMessages: DebugMessage[];
+  onClearDebug: () => void;
+}
+
+const LAST_VISIT_KEY = 'itemStatsLastVisit';
+
+// When each item's details were last opened, by workshop ID
+const readLastVisits = (): Record<string, number> => {
+  try {
+    return JSON.parse(localStorage.getItem(LAST_VISIT_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveLastVisit = (workshopId: string, timestamp: number) => {
+  try {
+    localStorage.setItem(
+      LAST_VISIT_KEY,
+      JSON.stringify({ ...readLastVisits(), [workshopId]: timestamp }),
+    );
+  } catch {
+    // Storage unavailable; deltas just aren't shown next time
+  }
+};
+
+const formatItemDate = (seconds: number) =>
+  seconds ? new Date(seconds * 1000).toLocaleString() : 'Unknown';
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : `${delta}`);
+
+export const WorkshopItemDetails: React.FC<WorkshopItemDetailsProps> = ({
+  item,
+  onBack,
+  onEdit,
+  onLog,
+  debugMessages,
+  onClearDebug,
+}) => {
+  const [history, setHistory] = useState<ItemStatsSnapshot[] | null>(null);
+  const [uploads, setUploads] = useState<UploadHistoryEntry[]>([]);
+  const [now] = useState(Date.now);
+  // Read once, before this visit is saved
+  const [lastVisit] = useState<number | undefined>(
+    () => readLastVisits()[item.publishedFileId],
+  );
+
+  useEffect(() => {
+    saveLastVisit(item.publishedFileId, Date.now());
+  }, [item.publishedFileId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    window.electronAPI
+      .getItemStatsHistory(item.publishedFileId)
+      .then((snapshots) => {
+        if (!cancelled) setHistory(snapshots);
+      })
+      .catch((error) => {
+        const errorMsg =
+          error instanceof Error ? error.message : 'Unknown error';
+        onLog('error', `Failed to load stats history: ${errorMsg}`);
+        if (!cancelled) setHistory([]);
+      });
+    window.electronAPI
+      .getUploadHistory(item.publishedFileId)
+      .then((entries) => {
+        if (!cancelled) setUploads(entries);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [item.publishedFileId, onLog]);
+
+  const baseline =
+    history && lastVisit !== undefined
+      ? getSnapshotAt(history, lastVisit)
+      : undefined;
+  const markers = uploads
+    .filter((entry) => entry.outcome === 'success')
+    .map((entry) => ({
+      timestamp: entry.timestamp,
+      label: `${entry.modVersion ? `v${entry.modVersion} ` : ''}uploaded ${new Date(entry.timestamp).toLocaleString()}`,
+    }));
+
+  return (
+    <div className="container">
+      <GameTitle subtitle="Steam Workshop Manager" />
+
+      <main>
+        <div className="section">
+          <div className="editor-header">
+            <button className="game-button" onClick={onBack}>
+              ← Back to Workshop Items
+            </button>
+            <button className="game-button" onClick={() => onEdit(item)}>
+              ✏️ Edit Item
+            </button>
+          </div>
+
+          <h2 className="item-details-title">{item.title}</h2>
+          <div className="item-details-meta">
+            <span>Workshop ID {item.publishedFileId}</span>
+            <span>Created {formatItemDate(item.createdDate)}</span>
+            <span>Updated {formatItemDate(item.updatedDate)}</span>
+            <span className="mod-visibility-badge-compact">
+              {item.visibility}
+            </span>
+          </div>
+
+          <div className="form-help">
+            {lastVisit === undefined
+              ? 'Changes will be shown against this visit next time.'
+              : `Changes since your last visit on ${new Date(lastVisit).toLocaleString()}.`}
+          </div>
+
+          {history === null ? (
+            <div className="loading">Loading stats history...</div>
+          ) : (
+            <div className="item-stats">
+              {STAT_FIELDS.map((field) => {
+                const current = item[field.key] || 0;
+                const delta = baseline ? current - baseline[field.key] : null;
+                return (
+                  <div key={field.key} className="item-stats-row">
+                    <div className="item-stats-summary">
+                      <span className="stat-icon">{field.icon}</span>
+                      <span className="item-stats-label">{field.label}</span>
+                      <span className="item-stats-value">{current}</span>
+                      {delta !== null && (
+                        <span
+                          className={`item-stats-delta ${delta > 0 ? 'up' : delta < 0 ? 'down' : ''}`}
+                        >
+                          {formatDelta(delta)}
+                        </span>
+                      )}
+                    </div>
+                    {history.length > 0 && (
+                      <StatsChart
+                        points={getStatSeries(history, item, field.key, now)}
+                        markers={markers}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+              {history.length === 0 && (
+                <div className="upload-history-empty">
+                  No statistics have been recorded for this item yet. They are
+                  saved each time the item list is loaded from Steam.
+                </div>
+              )}
+            </div>
+          )}
+
+          <UploadHistoryTimeline workshopId={item.publishedFileId} />
+        </div>
+
+        <DebugConsole messages={debugMessages} onClear={onClearDebug} />
+      </main>
+    </div>
+  );
+};
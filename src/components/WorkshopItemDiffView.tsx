@@ -0,0 +1,94 @@
+import React from 'react';
+import { WorkshopItemDiff } from '../types';
+
+interface WorkshopItemDiffViewProps {
+  diff: WorkshopItemDiff;
+}
+
+export const WorkshopItemDiffView: React.FC<WorkshopItemDiffViewProps> = ({
+  diff,
+}) => {
+  if (!diff.hasChanges) {
+    return <div className="diff-empty">No changes to publish.</div>;
+  }
+
+  return (
+    <div className="diff-view">
+      {diff.title && (
+        <div className="diff-row">
+          <span className="diff-label">Title</span>
+          <span>
+            <span className="diff-removed">{diff.title.from}</span> →{' '}
+            <span className="diff-added">{diff.title.to}</span>
+          </span>
+        </div>
+      )}
+
+      {diff.description && (
+        <div className="diff-row column">
+          <span className="diff-label">Description</span>
+          <pre className="diff-lines">
+            {diff.description.map((line, index) => (
+              <div key={index} className={`diff-line ${line.type}`}>
+                {line.type === 'added'
+                  ? '+ '
+                  : line.type === 'removed'
+                    ? '- '
+                    : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+        </div>
+      )}
+
+      {(diff.tagsAdded.length > 0 || diff.tagsRemoved.length > 0) && (
+        <div className="diff-row">
+          <span className="diff-label">Tags</span>
+          <span className="diff-tags">
+            {diff.tagsAdded.map((tag) => (
+              <span key={`+${tag}`} className="tag-chip diff-added">
+                +{tag}
+              </span>
+            ))}
+            {diff.tagsRemoved.map((tag) => (
+              <span key={`-${tag}`} className="tag-chip diff-removed">
+                −{tag}
+              </span>
+            ))}
+          </span>
+        </div>
+      )}
+
+      {diff.visibility && (
+        <div className="diff-row">
+          <span className="diff-label">Visibility</span>
+          <span>
+            {diff.visibility.from} → {diff.visibility.to}
+          </span>
+        </div>
+      )}
+
+      {diff.replacesContent && (
+        <div className="diff-row">
+          <span className="diff-label">Content</span>
+          <span>Will be replaced with the selected ZIP</span>
+        </div>
+      )}
+
+      {diff.replacesPreview && (
+        <div className="diff-row">
+          <span className="diff-label">Preview</span>
+          <span>Will be replaced with the selected image</span>
+        </div>
+      )}
+
+      {diff.replacesAdditionalPreviews && (
+        <div className="diff-row">
+          <span className="diff-label">Gallery</span>
+          <span>Extra screenshots and videos will be replaced</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { WorkshopItemListView } from '../types';
+import {
+  DEFAULT_LIST_VIEW,
+  SORT_OPTIONS,
+  VISIBILITY_OPTIONS,
+} from '../utils/workshop-item-filter';
+
+const STORAGE_KEY = 'workshopItemListView';
+
+// The search text is left out: a stale search would hide items on the next launch
+type StoredListView = Omit<WorkshopItemListView, 'search'>;
+
+const loadStoredView = (): WorkshopItemListView => {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(STORAGE_KEY) || '{}',
+    ) as Partial<StoredListView>;
+    return {
+      ...DEFAULT_LIST_VIEW,
+      sortBy: SORT_OPTIONS.some((option) => option.key === stored.sortBy)
+        ? stored.sortBy!
+        : DEFAULT_LIST_VIEW.sortBy,
+      sortDirection:
+        stored.sortDirection === 'asc' || stored.sortDirection === 'desc'
+          ? stored.sortDirection
+          : DEFAULT_LIST_VIEW.sortDirection,
+      visibility: VISIBILITY_OPTIONS.some(
+        (option) => option.value === stored.visibility,
+      )
+        ? stored.visibility!
+        : DEFAULT_LIST_VIEW.visibility,
+      tag: typeof stored.tag === 'string' ? stored.tag : DEFAULT_LIST_VIEW.tag,
+    };
+  } catch {
+    return DEFAULT_LIST_VIEW;
+  }
+};
+
+export const useWorkshopItemListView = () => {
+  const [view, setView] = useState<WorkshopItemListView>(loadStoredView);
+  const { sortBy, sortDirection, visibility, tag } = view;
+
+  useEffect(() => {
+    const stored: StoredListView = { sortBy, sortDirection, visibility, tag };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch {
+      // Storage unavailable; the choice just isn't remembered
+    }
+  }, [sortBy, sortDirection, visibility, tag]);
+
+  const updateView = useCallback((changes: Partial<WorkshopItemListView>) => {
+    setView((prev) => ({ ...prev, ...changes }));
+  }, []);
+
+  return { view, updateView };
+};
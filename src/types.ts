@@ -14,16 +14,127 @@ export type ModVisibility = 'public' | 'friends' | 'private' | 'unlisted';
 
 export interface ModUploadData {
   zipPath?: string; // Optional for workshop item updates
+  modDirectory?: string; // Packaged into a ZIP before upload when set
+  packageOptions?: ModPackageOptions;
   title: string;
   description: string;
   tags?: string;
+  allowUnknownTags?: boolean; // Publish tags outside config.tags instead of failing
   visibility?: ModVisibility;
   previewImagePath?: string;
+  // Replaces the item's extra screenshots/videos in this order; unset keeps them
+  additionalPreviews?: AdditionalPreview[];
+  localizations?: WorkshopLocalizations; // Text for other languages
   workshopId?: string;
   changeNotes?: string;
   change_note?: string; // Alternative field name for Steam compatibility
 }
 
+// Title and description in one language; unset fields fall back to the
+// item's own title and description
+export interface LocalizedText {
+  title?: string;
+  description?: string; // BBCode
+}
+
+// Keyed by Steam API language code, e.g. "schinese" or "russian"
+export type WorkshopLocalizations = Record<string, LocalizedText>;
+
+// Extra screenshot or YouTube video shown after the main preview image.
+// An image is either a local file to upload (path) or one already on the item (url).
+export type AdditionalPreview =
+  | { type: 'image'; path?: string; url?: string }
+  | { type: 'video'; videoId: string };
+
+// Include/exclude globs for packaging a mod folder, relative to its root
+export interface ModPackageOptions {
+  include?: string[]; // Defaults to every file
+  exclude?: string[]; // Added to the default excludes
+}
+
+export interface ModPackageResult {
+  zipPath: string;
+  directory: string;
+  files: string[]; // Archive paths, in archive order
+  size: number;
+  sha256: string;
+}
+
+// workshop.json - per-mod publish settings; paths are relative to the file
+export interface WorkshopProjectManifest {
+  workshopId?: string; // Written back after the item is first created
+  title?: string;
+  descriptionFile?: string;
+  tags?: string[];
+  visibility?: ModVisibility;
+  preview?: string;
+  content?: string; // Mod ZIP or build folder
+  changeNoteFrom?: ChangeNoteSource;
+  localizationDir?: string; // See loadLocalizationDir
+}
+
+// Where generated change notes come from: the CHANGELOG.md section for the
+// mod's version, or the git commits since the item's last upload
+export type ChangeNoteSource = 'changelog' | 'git';
+
+export interface ChangeNoteRequest {
+  source: ChangeNoteSource;
+  zipPath?: string;
+  modDirectory?: string; // Packaged to read the version when there is no ZIP
+  packageOptions?: ModPackageOptions;
+  projectPath?: string; // workshop.json; its folder is searched first
+  workshopId?: string; // Whose last upload the git history starts from
+}
+
+// Generated change notes, as BBCode to review before publishing
+export interface ChangeNoteDraft {
+  source: ChangeNoteSource;
+  changeNotes: string;
+  summary: string; // e.g. "CHANGELOG.md, version 1.2.0"
+}
+
+// Upload fields sent to Steam, as recorded in the upload history
+export type UploadChangedField =
+  | 'title'
+  | 'description'
+  | 'tags'
+  | 'visibility'
+  | 'content'
+  | 'preview'
+  | 'additional-previews'
+  | 'localizations';
+
+// One publish attempt, kept locally so past uploads can be looked up later
+export interface UploadHistoryEntry {
+  id: string;
+  timestamp: number; // ms since epoch
+  workshopId?: string; // Missing when creating the item failed
+  action: 'create' | 'update';
+  backend: WorkshopBackendName;
+  title?: string;
+  modVersion?: string; // From the package's mod.js/package.json metadata
+  contentSha256?: string;
+  contentSize?: number;
+  changeNotes?: string;
+  gitCommit?: string; // HEAD of the git repo holding the content
+  changedFields: UploadChangedField[];
+  outcome: 'success' | 'failure';
+  error?: string;
+}
+
+// A manifest with its paths resolved and description file read
+export interface WorkshopProject {
+  projectPath: string;
+  manifest: WorkshopProjectManifest;
+  description?: string;
+  descriptionPath?: string;
+  readme?: ReadmeDescription; // README beside workshop.json
+  localizations?: WorkshopLocalizations;
+  previewPath?: string;
+  contentPath?: string;
+  contentType?: 'zip' | 'directory';
+}
+
 export interface WorkshopItem {
   publishedFileId: string;
   title: string;
@@ -35,18 +146,238 @@ export interface WorkshopItem {
   subscriptions: number;
   favorited: number;
   views: number;
+  additionalPreviews?: AdditionalPreview[]; // Unset when the backend can't report them
+}
+
+// Counters of one item at one fetch, kept locally to chart them over time
+export interface ItemStatsSnapshot {
+  workshopId: string;
+  timestamp: number; // ms since epoch
+  subscriptions: number;
+  favorited: number;
+  views: number;
+}
+
+export type CatalogueExportFormat = 'csv' | 'json';
+
+export interface CatalogueExportOptions {
+  format: CatalogueExportFormat;
+  includeHistory?: boolean; // Add the recorded stats snapshots of each item
+}
+
+export type WorkshopItemSortKey =
+  'title' | 'updated' | 'created' | 'subscriptions' | 'favorited' | 'views';
+
+export type SortDirection = 'asc' | 'desc';
+
+// How the workshop item list is searched, filtered and ordered
+export interface WorkshopItemListView {
+  search: string;
+  sortBy: WorkshopItemSortKey;
+  sortDirection: SortDirection;
+  visibility: ModVisibility | 'all';
+  tag: string; // Empty for any tag
+}
+
+export type UploadStage =
+  | 'packaging'
+  | 'preparing'
+  | 'creating-item'
+  | 'preparing-config'
+  | 'preparing-content'
+  | 'uploading-content'
+  | 'uploading-preview'
+  | 'committing'
+  | 'complete';
+
+// Emitted while uploadWorkshopItem runs; bytes are only known for upload stages
+export interface UploadProgressEvent {
+  stage: UploadStage;
+  message: string;
+  bytesProcessed?: number;
+  bytesTotal?: number;
+  percent?: number;
+  publishedFileId?: string;
+}
+
+// Fields sent to Steam's item update, mirroring steamworks.js UgcUpdate
+export interface WorkshopUpdateDetails {
+  title?: string;
+  description?: string;
+  changeNote?: string;
+  previewPath?: string;
+  contentPath?: string;
+  tags?: string[];
+  visibility?: number;
+  additionalPreviews?: AdditionalPreview[];
+  localizations?: WorkshopLocalizations;
+}
+
+// Everything an upload would send, resolved without touching Steam
+export interface UploadPlan {
+  action: 'create' | 'update';
+  workshopId?: string;
+  updateDetails: WorkshopUpdateDetails;
+  tags?: string[]; // Undefined keeps the item's current tags
+  visibility?: {
+    value: ModVisibility;
+    ugcVisibility: number;
+    source: 'explicit' | 'default';
+  }; // Undefined keeps the item's current visibility
+  contentPath?: string;
+  contentSize?: number;
+  contentPackage?: ModPackageResult; // Set when packaged from a mod folder
+  validation?: ModValidationReport; // Set when new content is uploaded
+  previewPath?: string;
+  previewSize?: number;
+  dependencies?: string[]; // Declared in the new content's metadata
+  versionCheck?: VersionBumpCheck; // Set when new content updates an item
+  warnings: string[];
+}
+
+// A package's mod version against the last one published to the item
+export interface VersionBumpCheck {
+  // first: no earlier upload with a version is recorded; unknown: not semver
+  status: 'increased' | 'unchanged' | 'decreased' | 'first' | 'unknown';
+  version?: string; // In the new package
+  publishedVersion?: string; // Of the last successful upload
+  publishedAt?: number; // ms since epoch
+  message?: string; // Set when the version did not increase
+}
+
+export interface UploadRequestOptions {
+  dryRun?: boolean; // Resolve and return the plan without publishing
+  projectPath?: string; // workshop.json to record a newly created item in
 }
 
 export interface WorkshopUploadResult {
   success: boolean;
   publishedFileId?: string;
   error?: string;
+  dryRun?: boolean;
+  plan?: UploadPlan;
+  contentPackage?: ModPackageResult;
+  // Steam hides the item until the author accepts the Workshop legal agreement
+  needsToAcceptAgreement?: boolean;
+  dependencySync?: DependencySyncResult;
+}
+
+// Workshop error taxonomy (see electron/main/workshop-errors.ts)
+export type WorkshopErrorCategory =
+  'auth' | 'network' | 'quota' | 'validation' | 'permission' | 'unknown';
+
+export type WorkshopErrorCode =
+  | 'steam-not-running'
+  | 'not-logged-in'
+  | 'timeout'
+  | 'network-error'
+  | 'service-unavailable'
+  | 'rate-limited'
+  | 'file-too-large'
+  | 'quota-exceeded'
+  | 'invalid-package'
+  | 'invalid-input'
+  | 'version-not-increased'
+  | 'item-not-found'
+  | 'access-denied'
+  | 'unknown';
+
+export interface WorkshopErrorInfo {
+  code: WorkshopErrorCode;
+  category: WorkshopErrorCategory;
+  message: string;
+  retryable: boolean; // Worth retrying later as is
+  remedy?: string;
+}
+
+// Upload queue (see electron/main/upload-queue.ts)
+export type UploadJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface UploadJobInput {
+  modData: ModUploadData;
+  label?: string; // Defaults to the title, project folder or workshop ID
+  projectPath?: string; // workshop.json to record a newly created item in
+}
+
+export interface UploadJob {
+  id: string;
+  label: string;
+  modData: ModUploadData;
+  projectPath?: string;
+  status: UploadJobStatus;
+  attempts: number;
+  progress?: UploadProgressEvent;
+  result?: WorkshopUploadResult;
+  error?: WorkshopErrorInfo;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export interface UploadQueueState {
+  jobs: UploadJob[];
+  running: boolean;
+  stopping: boolean; // Stops after the running job finishes
+}
+
+export interface DescriptionDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  text: string;
+}
+
+// What publishing a pending update would change on the live Workshop item
+export interface WorkshopItemDiff {
+  title?: { from: string; to: string };
+  description?: DescriptionDiffLine[]; // Present only when the text changes
+  tagsAdded: string[];
+  tagsRemoved: string[];
+  visibility?: { from: string; to: string };
+  replacesContent: boolean;
+  replacesPreview: boolean;
+  replacesAdditionalPreviews: boolean;
+  hasChanges: boolean;
 }
 
 export interface WorkshopItemsResult {
   items: WorkshopItem[];
-  status: 'success' | 'steam_not_connected' | 'error';
+  status: 'success' | 'steam_not_connected' | 'error' | 'cancelled';
   message?: string;
+  totalResults?: number;
+  fromCache?: boolean;
+  fetchedAt?: number;
+}
+
+export interface WorkshopItemsQueryOptions {
+  forceRefresh?: boolean; // Bypass the cached listing
+}
+
+// Streamed to the renderer as each page of published items arrives
+export interface WorkshopItemsPage {
+  queryId: number;
+  page: number;
+  items: WorkshopItem[];
+  loaded: number;
+  totalResults: number;
+}
+
+// Sent when a page failed and will be fetched again after `delay` ms
+export interface WorkshopItemsRetry {
+  queryId: number;
+  page: number;
+  attempt: number;
+  maxAttempts: number;
+  delay: number;
+  message: string;
+}
+
+export type ModMetadataStrategy = 'mod-js' | 'package-json' | 'detected-tags';
+
+export interface ModMetadataSource {
+  strategy: ModMetadataStrategy;
+  file: string; // Path of the file inside the ZIP
+  line?: number; // 1-based position of the getMetadata() return value
+  column?: number;
+  start?: number; // Character offsets of the return value in mod.js
+  end?: number;
 }
 
 export interface ModPackageInfo {
@@ -56,12 +387,105 @@ export interface ModPackageInfo {
   version?: string;
   author?: string;
   tags?: string[];
+  // Required Workshop items, as workshop IDs or names of the user's own mods
+  dependencies?: string[];
+  source?: ModMetadataSource;
+  readme?: ReadmeDescription; // README.md in the package, as BBCode
+  changelog?: string; // CHANGELOG.md in the package, as Markdown
+  // Steam language codes of addTranslation() calls in mod.js
+  translationLanguages?: string[];
+  detectedTags?: DetectedTag[]; // Suggested from ModAPI calls in mod.js
+}
+
+// A Workshop tag suggested by the ModAPI calls a mod makes
+export interface DetectedTag {
+  tag: string;
+  calls: string[]; // e.g. ["addItem", "addItemToShop"]
+}
+
+// The tags the game's Workshop accepts (config.tags)
+export interface TagVocabulary {
+  allowed: string[]; // Empty accepts any tag
+  aliases: Record<string, string>; // Other spelling -> allowed tag
+}
+
+// A Markdown README (or other description file) ready for the Workshop
+export interface ReadmeDescription {
+  file: string; // Path inside the ZIP, or on disk
+  description: string; // BBCode
+  relativeImages: string[]; // Image paths Steam can't show
+}
+
+// A declared dependency matched to a Workshop item
+export interface ResolvedDependency {
+  reference: string; // As written in the metadata
+  publishedFileId?: string;
+  title?: string;
+  visibility?: string;
+  error?: string; // Set when the reference matches no single item
+}
+
+// How uploadWorkshopItem brought the item's required items in line
+export interface DependencySyncResult {
+  dependencies: ResolvedDependency[];
+  added: string[];
+  removed: string[];
+}
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export type ValidationCode =
+  | 'invalid-zip'
+  | 'missing-mod-js'
+  | 'nested-mod-js'
+  | 'missing-metadata'
+  | 'missing-name'
+  | 'missing-version'
+  | 'missing-description'
+  | 'invalid-version'
+  | 'unsafe-path'
+  | 'compression-ratio'
+  | 'disallowed-file-type'
+  | 'package-too-large';
+
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  message: string;
+  path?: string; // Entry inside the ZIP the issue refers to
+}
+
+// Result of checking a mod ZIP before it is uploaded
+export interface ModValidationReport {
+  zipPath: string;
+  valid: boolean; // No errors (warnings are allowed)
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+  fileCount: number;
+  uncompressedSize: number;
+  metadata: ModPackageInfo | null;
+}
+
+// Which Workshop implementation the main process talks to
+export type WorkshopBackendName = 'steam' | 'fake';
+
+// What a backend can publish beyond the basic item fields
+export interface WorkshopBackendCapabilities {
+  readonly name: WorkshopBackendName;
+  /** Whether updateItem can apply updateDetails.additionalPreviews */
+  readonly supportsAdditionalPreviews: boolean;
+  /** Whether the required-item (dependency) calls work */
+  readonly supportsDependencies: boolean;
+  /** Whether updateItem can apply updateDetails.localizations */
+  readonly supportsLocalizations: boolean;
 }
 
 export interface SteamStatus {
   connected: boolean;
   userId?: string;
   userName?: string;
+  backend?: WorkshopBackendName;
 }
 
 export interface DeleteResult {
@@ -82,21 +506,75 @@ export interface ImageCompressionResult {
 
 export interface ElectronAPI {
   selectZip: () => Promise<string | null>;
+  selectModFolder: () => Promise<string | null>;
+  packageModFolder: (
+    directory: string,
+    options?: ModPackageOptions,
+  ) => Promise<ModPackageResult>;
   selectPreviewImage: () => Promise<string | null>;
   extractPackageInfo: (zipPath: string) => Promise<ModPackageInfo | null>;
-  uploadToWorkshop: (modData: ModUploadData) => Promise<WorkshopUploadResult>;
-  getWorkshopItems: () => Promise<WorkshopItemsResult>;
+  resolveDependencies: (references: string[]) => Promise<ResolvedDependency[]>;
+  validateModPackage: (zipPath: string) => Promise<ModValidationReport>;
+  openProject: () => Promise<WorkshopProject | null>;
+  composeChangeNotes: (request: ChangeNoteRequest) => Promise<ChangeNoteDraft>;
+  checkVersionBump: (
+    workshopId: string,
+    version?: string,
+  ) => Promise<VersionBumpCheck>;
+  getTagVocabulary: () => Promise<TagVocabulary>;
+  getWorkshopCapabilities: () => Promise<WorkshopBackendCapabilities>;
+  getUploadHistory: (workshopId?: string) => Promise<UploadHistoryEntry[]>;
+  getItemStatsHistory: (workshopId: string) => Promise<ItemStatsSnapshot[]>;
+  // Resolves with the saved file path, or null when cancelled
+  exportWorkshopCatalogue: (
+    items: WorkshopItem[],
+    options: CatalogueExportOptions,
+  ) => Promise<string | null>;
+  uploadToWorkshop: (
+    modData: ModUploadData,
+    options?: UploadRequestOptions,
+  ) => Promise<WorkshopUploadResult>;
+  onUploadProgress: (
+    callback: (progress: UploadProgressEvent) => void,
+  ) => () => void;
+  getWorkshopItems: (
+    options?: WorkshopItemsQueryOptions,
+  ) => Promise<WorkshopItemsResult>;
+  cancelWorkshopItemsQuery: () => Promise<void>;
+  onWorkshopItemsPage: (
+    callback: (page: WorkshopItemsPage) => void,
+  ) => () => void;
+  onWorkshopItemsRetrying: (
+    callback: (retry: WorkshopItemsRetry) => void,
+  ) => () => void;
   openUrl: (url: string) => Promise<void>;
   openSteamWorkshop: (publishedFileId: string) => Promise<void>;
+  openWorkshopAgreement: () => Promise<void>;
   readFileBase64: (filePath: string) => Promise<string | null>;
   deleteWorkshopItem: (publishedFileId: string) => Promise<DeleteResult>;
   getSteamStatus: () => Promise<SteamStatus>;
-  onSteamInitialized: (callback: () => void) => (() => void);
+  onSteamInitialized: (callback: () => void) => () => void;
   compressPreviewImage: (imagePath: string) => Promise<ImageCompressionResult>;
 
+  // Upload queue
+  getUploadQueue: () => Promise<UploadQueueState>;
+  addToUploadQueue: (jobs: UploadJobInput[]) => Promise<UploadQueueState>;
+  addProjectsToUploadQueue: (changeNotes?: string) => Promise<UploadQueueState>;
+  removeUploadJob: (jobId: string) => Promise<UploadQueueState>;
+  clearFinishedUploads: () => Promise<UploadQueueState>;
+  startUploadQueue: () => Promise<UploadQueueState>;
+  stopUploadQueue: () => Promise<UploadQueueState>;
+  onUploadQueueChanged: (
+    callback: (state: UploadQueueState) => void,
+  ) => () => void;
+
   // Auto-updater
-  onUpdateAvailable: (callback: (info: { version: string; releaseNotes?: string }) => void) => () => void;
-  onUpdateDownloadProgress: (callback: (info: { percent: number }) => void) => () => void;
+  onUpdateAvailable: (
+    callback: (info: { version: string; releaseNotes?: string }) => void,
+  ) => () => void;
+  onUpdateDownloadProgress: (
+    callback: (info: { percent: number }) => void,
+  ) => () => void;
   onUpdateDownloaded: (callback: () => void) => () => void;
   onUpdateError: (callback: (info: { message: string }) => void) => () => void;
   checkForUpdates: () => Promise<void>;
@@ -17,4 +17,6 @@ export interface LocalMod {
 export type NavigationState =
   | { screen: 'list' }
   | { screen: 'create' }
-  | { screen: 'edit'; item: WorkshopItem };
+  | { screen: 'queue' }
+  | { screen: 'edit'; item: WorkshopItem }
+  | { screen: 'details'; item: WorkshopItem };
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { escapeBBCode, getBBCodeText, parseBBCode } from './bbcode';
+
+describe('parseBBCode', () => {
+  it('builds a tag tree', () => {
+    const { nodes, issues } = parseBBCode('[b]bold [i]both[/i][/b] plain');
+    expect(issues).toEqual([]);
+    expect(nodes).toEqual([
+      {
+        type: 'tag',
+        name: 'b',
+        attributes: {},
+        children: [
+          { type: 'text', text: 'bold ' },
+          {
+            type: 'tag',
+            name: 'i',
+            attributes: {},
+            children: [{ type: 'text', text: 'both' }],
+          },
+        ],
+      },
+      { type: 'text', text: ' plain' },
+    ]);
+  });
+
+  it('reads tag values and attributes', () => {
+    const { nodes } = parseBBCode(
+      '[url=https://x.io]link[/url][table noborder=1][/table]',
+    );
+    expect(nodes[0]).toMatchObject({ name: 'url', value: 'https://x.io' });
+    expect(nodes[1]).toMatchObject({
+      name: 'table',
+      attributes: { noborder: '1' },
+    });
+  });
+
+  it('keeps tags inside [noparse] and [code] as text', () => {
+    const { nodes, issues } = parseBBCode('[noparse][b]x[/list][/noparse]');
+    expect(issues).toEqual([]);
+    expect(getBBCodeText(nodes)).toBe('[b]x[/list]');
+  });
+
+  it('reports unclosed and mis-nested tags with their line', () => {
+    const { issues } = parseBBCode('line one\n[b]never closed');
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ severity: 'error', line: 2 });
+
+    expect(parseBBCode('[b][i]x[/b][/i]').issues.length).toBeGreaterThan(0);
+  });
+
+  it('warns about links that are not http(s)', () => {
+    const { issues } = parseBBCode('[img]docs/shot.png[/img]');
+    expect(issues).toEqual([
+      expect.objectContaining({ severity: 'warning', line: 1 }),
+    ]);
+  });
+});
+
+describe('escapeBBCode', () => {
+  it('wraps text with brackets in [noparse]', () => {
+    expect(escapeBBCode('Fix [b] tags')).toBe(
+      '[noparse]Fix [b] tags[/noparse]',
+    );
+    expect(escapeBBCode('Plain subject')).toBe('Plain subject');
+  });
+});
@@ -0,0 +1,297 @@
+// Parser and checks for the BBCode subset Steam Workshop descriptions support
+// Shared by the renderer (description editor preview) and the CLI
+
+export type BBCodeTagName =
+  | 'h1'
+  | 'h2'
+  | 'h3'
+  | 'b'
+  | 'i'
+  | 'u'
+  | 'strike'
+  | 'spoiler'
+  | 'noparse'
+  | 'hr'
+  | 'url'
+  | 'img'
+  | 'list'
+  | 'olist'
+  | '*'
+  | 'quote'
+  | 'code'
+  | 'table'
+  | 'tr'
+  | 'th'
+  | 'td';
+
+export type BBCodeNode =
+  | { type: 'text'; text: string }
+  | {
+      type: 'tag';
+      name: BBCodeTagName;
+      value?: string; // [url=value], [quote=value]
+      attributes: Record<string, string>; // [table noborder=1]
+      children: BBCodeNode[];
+    };
+
+export interface BBCodeIssue {
+  severity: 'error' | 'warning';
+  message: string;
+  line: number; // 1-based
+}
+
+export interface BBCodeParseResult {
+  nodes: BBCodeNode[];
+  issues: BBCodeIssue[];
+}
+
+const TAG_NAMES = new Set<string>([
+  'h1',
+  'h2',
+  'h3',
+  'b',
+  'i',
+  'u',
+  'strike',
+  'spoiler',
+  'noparse',
+  'hr',
+  'url',
+  'img',
+  'list',
+  'olist',
+  '*',
+  'quote',
+  'code',
+  'table',
+  'tr',
+  'th',
+  'td',
+]);
+
+// Content is shown as typed, without parsing tags inside
+const RAW_TAGS = new Set<string>(['noparse', 'code']);
+
+// Where each tag may appear; anything else may appear anywhere
+const REQUIRED_PARENTS: Partial<Record<BBCodeTagName, BBCodeTagName[]>> = {
+  '*': ['list', 'olist'],
+  tr: ['table'],
+  th: ['tr'],
+  td: ['tr'],
+};
+
+const TAG_PATTERN =
+  /\[(\/?)([a-z0-9]+|\*)(?:=([^\]]*))?((?:\s+[a-z]+=[^\s\]]*)*)\]/gi;
+
+function lineAt(source: string, offset: number): number {
+  let line = 1;
+  for (let index = 0; index < offset; index += 1) {
+    if (source.charCodeAt(index) === 10) line += 1;
+  }
+  return line;
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([a-z]+)=([^\s\]]*)/gi)) {
+    attributes[match[1].toLowerCase()] = match[2];
+  }
+  return attributes;
+}
+
+function isWebUrl(value: string): boolean {
+  return /^https?:\/\/\S+$/i.test(value.trim());
+}
+
+/**
+ * Parse a description into a tag tree, collecting the problems Steam would
+ * show as stray tags: unclosed, unopened or mis-nested tags
+ */
+export function parseBBCode(source: string): BBCodeParseResult {
+  const root: BBCodeNode[] = [];
+  const issues: BBCodeIssue[] = [];
+  const stack: {
+    node: Extract<BBCodeNode, { type: 'tag' }>;
+    offset: number;
+  }[] = [];
+
+  const children = () =>
+    stack.length > 0 ? stack[stack.length - 1].node.children : root;
+  const addText = (text: string) => {
+    if (!text) return;
+    const siblings = children();
+    const last = siblings[siblings.length - 1];
+    if (last?.type === 'text') {
+      last.text += text;
+    } else {
+      siblings.push({ type: 'text', text });
+    }
+  };
+  const report = (
+    severity: BBCodeIssue['severity'],
+    message: string,
+    offset: number,
+  ) => {
+    issues.push({ severity, message, line: lineAt(source, offset) });
+  };
+
+  let position = 0;
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = TAG_PATTERN.exec(source))) {
+    const [token, slash, rawName, value, attributeText] = match;
+    const name = rawName.toLowerCase();
+    if (!TAG_NAMES.has(name)) {
+      continue; // Steam shows unknown tags as text
+    }
+    addText(source.slice(position, match.index));
+    position = match.index + token.length;
+    const tagName = name as BBCodeTagName;
+
+    if (slash) {
+      if (tagName === 'hr' || tagName === '*') {
+        continue; // [hr][/hr] is Steam's usual spelling; [/*] is optional
+      }
+      // A list item ends with its list
+      while (stack.length > 0 && stack[stack.length - 1].node.name === '*') {
+        stack.pop();
+      }
+      const openIndex = stack
+        .map((entry) => entry.node.name)
+        .lastIndexOf(tagName);
+      if (openIndex === -1) {
+        report(
+          'error',
+          `[/${tagName}] has no matching [${tagName}]`,
+          match.index,
+        );
+        addText(token);
+        continue;
+      }
+      for (const unclosed of stack.slice(openIndex + 1)) {
+        if (unclosed.node.name !== '*') {
+          report(
+            'error',
+            `[${unclosed.node.name}] is not closed before [/${tagName}]`,
+            unclosed.offset,
+          );
+        }
+      }
+      stack.length = openIndex;
+      continue;
+    }
+
+    if (tagName === '*') {
+      // A new item closes the previous one
+      if (stack.length > 0 && stack[stack.length - 1].node.name === '*') {
+        stack.pop();
+      }
+    }
+
+    const requiredParents = REQUIRED_PARENTS[tagName];
+    const parent = stack[stack.length - 1]?.node.name;
+    if (requiredParents && (!parent || !requiredParents.includes(parent))) {
+      report(
+        'warning',
+        `[${tagName}] belongs inside ${requiredParents.map((tag) => `[${tag}]`).join(' or ')}`,
+        match.index,
+      );
+    }
+
+    const node: Extract<BBCodeNode, { type: 'tag' }> = {
+      type: 'tag',
+      name: tagName,
+      value: value?.trim() || undefined,
+      attributes: parseAttributes(attributeText ?? ''),
+      children: [],
+    };
+    children().push(node);
+
+    if (tagName === 'hr') {
+      continue;
+    }
+
+    if (RAW_TAGS.has(tagName)) {
+      const closing = new RegExp(`\\[/${tagName}\\]`, 'i');
+      const rest = source.slice(position);
+      const end = rest.search(closing);
+      if (end === -1) {
+        report('error', `[${tagName}] is never closed`, match.index);
+        node.children.push({ type: 'text', text: rest });
+        position = source.length;
+        break;
+      }
+      if (end > 0) {
+        node.children.push({ type: 'text', text: rest.slice(0, end) });
+      }
+      position += end + `[/${tagName}]`.length;
+      TAG_PATTERN.lastIndex = position;
+      continue;
+    }
+
+    stack.push({ node, offset: match.index });
+  }
+  addText(source.slice(position));
+
+  for (const unclosed of stack) {
+    if (unclosed.node.name !== '*') {
+      report(
+        'error',
+        `[${unclosed.node.name}] is never closed`,
+        unclosed.offset,
+      );
+    }
+  }
+
+  checkLinks(root, issues, source);
+  issues.sort((a, b) => a.line - b.line);
+  return { nodes: root, issues };
+}
+
+/**
+ * The text inside a node, without tags
+ */
+export function getBBCodeText(nodes: BBCodeNode[]): string {
+  return nodes
+    .map((node) =>
+      node.type === 'text' ? node.text : getBBCodeText(node.children),
+    )
+    .join('');
+}
+
+function checkLinks(
+  nodes: BBCodeNode[],
+  issues: BBCodeIssue[],
+  source: string,
+): void {
+  for (const node of nodes) {
+    if (node.type !== 'tag') continue;
+    if (node.name === 'url' || node.name === 'img') {
+      const target = node.value ?? getBBCodeText(node.children);
+      if (!isWebUrl(target)) {
+        // Line of the first occurrence of the target; good enough for a hint
+        const offset = Math.max(0, source.indexOf(target));
+        issues.push({
+          severity: 'warning',
+          message: `[${node.name}] needs an http(s) link, got "${target.trim() || '(empty)'}"`,
+          line: lineAt(source, offset),
+        });
+      }
+    }
+    checkLinks(node.children, issues, source);
+  }
+}
+
+/**
+ * Plain text as Steam should show it: text with brackets goes in [noparse]
+ */
+export function escapeBBCode(text: string): string {
+  return text.includes('[') ? `[noparse]${text}[/noparse]` : text;
+}
+
+/**
+ * Only the problems of a description, for checks before upload
+ */
+export function validateBBCode(source: string): BBCodeIssue[] {
+  return parseBBCode(source).issues;
+}
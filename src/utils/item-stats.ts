@@ -0,0 +1,54 @@
+// Helpers for charting recorded workshop item statistics
+
+import type { ItemStatsSnapshot, WorkshopItem } from '../types';
+
+export type ItemStatKey = 'subscriptions' | 'favorited' | 'views';
+
+export const STAT_FIELDS: { key: ItemStatKey; label: string; icon: string }[] =
+  [
+    { key: 'subscriptions', label: 'Subscribers', icon: '👥' },
+    { key: 'favorited', label: 'Favorites', icon: '⭐' },
+    { key: 'views', label: 'Views', icon: '👁' },
+  ];
+
+export interface StatPoint {
+  timestamp: number; // ms since epoch
+  value: number;
+}
+
+/**
+ * The last snapshot taken at or before a time
+ */
+export function getSnapshotAt(
+  history: ItemStatsSnapshot[],
+  timestamp: number,
+): ItemStatsSnapshot | undefined {
+  let found: ItemStatsSnapshot | undefined;
+  for (const snapshot of history) {
+    if (snapshot.timestamp > timestamp) break;
+    found = snapshot;
+  }
+  return found;
+}
+
+/**
+ * One counter over time: the recorded snapshots (oldest first) followed by
+ * the item's current value. Snapshots are only taken on change, so each value
+ * holds until the next point.
+ */
+export function getStatSeries(
+  history: ItemStatsSnapshot[],
+  item: WorkshopItem,
+  key: ItemStatKey,
+  now: number,
+): StatPoint[] {
+  const points = history.map((snapshot) => ({
+    timestamp: snapshot.timestamp,
+    value: snapshot[key],
+  }));
+  const last = points[points.length - 1];
+  if (!last || last.timestamp < now) {
+    points.push({ timestamp: now, value: item[key] || 0 });
+  }
+  return points;
+}
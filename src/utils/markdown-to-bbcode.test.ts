@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { findRelativeImages, markdownToBBCode } from './markdown-to-bbcode';
+
+describe('markdownToBBCode', () => {
+  it('converts headings, emphasis and links', () => {
+    expect(
+      markdownToBBCode('# Title\n\nSome **bold** and [a link](https://x.io).'),
+    ).toBe(
+      '[h1]Title[/h1]\n\nSome [b]bold[/b] and [url=https://x.io]a link[/url].',
+    );
+  });
+
+  it('joins wrapped paragraph lines', () => {
+    expect(markdownToBBCode('one\ntwo\n\nthree')).toBe('one two\n\nthree');
+  });
+
+  it('nests indented list items', () => {
+    expect(markdownToBBCode('- a\n  1. one\n- b')).toBe(
+      '[list]\n[*]a\n[olist]\n[*]one\n[/olist]\n[*]b\n[/list]',
+    );
+  });
+
+  it('starts a new list when the marker type changes', () => {
+    expect(markdownToBBCode('- a\n- b\n\n1. one\n2. two')).toBe(
+      '[list]\n[*]a\n[*]b\n[/list]\n\n[olist]\n[*]one\n[*]two\n[/olist]',
+    );
+    expect(markdownToBBCode('- a\n* b')).toBe(
+      '[list]\n[*]a\n[/list]\n\n[list]\n[*]b\n[/list]',
+    );
+    expect(markdownToBBCode('1. one\n2) two')).toBe(
+      '[olist]\n[*]one\n[/olist]\n\n[olist]\n[*]two\n[/olist]',
+    );
+  });
+
+  it('starts a new nested list when a nested marker changes', () => {
+    expect(markdownToBBCode('- a\n  - b\n  1. c')).toBe(
+      '[list]\n[*]a\n[list]\n[*]b\n[/list]\n[olist]\n[*]c\n[/olist]\n[/list]',
+    );
+  });
+
+  it('converts tables and fenced code', () => {
+    expect(markdownToBBCode('| A | B |\n|---|---|\n| 1 | 2 |')).toBe(
+      '[table]\n[tr]\n[th]A[/th]\n[th]B[/th]\n[/tr]\n[tr]\n[td]1[/td]\n[td]2[/td]\n[/tr]\n[/table]',
+    );
+    expect(markdownToBBCode('```\nconst a = 1;\n```')).toBe(
+      '[code]const a = 1;[/code]',
+    );
+  });
+});
+
+describe('findRelativeImages', () => {
+  it('lists images that are not web links', () => {
+    expect(
+      findRelativeImages(
+        '![shot](docs/shot.png) ![web](https://x.io/a.png) <img src="b.gif">',
+      ),
+    ).toEqual(['docs/shot.png', 'b.gif']);
+  });
+});
@@ -0,0 +1,333 @@
+// Convert README-style Markdown into Steam Workshop BBCode
+// Shared by the renderer (description editor) and the CLI
+
+interface MarkdownListItem {
+  text: string;
+  children: MarkdownList[];
+}
+
+interface MarkdownList {
+  ordered: boolean;
+  marker: string; // "-", "*", "+", "." or ")"
+  indent: number;
+  items: MarkdownListItem[];
+}
+
+const FENCE = /^\s*(```|~~~)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Characters Markdown lets you escape with a backslash
+const ESCAPABLE = /\\([\\`*_{}[\]()#+\-.!|~>])/g;
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, '    ').length;
+}
+
+// The bullet, or the delimiter of a number; changing it starts a new list
+function listMarker(marker: string): string {
+  return marker.slice(-1);
+}
+
+/**
+ * Inline formatting: links, images, emphasis and strikethrough. Code spans,
+ * escaped characters and link targets are set aside so emphasis rules
+ * don't rewrite them.
+ */
+function convertInline(text: string): string {
+  const protectedText: string[] = [];
+  const protect = (value: string) => {
+    protectedText.push(value);
+    return `\u0000${protectedText.length - 1}\u0000`;
+  };
+
+  return text
+    .replace(/`([^`]+)`/g, (_, code: string) => protect(code))
+    .replace(ESCAPABLE, (_, char: string) => protect(char))
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(
+      /<img\b[^>]*?\ssrc=["']([^"']+)["'][^>]*>/gi,
+      (_, src: string) => `[img]${protect(src)}[/img]`,
+    )
+    .replace(
+      /!\[([^\]]*)\]\((\S+?)(?:\s+"[^"]*")?\)/g,
+      (_, _alt: string, src: string) => `[img]${protect(src)}[/img]`,
+    )
+    .replace(
+      /\[((?:[^[\]]|\[[^\]]*\])*)\]\((\S+?)(?:\s+"[^"]*")?\)/g,
+      (_, label: string, href: string) =>
+        `[url=${protect(href)}]${label}[/url]`,
+    )
+    .replace(
+      /<(https?:\/\/[^>\s]+)>/g,
+      (_, href: string) => `[url]${protect(href)}[/url]`,
+    )
+    .replace(
+      /\*\*(.+?)\*\*|__(.+?)__/g,
+      (_, a?: string, b?: string) => `[b]${a ?? b}[/b]`,
+    )
+    .replace(/~~(.+?)~~/g, '[strike]$1[/strike]')
+    .replace(/(^|[^*\w])\*(?!\s)(.+?)(?<!\s)\*(?!\*)/g, '$1[i]$2[/i]')
+    .replace(/(^|\W)_(?!\s)(.+?)(?<!\s)_(?=\W|$)/g, '$1[i]$2[/i]')
+    .replace(
+      /\u0000(\d+)\u0000/g,
+      (_, index: string) => protectedText[Number(index)],
+    );
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => convertInline(cell.trim().replace(/\\\|/g, '|')));
+}
+
+function convertTable(lines: string[]): string {
+  const [header, , ...body] = lines;
+  const row = (cells: string[], tag: 'th' | 'td') =>
+    `[tr]\n${cells.map((cell) => `[${tag}]${cell}[/${tag}]`).join('\n')}\n[/tr]`;
+  return [
+    '[table]',
+    row(splitTableRow(header), 'th'),
+    ...body.map((line) => row(splitTableRow(line), 'td')),
+    '[/table]',
+  ].join('\n');
+}
+
+function renderList(list: MarkdownList): string {
+  const tag = list.ordered ? 'olist' : 'list';
+  const items = list.items.map((item) =>
+    [`[*]${convertInline(item.text)}`, ...item.children.map(renderList)].join(
+      '\n',
+    ),
+  );
+  return [`[${tag}]`, ...items, `[/${tag}]`].join('\n');
+}
+
+/**
+ * Nest list items by indentation; lines that aren't items continue the
+ * previous item's text
+ */
+function convertList(lines: string[]): string {
+  const first = LIST_ITEM.exec(lines[0]) as RegExpExecArray;
+  const root: MarkdownList = {
+    ordered: /\d/.test(first[2]),
+    marker: listMarker(first[2]),
+    indent: indentWidth(first[1]),
+    items: [],
+  };
+  const stack: MarkdownList[] = [root];
+
+  for (const line of lines) {
+    const match = LIST_ITEM.exec(line);
+    if (!match) {
+      const current = stack[stack.length - 1].items.at(-1);
+      if (current && line.trim()) {
+        current.text += ` ${line.trim()}`;
+      }
+      continue;
+    }
+
+    const indent = indentWidth(match[1]);
+    while (stack.length > 1 && indent < stack[stack.length - 1].indent) {
+      stack.pop();
+    }
+    let list = stack[stack.length - 1];
+    // A new marker at a nested list's indent starts a sibling list
+    if (
+      stack.length > 1 &&
+      indent === list.indent &&
+      listMarker(match[2]) !== list.marker
+    ) {
+      stack.pop();
+      list = stack[stack.length - 1];
+    }
+    const parentItem = list.items.at(-1);
+    if (indent > list.indent && parentItem) {
+      const nested: MarkdownList = {
+        ordered: /\d/.test(match[2]),
+        marker: listMarker(match[2]),
+        indent,
+        items: [],
+      };
+      parentItem.children.push(nested);
+      stack.push(nested);
+      list = nested;
+    }
+    list.items.push({ text: match[3], children: [] });
+  }
+
+  return renderList(root);
+}
+
+function isBlockStart(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    LIST_ITEM.test(line)
+  );
+}
+
+/**
+ * Convert Markdown to BBCode. Headings map to [h1]-[h3], lists to
+ * [list]/[olist], tables to [table], fenced code to [code] and block quotes
+ * to [quote]. Wrapped paragraph lines are joined, since Steam keeps every
+ * line break.
+ */
+export function markdownToBBCode(markdown: string): string {
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n');
+  const blocks: string[] = [];
+
+  let index = 0;
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index += 1;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      index += 1;
+      while (
+        index < lines.length &&
+        !lines[index].trim().startsWith(fence[1])
+      ) {
+        code.push(lines[index]);
+        index += 1;
+      }
+      index += 1; // Closing fence
+      blocks.push(`[code]${code.join('\n')}[/code]`);
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const level = Math.min(heading[1].length, 3);
+      blocks.push(`[h${level}]${convertInline(heading[2])}[/h${level}]`);
+      index += 1;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('[hr][/hr]');
+      index += 1;
+      continue;
+    }
+
+    if (
+      line.includes('|') &&
+      index + 1 < lines.length &&
+      TABLE_SEPARATOR.test(lines[index + 1]) &&
+      lines[index + 1].includes('-')
+    ) {
+      const table = [line, lines[index + 1]];
+      index += 2;
+      while (
+        index < lines.length &&
+        lines[index].includes('|') &&
+        lines[index].trim()
+      ) {
+        table.push(lines[index]);
+        index += 1;
+      }
+      blocks.push(convertTable(table));
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE, ''));
+        index += 1;
+      }
+      blocks.push(`[quote]${markdownToBBCode(quoted.join('\n'))}[/quote]`);
+      continue;
+    }
+
+    const listItem = LIST_ITEM.exec(line);
+    if (listItem) {
+      const listLines: string[] = [];
+      const rootIndent = indentWidth(listItem[1]);
+      while (index < lines.length) {
+        const current = lines[index];
+        const item = LIST_ITEM.exec(current);
+        if (
+          item &&
+          indentWidth(item[1]) <= rootIndent &&
+          listMarker(item[2]) !== listMarker(listItem[2])
+        ) {
+          // A different bullet or delimiter ends the list (CommonMark)
+          break;
+        }
+        if (!current.trim()) {
+          // A blank line only continues the list if more items or indented text follow
+          const next = lines[index + 1];
+          if (
+            next === undefined ||
+            !(LIST_ITEM.test(next) || /^\s{2,}\S/.test(next))
+          ) {
+            break;
+          }
+        } else if (
+          listLines.length > 0 &&
+          !LIST_ITEM.test(current) &&
+          !/^\s/.test(current) &&
+          isBlockStart(current)
+        ) {
+          break;
+        }
+        listLines.push(current);
+        index += 1;
+      }
+      blocks.push(convertList(listLines));
+      continue;
+    }
+
+    // Paragraph: join wrapped lines, keeping hard breaks (two trailing spaces or a backslash)
+    let paragraph = '';
+    const start = index;
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      (index === start || !isBlockStart(lines[index]))
+    ) {
+      const current = lines[index];
+      const hardBreak = / {2,}$|\\$/.test(current);
+      const text = current.trim().replace(/\\$/, '');
+      paragraph += paragraph && !paragraph.endsWith('\n') ? ` ${text}` : text;
+      if (hardBreak) paragraph += '\n';
+      index += 1;
+    }
+    blocks.push(convertInline(paragraph.trimEnd()));
+  }
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Image paths in Markdown that aren't web links. A README's screenshots next
+ * to the file work on GitHub, but Steam only shows images from an http(s)
+ * address.
+ */
+export function findRelativeImages(markdown: string): string[] {
+  const sources = [
+    ...markdown.matchAll(/!\[[^\]]*\]\((\S+?)(?:\s+"[^"]*")?\)/g),
+    ...markdown.matchAll(/<img\b[^>]*?\ssrc=["']([^"']+)["']/gi),
+  ].map((match) => match[1].replace(/^<|>$/g, ''));
+  return [...new Set(sources)].filter(
+    (source) => !/^https?:\/\//i.test(source),
+  );
+}
@@ -0,0 +1,39 @@
+// Helpers for the extra screenshots and videos shown on a Workshop item
+// Shared by the renderer (preview gallery) and the main process (uploads, CLI)
+
+const VIDEO_ID_PATTERN = /^[A-Za-z0-9_-]{11}$/;
+
+/**
+ * Accept a bare YouTube video ID or a youtube.com / youtu.be link and return
+ * the video ID, or null when the value is neither
+ */
+export function parseYouTubeVideoId(value: string): string | null {
+  const trimmed = value.trim();
+  if (VIDEO_ID_PATTERN.test(trimmed)) {
+    return trimmed;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.replace(/^(www\.|m\.)/, '');
+  let videoId: string | null = null;
+  if (host === 'youtu.be') {
+    videoId = url.pathname.slice(1);
+  } else if (host === 'youtube.com') {
+    videoId =
+      url.searchParams.get('v') ??
+      /^\/(?:embed|shorts)\/([^/]+)/.exec(url.pathname)?.[1] ??
+      null;
+  }
+
+  return videoId && VIDEO_ID_PATTERN.test(videoId) ? videoId : null;
+}
+
+export function getYouTubeThumbnailUrl(videoId: string): string {
+  return `https://img.youtube.com/vi/${videoId}/mqdefault.jpg`;
+}
@@ -0,0 +1,123 @@
+// Compare a pending upload against the live Workshop item
+// Shared by the renderer (confirm dialog) and the CLI (--diff)
+
+import type {
+  DescriptionDiffLine,
+  ModUploadData,
+  TagVocabulary,
+  WorkshopItem,
+  WorkshopItemDiff,
+} from '../types';
+import { resolveTags } from './workshop-tags';
+
+/**
+ * Split a comma-separated tag field the same way uploads do
+ */
+export function parseTagList(tags: string): string[] {
+  return tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag.length > 0);
+}
+
+/**
+ * Line diff based on the longest common subsequence
+ */
+export function diffLines(
+  before: string,
+  after: string,
+): DescriptionDiffLine[] {
+  const a = before.split(/\r?\n/);
+  const b = after.split(/\r?\n/);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DescriptionDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
+
+/**
+ * Describe what publishing uploadData would change on the live item.
+ * Empty title/description/tags and missing visibility keep the live values,
+ * and tags are compared as mapped onto the vocabulary, matching how uploads
+ * build the Steam update.
+ */
+export function diffWorkshopItem(
+  item: WorkshopItem,
+  uploadData: ModUploadData,
+  vocabulary: TagVocabulary = { allowed: [], aliases: {} },
+): WorkshopItemDiff {
+  const diff: WorkshopItemDiff = {
+    tagsAdded: [],
+    tagsRemoved: [],
+    replacesContent: Boolean(uploadData.zipPath || uploadData.modDirectory),
+    replacesPreview: Boolean(uploadData.previewImagePath),
+    replacesAdditionalPreviews:
+      uploadData.additionalPreviews !== undefined &&
+      JSON.stringify(uploadData.additionalPreviews) !==
+        JSON.stringify(item.additionalPreviews ?? []),
+    hasChanges: false,
+  };
+
+  if (uploadData.title && uploadData.title !== item.title) {
+    diff.title = { from: item.title, to: uploadData.title };
+  }
+
+  const liveDescription = item.description || '';
+  if (uploadData.description && uploadData.description !== liveDescription) {
+    diff.description = diffLines(liveDescription, uploadData.description);
+  }
+
+  if (uploadData.tags) {
+    const nextTags = resolveTags(
+      parseTagList(uploadData.tags),
+      vocabulary,
+    ).tags;
+    diff.tagsAdded = nextTags.filter((tag) => !item.tags.includes(tag));
+    diff.tagsRemoved = item.tags.filter((tag) => !nextTags.includes(tag));
+  }
+
+  if (uploadData.visibility && uploadData.visibility !== item.visibility) {
+    diff.visibility = { from: item.visibility, to: uploadData.visibility };
+  }
+
+  diff.hasChanges = Boolean(
+    diff.title ||
+    diff.description ||
+    diff.tagsAdded.length > 0 ||
+    diff.tagsRemoved.length > 0 ||
+    diff.visibility ||
+    diff.replacesContent ||
+    diff.replacesPreview ||
+    diff.replacesAdditionalPreviews,
+  );
+
+  return diff;
+}
@@ -0,0 +1,109 @@
+// Search, filter and sort the workshop item list
+
+import type {
+  ModVisibility,
+  SortDirection,
+  WorkshopItem,
+  WorkshopItemListView,
+  WorkshopItemSortKey,
+} from '../types';
+
+export const SORT_OPTIONS: { key: WorkshopItemSortKey; label: string }[] = [
+  { key: 'updated', label: 'Last updated' },
+  { key: 'created', label: 'Created' },
+  { key: 'title', label: 'Title' },
+  { key: 'subscriptions', label: 'Subscribers' },
+  { key: 'favorited', label: 'Favorites' },
+  { key: 'views', label: 'Views' },
+];
+
+export const VISIBILITY_OPTIONS: { value: ModVisibility; label: string }[] = [
+  { value: 'public', label: 'Public' },
+  { value: 'friends', label: 'Friends Only' },
+  { value: 'private', label: 'Private' },
+  { value: 'unlisted', label: 'Unlisted' },
+];
+
+export const DEFAULT_LIST_VIEW: WorkshopItemListView = {
+  search: '',
+  sortBy: 'updated',
+  sortDirection: 'desc',
+  visibility: 'all',
+  tag: '',
+};
+
+/**
+ * The direction a sort starts in: A-Z for titles, newest/largest first otherwise
+ */
+export function getDefaultSortDirection(
+  sortBy: WorkshopItemSortKey,
+): SortDirection {
+  return sortBy === 'title' ? 'asc' : 'desc';
+}
+
+/**
+ * All tags used by the items, sorted. Tags differing only in case are listed
+ * once, spelled as first seen, since the tag filter ignores case.
+ */
+export function collectItemTags(items: WorkshopItem[]): string[] {
+  const tags = new Map<string, string>();
+  for (const item of items) {
+    for (const tag of item.tags) {
+      if (!tags.has(tag.toLowerCase())) {
+        tags.set(tag.toLowerCase(), tag);
+      }
+    }
+  }
+  return [...tags.values()].sort((a, b) =>
+    a.localeCompare(b, undefined, { sensitivity: 'base' }),
+  );
+}
+
+function matchesSearch(item: WorkshopItem, terms: string[]): boolean {
+  const haystack = [item.title, item.description, ...item.tags]
+    .join('\n')
+    .toLowerCase();
+  return terms.every((term) => haystack.includes(term));
+}
+
+function compareItems(
+  a: WorkshopItem,
+  b: WorkshopItem,
+  sortBy: WorkshopItemSortKey,
+): number {
+  switch (sortBy) {
+    case 'title':
+      return a.title.localeCompare(b.title, undefined, {
+        sensitivity: 'base',
+        numeric: true,
+      });
+    case 'updated':
+      return a.updatedDate - b.updatedDate;
+    case 'created':
+      return a.createdDate - b.createdDate;
+    default:
+      return (a[sortBy] || 0) - (b[sortBy] || 0);
+  }
+}
+
+/**
+ * Items matching every search word, the visibility and the tag, in view order.
+ * Ties keep the order Steam returned them in.
+ */
+export function applyListView(
+  items: WorkshopItem[],
+  view: WorkshopItemListView,
+): WorkshopItem[] {
+  const terms = view.search.toLowerCase().split(/\s+/).filter(Boolean);
+  const tag = view.tag.toLowerCase();
+  const direction = view.sortDirection === 'asc' ? 1 : -1;
+
+  return items
+    .filter(
+      (item) =>
+        (view.visibility === 'all' || item.visibility === view.visibility) &&
+        (!tag || item.tags.some((itemTag) => itemTag.toLowerCase() === tag)) &&
+        matchesSearch(item, terms),
+    )
+    .sort((a, b) => direction * compareItems(a, b, view.sortBy));
+}
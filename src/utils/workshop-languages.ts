@@ -0,0 +1,98 @@
+// Languages Steam accepts for per-language Workshop titles and descriptions
+// Shared by the renderer (translation tabs) and the main process
+
+export interface WorkshopLanguage {
+  code: string; // Steam API language code, as SetItemUpdateLanguage expects
+  name: string;
+  locales: string[]; // Web API / ISO codes mods tend to use, lowercase
+}
+
+export const WORKSHOP_LANGUAGES: readonly WorkshopLanguage[] = [
+  { code: 'english', name: 'English', locales: ['en'] },
+  {
+    code: 'schinese',
+    name: 'Simplified Chinese',
+    locales: ['zh-cn', 'zh-hans', 'zh-sg', 'zh'],
+  },
+  {
+    code: 'tchinese',
+    name: 'Traditional Chinese',
+    locales: ['zh-tw', 'zh-hant', 'zh-hk'],
+  },
+  { code: 'russian', name: 'Russian', locales: ['ru'] },
+  { code: 'japanese', name: 'Japanese', locales: ['ja', 'jp'] },
+  { code: 'koreana', name: 'Korean', locales: ['ko', 'kr'] },
+  { code: 'german', name: 'German', locales: ['de'] },
+  { code: 'french', name: 'French', locales: ['fr'] },
+  { code: 'spanish', name: 'Spanish (Spain)', locales: ['es', 'es-es'] },
+  {
+    code: 'latam',
+    name: 'Spanish (Latin America)',
+    locales: ['es-419', 'es-mx'],
+  },
+  {
+    code: 'portuguese',
+    name: 'Portuguese (Portugal)',
+    locales: ['pt', 'pt-pt'],
+  },
+  { code: 'brazilian', name: 'Portuguese (Brazil)', locales: ['pt-br'] },
+  { code: 'italian', name: 'Italian', locales: ['it'] },
+  { code: 'polish', name: 'Polish', locales: ['pl'] },
+  { code: 'ukrainian', name: 'Ukrainian', locales: ['uk', 'ua'] },
+  { code: 'turkish', name: 'Turkish', locales: ['tr'] },
+  { code: 'czech', name: 'Czech', locales: ['cs', 'cz'] },
+  { code: 'hungarian', name: 'Hungarian', locales: ['hu'] },
+  { code: 'romanian', name: 'Romanian', locales: ['ro'] },
+  { code: 'bulgarian', name: 'Bulgarian', locales: ['bg'] },
+  { code: 'greek', name: 'Greek', locales: ['el'] },
+  { code: 'dutch', name: 'Dutch', locales: ['nl'] },
+  { code: 'danish', name: 'Danish', locales: ['da'] },
+  { code: 'finnish', name: 'Finnish', locales: ['fi'] },
+  { code: 'norwegian', name: 'Norwegian', locales: ['no', 'nb'] },
+  { code: 'swedish', name: 'Swedish', locales: ['sv'] },
+  { code: 'thai', name: 'Thai', locales: ['th'] },
+  { code: 'vietnamese', name: 'Vietnamese', locales: ['vi', 'vn'] },
+  { code: 'indonesian', name: 'Indonesian', locales: ['id'] },
+  { code: 'arabic', name: 'Arabic', locales: ['ar'] },
+];
+
+/**
+ * The Steam language code for a Steam code ("schinese"), locale ("zh-CN",
+ * "zh_CN", "ru-RU") or English name ("Russian"); null when unknown
+ */
+export function toWorkshopLanguage(value: string): string | null {
+  const normalized = value.trim().toLowerCase().replace(/_/g, '-');
+  const named = WORKSHOP_LANGUAGES.find(
+    (language) =>
+      language.code === normalized ||
+      language.name.toLowerCase() === normalized,
+  );
+  if (named) {
+    return named.code;
+  }
+
+  // "zh-hant-tw" -> "zh-hant" -> "zh"
+  const parts = normalized.split('-');
+  for (let length = parts.length; length > 0; length -= 1) {
+    const locale = parts.slice(0, length).join('-');
+    const language = WORKSHOP_LANGUAGES.find((candidate) =>
+      candidate.locales.includes(locale),
+    );
+    if (language) {
+      return language.code;
+    }
+  }
+  return null;
+}
+
+/** Whether a value is exactly a Steam language code */
+export function isWorkshopLanguage(code: string): boolean {
+  return WORKSHOP_LANGUAGES.some((language) => language.code === code);
+}
+
+/** Display name for a Steam language code */
+export function getWorkshopLanguageName(code: string): string {
+  return (
+    WORKSHOP_LANGUAGES.find((language) => language.code === code)?.name ?? code
+  );
+}
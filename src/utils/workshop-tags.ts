@@ -0,0 +1,63 @@
+// Match tags against the game's Workshop tag vocabulary
+// Shared by the renderer (tag picker) and the main process
+
+import type { TagVocabulary } from '../types';
+
+export interface ResolvedTags {
+  // As published: known tags mapped onto the vocabulary, unknown ones as
+  // written, deduplicated, in the order given
+  tags: string[];
+  mapped: { from: string; to: string }[]; // Aliases and case fixes applied
+  unknown: string[]; // Neither allowed nor an alias
+}
+
+/**
+ * The allowed tag a tag stands for, matched case-insensitively against the
+ * allowed tags and their aliases. Null when it matches neither; any tag is
+ * accepted when the vocabulary allows none.
+ */
+export function toAllowedTag(
+  tag: string,
+  vocabulary: TagVocabulary,
+): string | null {
+  if (vocabulary.allowed.length === 0) {
+    return tag;
+  }
+  const key = tag.trim().toLowerCase();
+  const allowed = vocabulary.allowed.find(
+    (candidate) => candidate.toLowerCase() === key,
+  );
+  if (allowed) {
+    return allowed;
+  }
+  const alias = Object.keys(vocabulary.aliases).find(
+    (candidate) => candidate.toLowerCase() === key,
+  );
+  return alias ? vocabulary.aliases[alias] : null;
+}
+
+/**
+ * Map tags onto the vocabulary, reporting what was renamed or is unknown.
+ * Unknown tags are kept as written; callers decide whether to allow them.
+ */
+export function resolveTags(
+  tags: string[],
+  vocabulary: TagVocabulary,
+): ResolvedTags {
+  const resolved: ResolvedTags = { tags: [], mapped: [], unknown: [] };
+
+  for (const tag of tags) {
+    const allowed = toAllowedTag(tag, vocabulary);
+    if (allowed === null) {
+      resolved.unknown.push(tag);
+    } else if (allowed !== tag) {
+      resolved.mapped.push({ from: tag, to: allowed });
+    }
+    const published = allowed ?? tag;
+    if (!resolved.tags.includes(published)) {
+      resolved.tags.push(published);
+    }
+  }
+
+  return resolved;
+}
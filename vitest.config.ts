@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts, which clears dist-electron and starts Electron
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts', 'electron/**/*.test.ts'],
+    environment: 'node',
+  },
+});